@@ -3,6 +3,9 @@ import "dotenv/config";
 
 const MONGODB_URI = process.env["MONGODB_URI"] ?? "mongodb://localhost:27017/damlee";
 
+// Queries inside `mongoose.connection.transaction()` join the transaction without passing its session
+mongoose.set("transactionAsyncLocalStorage", true);
+
 export async function connectDB(): Promise<void> {
     try {
         await mongoose.connect(MONGODB_URI);
@@ -0,0 +1,45 @@
+import mongoose, { Schema } from "mongoose";
+
+// Queries that only see documents outside the trash unless their filter names `deletedAt`.
+// Deletes are left alone: they are how trashed documents get purged.
+const LIVE_QUERIES: mongoose.MongooseDistinctQueryMiddleware[] = [
+    "countDocuments",
+    "distinct",
+    "find",
+    "findOne",
+    "findOneAndReplace",
+    "findOneAndUpdate",
+    "replaceOne",
+    "updateMany",
+];
+
+// Mongoose plugin for models whose documents go to the trash instead of being deleted right away.
+// Trashed documents have `deletedAt` set and are hidden from every query and aggregation; query
+// them explicitly with a `deletedAt` filter, e.g. `{ deletedAt: { $ne: null } }`, or include them
+// with the `withTrashed` query option (also for populate: `{ path, options: { withTrashed: true } }`).
+export function softDelete(schema: Schema) {
+    schema.add({
+        deletedAt: {
+            type: Date,
+            default: null,
+            index: true,
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+        },
+    });
+
+    function hideTrashed(this: mongoose.Query<unknown, unknown>) {
+        if (!("deletedAt" in this.getFilter()) && !this.getOptions()["withTrashed"]) {
+            this.where({ deletedAt: null });
+        }
+    }
+
+    schema.pre(LIVE_QUERIES, hideTrashed);
+    schema.pre("updateOne", { document: false, query: true }, hideTrashed);
+
+    schema.pre("aggregate", function () {
+        this.pipeline().unshift({ $match: { deletedAt: null } });
+    });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { AuditLog, Task } from "../models/index.js";
+import { runInOrganization } from "./tenancy.js";
+import { objectId } from "../test/helpers.js";
+
+describe("organization of new documents", () => {
+    it("keeps audit entries of callers outside any organization at deployment level", async () => {
+        const entry = new AuditLog({ actor: objectId(), path: "auth.deleteAccount", changes: [] });
+        await runInOrganization(null, () => entry.validate());
+        expect(entry.organization).toBeNull();
+        expect(entry.toObject()).toHaveProperty("organization", null);
+    });
+
+    it("puts audit entries in the caller's organization", async () => {
+        const organization = objectId();
+        const entry = new AuditLog({ actor: objectId(), path: "rooms.update", changes: [] });
+        await runInOrganization(organization, () => entry.validate());
+        expect(entry.organization).toEqual(organization);
+    });
+
+    it("refuses other documents outside any organization", async () => {
+        const task = new Task({ title: "Orphan", createdBy: objectId() });
+        await expect(runInOrganization(null, () => task.validate())).rejects.toMatchObject({ code: "FORBIDDEN" });
+    });
+});
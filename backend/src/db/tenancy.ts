@@ -0,0 +1,105 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import mongoose, { Schema, Types } from "mongoose";
+import { forbidden } from "../lib/errors.js";
+
+interface TenantStore {
+    // null for signed-in users that do not belong to any organization yet
+    organizationId: string | null;
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantStore>();
+
+// Schemas that carry the `organization` field added by `organizationScope`
+const tenantSchemas = new WeakSet<Schema>();
+
+// Runs `fn` with every query on organization-scoped models limited to the given organization
+export function runInOrganization<T>(organizationId: string | Types.ObjectId | null | undefined, fn: () => T): T {
+    return tenantStorage.run({ organizationId: organizationId ? organizationId.toString() : null }, fn);
+}
+
+// The organization queries are scoped to; undefined outside of any (background jobs, public procedures)
+export function currentOrganization(): string | null | undefined {
+    return tenantStorage.getStore()?.organizationId;
+}
+
+const SCOPED_QUERIES: mongoose.MongooseDistinctQueryMiddleware[] = [
+    "countDocuments",
+    "deleteMany",
+    "distinct",
+    "find",
+    "findOne",
+    "findOneAndDelete",
+    "findOneAndReplace",
+    "findOneAndUpdate",
+    "replaceOne",
+    "updateMany",
+];
+
+// Mongoose plugin for models that belong to an organization. Within `runInOrganization` every
+// query only sees the organization's documents and new documents are created in it.
+// With `deploymentLevel`, documents created for users outside any organization are kept with
+// `organization: null` instead of being refused.
+export function organizationScope(schema: Schema, options: { deploymentLevel?: boolean } = {}) {
+    tenantSchemas.add(schema);
+
+    schema.add({
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: !options.deploymentLevel,
+            index: true,
+        },
+    });
+
+    function scopeQuery(this: mongoose.Query<unknown, unknown>) {
+        const organizationId = currentOrganization();
+        if (organizationId !== undefined) {
+            this.where({ organization: organizationId });
+        }
+    }
+
+    schema.pre(SCOPED_QUERIES, scopeQuery);
+    schema.pre(["updateOne", "deleteOne"], { document: false, query: true }, scopeQuery);
+
+    schema.pre("aggregate", function () {
+        const organizationId = currentOrganization();
+        if (organizationId !== undefined) {
+            this.pipeline().unshift({
+                $match: { organization: organizationId ? new Types.ObjectId(organizationId) : null },
+            });
+        }
+    });
+
+    schema.pre("validate", function () {
+        if (this.get("organization")) return;
+
+        const organizationId = currentOrganization();
+        if (organizationId === null && options.deploymentLevel) {
+            // Set explicitly, so that `assignUnscopedDocuments` leaves it alone
+            this.set("organization", null);
+            return;
+        }
+        if (organizationId === null) {
+            throw forbidden("Join or create an organization first");
+        }
+        if (organizationId) {
+            this.set("organization", organizationId);
+        }
+    });
+}
+
+// Assigns every document created before organizations existed to the given organization
+export async function assignUnscopedDocuments(organizationId: Types.ObjectId): Promise<number> {
+    let assigned = 0;
+    for (const model of Object.values(mongoose.models)) {
+        if (!tenantSchemas.has(model.schema)) continue;
+        if (!(await model.exists({ organization: { $exists: false } }))) continue;
+
+        const result = await model.updateMany(
+            { organization: { $exists: false } },
+            { $set: { organization: organizationId } }
+        );
+        assigned += result.modifiedCount;
+    }
+    return assigned;
+}
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+let supported: boolean | undefined;
+
+// Transactions need a replica set or a sharded cluster; a standalone server (the default local setup) has neither
+async function transactionsSupported(): Promise<boolean> {
+    if (supported === undefined) {
+        const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+        supported = Boolean(hello["setName"]) || hello["msg"] === "isdbgrid";
+        if (!supported) {
+            console.warn("⚠️ MongoDB is not a replica set: multi-document changes run without transactions");
+        }
+    }
+    return supported;
+}
+
+// Runs `fn` in a transaction, retried on transient errors. Every query in it joins the transaction by itself.
+export async function inTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (!(await transactionsSupported())) {
+        return fn();
+    }
+    return mongoose.connection.transaction(() => fn());
+}
@@ -1,14 +1,29 @@
 import "dotenv/config";
 import express from "express";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
 import cors from "cors";
+import { ORPCError, ValidationError, onError } from "@orpc/server";
 import { RPCHandler } from "@orpc/server/fetch";
 import { router } from "./router/index.js";
 import { connectDB } from "./db/connection.js";
 import { createContext } from "./orpc.js";
+import { fromValidationError } from "./lib/errors.js";
+import { startReminderScheduler } from "./jobs/reminders.js";
+import { startNoShowScheduler } from "./jobs/no-show.js";
+import { startTrashRetentionScheduler } from "./jobs/trash-retention.js";
+import { ensureDefaultOrganization } from "./lib/organizations.js";
+import { backfillCompletedAt } from "./lib/workflows.js";
 
 const app = express();
 const PORT = process.env["PORT"] ?? 3001;
 
+// Hop count (or "true") of reverse proxies in front of the app, so req.ip is the real client address
+const trustProxy = process.env["TRUST_PROXY"];
+if (trustProxy) {
+    app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === "true" || trustProxy);
+}
+
 // Middleware
 app.use(cors({
     origin: ["http://localhost:5173", "http://localhost:3000"],
@@ -22,10 +37,22 @@ app.get("/health", (_req, res) => {
 });
 
 // ORPC Handler
-const handler = new RPCHandler(router);
+const handler = new RPCHandler(router, {
+    clientInterceptors: [
+        onError((error) => {
+            if (error instanceof ORPCError && error.code === "BAD_REQUEST" && error.cause instanceof ValidationError) {
+                throw fromValidationError(error.cause);
+            }
+            // Anything outside the error catalogue (lib/errors.ts) is a bug - keep the details in the logs
+            if (error instanceof ORPCError && error.code === "INTERNAL_SERVER_ERROR") {
+                console.error("Unhandled procedure error:", error.cause ?? error);
+            }
+        }),
+    ],
+});
 
 app.all("/api/{*splat}", async (req, res) => {
-    const context = createContext(req);
+    const context = await createContext(req);
 
     // Convert Express request to Fetch Request
     const url = new URL(req.url, `http://${req.headers.host}`);
@@ -36,9 +63,14 @@ app.all("/api/{*splat}", async (req, res) => {
         }
     }
 
+    // Abort the handler (and end any open event stream) once the client goes away
+    const abortController = new AbortController();
+    res.on("close", () => abortController.abort());
+
     const requestInit: RequestInit = {
         method: req.method,
         headers,
+        signal: abortController.signal,
     };
 
     if (!["GET", "HEAD"].includes(req.method)) {
@@ -64,6 +96,14 @@ app.all("/api/{*splat}", async (req, res) => {
         });
 
         res.status(response.status);
+
+        // Event iterator procedures (e.g. alerts.stream) respond with a long-lived SSE body
+        if (response.body && response.headers.get("content-type")?.startsWith("text/event-stream")) {
+            res.flushHeaders();
+            Readable.fromWeb(response.body as WebReadableStream).pipe(res);
+            return;
+        }
+
         const body = await response.text();
         res.send(body);
     } catch (error) {
@@ -76,6 +116,14 @@ app.all("/api/{*splat}", async (req, res) => {
 async function start() {
     try {
         await connectDB();
+        await ensureDefaultOrganization();
+        const backfilled = await backfillCompletedAt();
+        if (backfilled > 0) {
+            console.log(`✅ Recorded completion dates of ${backfilled} finished task(s)`);
+        }
+        startReminderScheduler();
+        startNoShowScheduler();
+        startTrashRetentionScheduler();
         app.listen(PORT, () => {
             console.log(`🚀 Server running on http://localhost:${PORT}`);
             console.log(`📚 API available at http://localhost:${PORT}/api`);
@@ -0,0 +1,60 @@
+import { Booking, Room } from "../models/index.js";
+import { notify } from "../lib/alerts.js";
+import { runInOrganization } from "../db/tenancy.js";
+import { startJob, systemClock, type Clock, type JobOptions } from "./scheduler.js";
+
+const DEFAULT_GRACE_MINUTES = 15;
+
+// Cancels confirmed bookings whose room sensors have seen nobody since the booking started.
+// Runs across all organizations.
+export async function releaseNoShowBookings(
+    clock: Clock = systemClock,
+    graceMinutes = DEFAULT_GRACE_MINUTES
+): Promise<number> {
+    const now = clock.now();
+    const graceCutoff = new Date(now.getTime() - graceMinutes * 60 * 1000);
+
+    const bookings = await Booking.find({
+        status: "confirmed",
+        startTime: { $lte: graceCutoff },
+        endTime: { $gt: now },
+    });
+
+    let released = 0;
+
+    for (const booking of bookings) {
+        const room = await Room.findById(booking.room);
+        if (!room?.occupancyUpdatedAt) continue;
+
+        // Only trust sensors that have reported since the booking started
+        if (room.occupancyUpdatedAt < booking.startTime) continue;
+        if (room.lastOccupiedAt && room.lastOccupiedAt >= booking.startTime) continue;
+
+        booking.status = "cancelled";
+        booking.cancellationReason = `Released automatically: room unused ${graceMinutes} minutes after start`;
+        await booking.save();
+
+        await runInOrganization(booking.organization, () =>
+            notify({
+                title: "Booking released",
+                message: `Your booking "${booking.title}" for ${room.name} was released because nobody checked in within ${graceMinutes} minutes`,
+                type: "warning",
+                targetUsers: [booking.organizer],
+                metadata: {
+                    bookingId: booking._id.toString(),
+                    roomId: room._id.toString(),
+                },
+            })
+        );
+        released++;
+    }
+
+    return released;
+}
+
+export function startNoShowScheduler(options: JobOptions & { graceMinutes?: number } = {}): () => void {
+    const graceMinutes = options.graceMinutes
+        ?? Number(process.env["BOOKING_NO_SHOW_GRACE_MINUTES"] ?? DEFAULT_GRACE_MINUTES);
+
+    return startJob("No-show bookings", (clock) => releaseNoShowBookings(clock, graceMinutes), options);
+}
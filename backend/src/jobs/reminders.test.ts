@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Event } from "../models/index.js";
+import { notify } from "../lib/alerts.js";
+import { objectId, query } from "../test/helpers.js";
+import { dispatchDueReminders } from "./reminders.js";
+import type { Clock } from "./scheduler.js";
+
+vi.mock("../lib/alerts.js", () => ({ notify: vi.fn() }));
+
+function clockAt(iso: string): Clock {
+    return { now: () => new Date(iso) };
+}
+
+function event(fields: Record<string, unknown>) {
+    return new Event({
+        title: "Standup",
+        start: new Date("2026-03-02T09:00:00Z"),
+        end: new Date("2026-03-02T09:15:00Z"),
+        createdBy: objectId(),
+        organization: objectId(),
+        ...fields,
+    });
+}
+
+function stubEvents(...events: ReturnType<typeof event>[]) {
+    vi.spyOn(Event, "find").mockReturnValue(query(events) as never);
+}
+
+describe("dispatchDueReminders", () => {
+    beforeEach(() => {
+        vi.spyOn(Event, "updateOne").mockReturnValue(query({ modifiedCount: 1 }) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.mocked(notify).mockClear();
+    });
+
+    it("sends a reminder once it is due", async () => {
+        stubEvents(event({ reminders: [new Date("2026-03-02T08:45:00Z")] }));
+
+        expect(await dispatchDueReminders(clockAt("2026-03-02T08:44:00Z"))).toBe(0);
+        expect(await dispatchDueReminders(clockAt("2026-03-02T08:45:00Z"))).toBe(1);
+        expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+            title: "Reminder: Standup",
+            message: "Starts at 2026-03-02T09:00:00.000Z",
+        }));
+    });
+
+    it("skips reminders already sent or claimed elsewhere", async () => {
+        const reminder = new Date("2026-03-02T08:45:00Z");
+        stubEvents(event({ reminders: [reminder], remindersSent: [reminder] }));
+        expect(await dispatchDueReminders(clockAt("2026-03-02T08:50:00Z"))).toBe(0);
+
+        stubEvents(event({ reminders: [reminder] }));
+        vi.spyOn(Event, "updateOne").mockReturnValue(query({ modifiedCount: 0 }) as never);
+        expect(await dispatchDueReminders(clockAt("2026-03-02T08:50:00Z"))).toBe(0);
+        expect(notify).not.toHaveBeenCalled();
+    });
+
+    it("drops reminders missed by more than a day", async () => {
+        stubEvents(event({ reminders: [new Date("2026-03-02T08:45:00Z")] }));
+        expect(await dispatchDueReminders(clockAt("2026-03-03T09:00:00Z"))).toBe(0);
+    });
+
+    it("reminds every occurrence of a series with the same lead time", async () => {
+        stubEvents(event({
+            reminders: [new Date("2026-03-02T08:45:00Z")],
+            recurrence: "FREQ=DAILY",
+            exdates: [new Date("2026-03-04T09:00:00Z")],
+        }));
+
+        expect(await dispatchDueReminders(clockAt("2026-03-05T08:30:00Z"))).toBe(0);
+        expect(await dispatchDueReminders(clockAt("2026-03-05T08:45:00Z"))).toBe(1);
+        expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+            message: "Starts at 2026-03-05T09:00:00.000Z",
+            metadata: expect.objectContaining({ occurrenceStart: "2026-03-05T09:00:00.000Z" }),
+        }));
+        expect(Event.updateOne).toHaveBeenCalledWith(
+            expect.anything(),
+            { $addToSet: { remindersSent: new Date("2026-03-05T08:45:00Z") } }
+        );
+
+        // The excluded occurrence is not reminded
+        vi.mocked(notify).mockClear();
+        expect(await dispatchDueReminders(clockAt("2026-03-04T08:45:00Z"))).toBe(0);
+    });
+});
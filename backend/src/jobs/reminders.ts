@@ -0,0 +1,98 @@
+import { Event, type IEvent } from "../models/index.js";
+import { notify } from "../lib/alerts.js";
+import { expandOccurrences } from "../lib/recurrence.js";
+import { runInOrganization } from "../db/tenancy.js";
+import { startJob, systemClock, type Clock, type JobOptions } from "./scheduler.js";
+
+// Reminders missed by more than this (e.g. while the server was down) are dropped instead of sent late
+const MAX_LATENESS_MS = 24 * 60 * 60 * 1000;
+
+// A reminder to send and the start of the occurrence it is for
+interface DueReminder {
+    at: Date;
+    start: Date;
+}
+
+// Reminders of `event` that fall in (cutoff, now] and were not sent yet. A recurring series
+// stores its reminders for the first occurrence; every later one is reminded with the same lead time.
+function dueReminders(event: IEvent, cutoff: Date, now: Date): DueReminder[] {
+    let candidates: DueReminder[];
+
+    if (event.recurrence) {
+        const leads = event.reminders.map((r) => event.start.getTime() - r.getTime());
+        const starts = expandOccurrences(
+            event.recurrence,
+            event.start,
+            0,
+            event.exdates,
+            new Date(cutoff.getTime() + Math.min(...leads)),
+            new Date(now.getTime() + Math.max(...leads))
+        );
+        candidates = starts.flatMap((start) =>
+            leads.map((lead) => ({ at: new Date(start.getTime() - lead), start }))
+        );
+    } else {
+        candidates = event.reminders.map((at) => ({ at, start: event.start }));
+    }
+
+    return candidates.filter(
+        ({ at }) => at > cutoff && at <= now && !event.remindersSent.some((s) => s.getTime() === at.getTime())
+    );
+}
+
+// Sends every reminder that is due at `clock.now()`, across all organizations. Returns how many reminders were dispatched.
+export async function dispatchDueReminders(clock: Clock = systemClock): Promise<number> {
+    const now = clock.now();
+    const cutoff = new Date(now.getTime() - MAX_LATENESS_MS);
+
+    const events = await Event.find({
+        status: { $ne: "cancelled" },
+        $or: [
+            { reminders: { $elemMatch: { $gt: cutoff, $lte: now } } },
+            { recurrence: { $nin: [null, ""] }, "reminders.0": { $exists: true } },
+        ],
+    });
+
+    let sent = 0;
+
+    for (const event of events) {
+        const duration = event.end.getTime() - event.start.getTime();
+
+        for (const { at, start } of dueReminders(event, cutoff, now)) {
+            // Claim the reminder first so concurrent instances or restarts cannot send it twice
+            const claim = await Event.updateOne(
+                { _id: event._id, remindersSent: { $ne: at } },
+                { $addToSet: { remindersSent: at } }
+            );
+            if (claim.modifiedCount === 0) continue;
+
+            const recipients = new Set([
+                event.createdBy.toString(),
+                ...event.attendees.map((a) => a.toString()),
+            ]);
+            const end = new Date(start.getTime() + duration);
+
+            await runInOrganization(event.organization, () =>
+                notify({
+                    title: `Reminder: ${event.title}`,
+                    message: `Starts at ${start.toISOString()}${event.location ? ` in ${event.location}` : ""}`,
+                    targetUsers: [...recipients],
+                    metadata: {
+                        eventId: event._id.toString(),
+                        occurrenceStart: start.toISOString(),
+                        reminderAt: at.toISOString(),
+                    },
+                    expiresAt: end > now ? end : undefined,
+                })
+            );
+            sent++;
+        }
+    }
+
+    return sent;
+}
+
+// Polls for due reminders in the background. Returns a function that stops the scheduler.
+export function startReminderScheduler(options: JobOptions = {}): () => void {
+    return startJob("Event reminders", dispatchDueReminders, options);
+}
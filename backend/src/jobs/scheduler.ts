@@ -0,0 +1,44 @@
+export interface Clock {
+    now(): Date;
+}
+
+export const systemClock: Clock = {
+    now: () => new Date(),
+};
+
+export interface JobOptions {
+    intervalMs?: number;
+    clock?: Clock;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Runs `job` right away and then on every interval, never overlapping itself. Returns a stop function.
+export function startJob(
+    name: string,
+    job: (clock: Clock) => Promise<number>,
+    options: JobOptions = {}
+): () => void {
+    const clock = options.clock ?? systemClock;
+    let running = false;
+
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            const processed = await job(clock);
+            if (processed > 0) {
+                console.log(`⏰ ${name}: processed ${processed} item(s)`);
+            }
+        } catch (error) {
+            console.error(`${name} failed:`, error);
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(tick, options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    void tick();
+
+    return () => clearInterval(timer);
+}
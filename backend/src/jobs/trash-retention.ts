@@ -0,0 +1,21 @@
+import { TRASH_RETENTION_DAYS, purgeTrashedBefore } from "../lib/trash.js";
+import { startJob, systemClock, type Clock, type JobOptions } from "./scheduler.js";
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Permanently deletes documents that have been in the trash longer than the retention period.
+// Runs across all organizations.
+export async function purgeExpiredTrash(
+    clock: Clock = systemClock,
+    retentionDays = TRASH_RETENTION_DAYS
+): Promise<number> {
+    const cutoff = new Date(clock.now().getTime() - retentionDays * 24 * 60 * 60 * 1000);
+    return purgeTrashedBefore(cutoff);
+}
+
+export function startTrashRetentionScheduler(options: JobOptions = {}): () => void {
+    return startJob("Trash retention", (clock) => purgeExpiredTrash(clock), {
+        intervalMs: DEFAULT_INTERVAL_MS,
+        ...options,
+    });
+}
@@ -0,0 +1,125 @@
+import crypto from "crypto";
+import {
+    AccountToken,
+    Alert,
+    ApiToken,
+    Asset,
+    Booking,
+    Event,
+    Organization,
+    RefreshToken,
+    Room,
+    Task,
+    Team,
+    User,
+    type IUser,
+} from "../models/index.js";
+import { conflict, invalid, notFound } from "./errors.js";
+import { organizationsOf } from "./organizations.js";
+import { runInOrganization } from "../db/tenancy.js";
+import { inTransaction } from "../db/transaction.js";
+
+export interface DeleteAccountOptions {
+    // Hands the user's teams, tasks, events and bookings to this user, in the organizations they share.
+    // Elsewhere they stay attached to the anonymized account and future bookings are cancelled.
+    transferTo?: string;
+}
+
+// Deletes a user's account: personal data is scrubbed, their content is reassigned or left with
+// the anonymized account, and every other reference to them is removed
+export async function deleteAccount(user: IUser, options: DeleteAccountOptions = {}) {
+    const userId = user._id;
+
+    if (user.role === "admin" && (await User.countDocuments({ role: "admin", deletedAt: null })) <= 1) {
+        throw conflict("The last admin account cannot be deleted");
+    }
+
+    let successor: IUser | null = null;
+    if (options.transferTo) {
+        if (options.transferTo === userId.toString()) {
+            throw invalid("Choose another user to hand your content over to");
+        }
+        successor = await User.findOne({ _id: options.transferTo, deletedAt: null });
+        if (!successor) {
+            throw notFound("User", options.transferTo);
+        }
+    }
+
+    // One transaction, so a failure halfway does not leave the account half-deleted
+    await inTransaction(async () => {
+        for (const organization of await organizationsOf(user)) {
+            const heir = successor && (await Organization.exists({ _id: organization.id, "members.user": successor._id }))
+                ? successor
+                : null;
+            await runInOrganization(organization.id, () => handOverContent(user, heir));
+        }
+        await Organization.updateMany({ "members.user": userId }, { $pull: { members: { user: userId } } });
+
+        await RefreshToken.deleteMany({ user: userId });
+        await AccountToken.deleteMany({ user: userId });
+        await ApiToken.deleteMany({ user: userId });
+
+        user.email = `deleted-${userId.toString()}@deleted.invalid`;
+        user.name = "Deleted user";
+        user.password = crypto.randomBytes(32).toString("hex");
+        user.avatar = undefined;
+        user.role = "member";
+        user.roles = [];
+        user.emailVerified = false;
+        user.deletedAt = new Date();
+        await user.save();
+    });
+
+    return { transferredTo: successor?._id.toString() };
+}
+
+// Reassigns or detaches the user's content in the organization the call runs in
+async function handOverContent(user: IUser, successor: IUser | null) {
+    const userId = user._id;
+
+    // Owned teams go to the successor, or else to the longest-standing other member
+    const ownedTeams = await Team.find({ owner: userId });
+    for (const team of ownedTeams) {
+        const heir = successor?._id ?? team.members.find((m) => !m.equals(userId));
+
+        if (!heir) {
+            await team.deleteOne();
+            await Task.updateMany({ team: team._id }, { $unset: { team: 1 } });
+            continue;
+        }
+
+        team.owner = heir;
+        if (!team.members.some((m) => m.equals(heir))) {
+            team.members.push(heir);
+        }
+        await team.save();
+    }
+    await Team.updateMany(
+        { $or: [{ members: userId }, { "memberRoles.user": userId }] },
+        { $pull: { members: userId, memberRoles: { user: userId } } }
+    );
+
+    if (successor) {
+        await Task.updateMany({ createdBy: userId }, { $set: { createdBy: successor._id } });
+        await Event.updateMany({ createdBy: userId }, { $set: { createdBy: successor._id } });
+        await Booking.updateMany({ organizer: userId }, { $set: { organizer: successor._id } });
+    } else {
+        await Booking.updateMany(
+            { organizer: userId, startTime: { $gt: new Date() }, status: { $in: ["pending", "confirmed"] } },
+            { $set: { status: "cancelled", cancellationReason: "The organizer's account was deleted" } }
+        );
+    }
+
+    await Task.updateMany({ assignee: userId }, { $unset: { assignee: 1 } });
+    await Event.updateMany({ attendees: userId }, { $pull: { attendees: userId } });
+    await Booking.updateMany({ attendees: userId }, { $pull: { attendees: userId } });
+    await Asset.updateMany({ assignedTo: userId }, { $unset: { assignedTo: 1 } });
+    await Room.updateMany({ approvers: userId }, { $pull: { approvers: userId } });
+
+    // Alerts only meant for this user go; an empty target list would turn them into broadcasts
+    await Alert.deleteMany({ targetUsers: [userId] });
+    await Alert.updateMany(
+        { $or: [{ targetUsers: userId }, { readBy: userId }] },
+        { $pull: { targetUsers: userId, readBy: userId } }
+    );
+}
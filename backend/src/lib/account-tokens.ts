@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { AccountToken, type AccountTokenPurpose, type IUser } from "../models/index.js";
+import { sendMail } from "./mail.js";
+import { invalid } from "./errors.js";
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Base URL of the webapp, used to build the links in outgoing mail
+export const APP_URL = process.env["APP_URL"] ?? "http://localhost:5173";
+
+function hashAccountToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Issues a new token for `purpose`, invalidating any earlier one that was not used yet
+async function issueAccountToken(user: IUser, purpose: AccountTokenPurpose, ttlMs: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString("base64url");
+
+    await AccountToken.deleteMany({ user: user._id, purpose, usedAt: null });
+    await new AccountToken({
+        user: user._id,
+        purpose,
+        tokenHash: hashAccountToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+    }).save();
+
+    return token;
+}
+
+// Marks the token as used and returns its owner's id; each token can only be consumed once
+export async function consumeAccountToken(token: string, purpose: AccountTokenPurpose) {
+    const now = new Date();
+    const consumed = await AccountToken.findOneAndUpdate(
+        { tokenHash: hashAccountToken(token), purpose, usedAt: null, expiresAt: { $gt: now } },
+        { $set: { usedAt: now } }
+    );
+
+    if (!consumed) {
+        throw invalid("This link is invalid or has expired");
+    }
+    return consumed.user;
+}
+
+export async function sendPasswordResetEmail(user: IUser): Promise<void> {
+    const token = await issueAccountToken(user, "password-reset", PASSWORD_RESET_TTL_MS);
+    const link = `${APP_URL}/reset-password?token=${token}`;
+
+    await sendMail({
+        to: user.email,
+        subject: "Reset your password",
+        text: `Hi ${user.name},\n\nSomeone asked to reset the password for your account. `
+            + `If that was you, open the link below within the next hour:\n\n${link}\n\n`
+            + "If you did not ask for this, you can ignore this email.",
+    });
+}
+
+export async function sendVerificationEmail(user: IUser): Promise<void> {
+    const token = await issueAccountToken(user, "email-verification", EMAIL_VERIFICATION_TTL_MS);
+    const link = `${APP_URL}/verify-email?token=${token}`;
+
+    await sendMail({
+        to: user.email,
+        subject: "Confirm your email address",
+        text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below:\n\n${link}`,
+    });
+}
@@ -0,0 +1,73 @@
+import type { Types } from "mongoose";
+import { EventPublisher } from "@orpc/server";
+import {
+    Alert,
+    type AlertPriority,
+    type AlertSource,
+    type AlertType,
+    type IAlert,
+} from "../models/index.js";
+
+export interface AlertMessage {
+    id: string;
+    organizationId: string;
+    title: string;
+    message: string;
+    type: AlertType;
+    source: AlertSource;
+    priority: AlertPriority;
+    metadata?: Record<string, unknown>;
+    targetUsers: string[];
+    createdAt: string;
+    expiresAt?: string;
+}
+
+// In-process fan-out of newly created alerts to the open `alerts.stream` subscriptions
+export const alertPublisher = new EventPublisher<{ created: AlertMessage }>();
+
+export function publishAlert(alert: IAlert): void {
+    alertPublisher.publish("created", {
+        id: alert._id.toString(),
+        organizationId: alert.organization.toString(),
+        title: alert.title,
+        message: alert.message,
+        type: alert.type,
+        source: alert.source,
+        priority: alert.priority,
+        metadata: alert.metadata,
+        targetUsers: alert.targetUsers.map((u) => u.toString()),
+        createdAt: alert.createdAt.toISOString(),
+        expiresAt: alert.expiresAt?.toISOString(),
+    });
+}
+
+export interface NotifyOptions {
+    title: string;
+    message: string;
+    // An empty list broadcasts the alert to everyone in the organization
+    targetUsers: (string | Types.ObjectId)[];
+    type?: AlertType;
+    source?: AlertSource;
+    priority?: AlertPriority;
+    metadata?: Record<string, unknown>;
+    expiresAt?: Date;
+}
+
+// Creates an alert on behalf of the system (as opposed to an admin posting one manually),
+// in the organization of the running request or job (see runInOrganization)
+export async function notify(options: NotifyOptions) {
+    const alert = new Alert({
+        title: options.title,
+        message: options.message,
+        type: options.type ?? "info",
+        source: options.source ?? "system",
+        targetUsers: options.targetUsers,
+        priority: options.priority ?? "medium",
+        metadata: options.metadata,
+        expiresAt: options.expiresAt,
+    });
+
+    const saved = await alert.save();
+    publishAlert(saved);
+    return saved;
+}
@@ -0,0 +1,98 @@
+import type { Document, Model } from "mongoose";
+import { Types } from "mongoose";
+import { AuditLog, type IAuditChange } from "../models/index.js";
+import type { JWTPayload } from "../middleware/auth.js";
+
+// Loads what an audited call changes, as a plain object, by the target's id
+export type AuditSnapshot = (id: string) => Promise<Record<string, unknown> | null | undefined>;
+
+// A model whose documents are the target, or a custom snapshot
+export type AuditSource = Model<Document> | AuditSnapshot;
+
+// Never copied into the log
+const REDACTED_FIELDS = new Set(["password", "tokenHash", "apiKeyHash", "twoFactor"]);
+// Bookkeeping that changes with every write
+const IGNORED_FIELDS = new Set(["_id", "__v", "id", "organization", "createdAt", "updatedAt"]);
+
+function isModel(source: AuditSource): source is Model<Document> {
+    return "modelName" in source;
+}
+
+// JSON-safe copy (ids and dates as strings) without secrets
+function plain(value: Record<string, unknown>): Record<string, unknown> {
+    const copy = JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+    for (const field of REDACTED_FIELDS) {
+        delete copy[field];
+    }
+    return copy;
+}
+
+export async function takeSnapshot(source: AuditSource | undefined, id: string | undefined) {
+    if (!source || !id) return undefined;
+
+    if (!isModel(source)) {
+        const snapshot = await source(id);
+        return snapshot ? plain(snapshot) : undefined;
+    }
+    if (!Types.ObjectId.isValid(id)) return undefined;
+
+    const doc = await source.findById(id);
+    return doc ? plain(doc.toJSON<Record<string, unknown>>()) : undefined;
+}
+
+// Top-level fields that differ; a create lists every field with only `after`, a delete only `before`
+export function diffSnapshots(
+    before: Record<string, unknown> | undefined,
+    after: Record<string, unknown> | undefined
+): IAuditChange[] {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    const changes: IAuditChange[] = [];
+
+    for (const field of fields) {
+        if (IGNORED_FIELDS.has(field)) continue;
+
+        const previous = before?.[field];
+        const next = after?.[field];
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            changes.push({ field, before: previous, after: next });
+        }
+    }
+    return changes;
+}
+
+// The id a call created, for procedures whose input does not name a target yet
+export function outputId(output: unknown): string | undefined {
+    if (!output || typeof output !== "object") return undefined;
+
+    const record = output as Record<string, unknown>;
+    for (const key of ["id", "_id", "seriesId"]) {
+        const value = record[key];
+        if (typeof value === "string" || value instanceof Types.ObjectId) {
+            return value.toString();
+        }
+    }
+    return undefined;
+}
+
+export interface AuditEntry {
+    actor: JWTPayload;
+    viaApiToken: boolean;
+    path: readonly string[];
+    targetId?: string;
+    changes: IAuditChange[];
+}
+
+// Failing to write the entry is logged rather than failing a call whose change already happened
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+    try {
+        await new AuditLog({
+            actor: entry.actor.userId,
+            viaApiToken: entry.viaApiToken,
+            path: entry.path.join("."),
+            targetId: entry.targetId,
+            changes: entry.changes,
+        }).save();
+    } catch (error) {
+        console.error(`Failed to write audit log entry for ${entry.path.join(".")}:`, error);
+    }
+}
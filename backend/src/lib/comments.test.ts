@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Organization, Task, User } from "../models/index.js";
+import { runInOrganization } from "../db/tenancy.js";
+import { BUILT_IN_ROLES, loadAccess } from "./permissions.js";
+import { accessWith, objectId, query } from "../test/helpers.js";
+import { resolveMentions } from "./comments.js";
+
+vi.mock("./permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("./permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+const ada = new User({ name: "Ada", email: "ada@example.com" });
+const otherAda = new User({ name: "Ada B", email: "ada@example.org" });
+const bob = new User({ name: "Bob", email: "bob@example.com" });
+// Holds no "tasks:read" on the task's team
+const cy = new User({ name: "Cy", email: "cy@example.com" });
+
+const organization = new Organization({
+    name: "Acme",
+    members: [ada, otherAda, bob, cy].map((u) => ({ user: u._id, role: "member" })),
+});
+const team = objectId();
+const task = new Task({ title: "Launch plan", team, createdBy: bob._id });
+
+const mentionsIn = (body: string) =>
+    runInOrganization(organization._id, () => resolveMentions(body, "task", task));
+
+describe("resolveMentions", () => {
+    beforeEach(() => {
+        vi.spyOn(Organization, "findById").mockReturnValue(query(organization) as never);
+        vi.spyOn(User, "find").mockReturnValue(query([ada, otherAda, bob, cy]) as never);
+        vi.mocked(loadAccess).mockImplementation(async (user) =>
+            user.userId === cy._id.toString()
+                ? accessWith(BUILT_IN_ROLES.member.filter((p) => p !== "tasks:read"))
+                : accessWith(BUILT_IN_ROLES.member));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("resolves handles and full addresses of members", async () => {
+        await expect(mentionsIn("@bob, see @ada@example.org.")).resolves.toEqual([otherAda, bob]);
+    });
+
+    it("leaves a handle several members share unresolved", async () => {
+        await expect(mentionsIn("thanks @ada")).resolves.toEqual([]);
+    });
+
+    it("skips members who can't read the target", async () => {
+        await expect(mentionsIn("@cy @bob")).resolves.toEqual([bob]);
+    });
+
+    it("counts team-scoped access to the target", async () => {
+        vi.mocked(loadAccess).mockResolvedValue(accessWith([], { [team.toString()]: ["tasks:read"] }));
+        await expect(mentionsIn("@cy")).resolves.toEqual([cy]);
+    });
+});
@@ -0,0 +1,134 @@
+import { Types, type Model } from "mongoose";
+import { Booking, Event, Task, User, type CommentTarget, type IComment, type IUser } from "../models/index.js";
+import type { JWTPayload } from "../middleware/auth.js";
+import { loadAccess, type Access, type Permission } from "./permissions.js";
+import { forbidden, notFound } from "./errors.js";
+import { activeOrganization } from "./organizations.js";
+import { notify } from "./alerts.js";
+
+interface TargetConfig {
+    model: Model<CommentTargetDocument>;
+    label: string;
+    // Needed to read and comment on the target
+    permission: Permission;
+    // Lets the holder delete anyone's comments on it
+    moderatePermission: Permission;
+}
+
+const TARGETS: Record<CommentTarget, TargetConfig> = {
+    task: { model: Task, label: "Task", permission: "tasks:read", moderatePermission: "tasks:manage" },
+    event: { model: Event, label: "Event", permission: "events:read", moderatePermission: "events:manage" },
+    booking: { model: Booking, label: "Booking", permission: "bookings:read", moderatePermission: "bookings:approve" },
+};
+
+export interface CommentTargetDocument {
+    _id: Types.ObjectId;
+    title: string;
+    team?: Types.ObjectId;
+}
+
+// Loads what a comment is attached to, if the caller can see it
+export async function loadTarget(access: Access, type: CommentTarget, id: string): Promise<CommentTargetDocument> {
+    const config = TARGETS[type];
+    const target = Types.ObjectId.isValid(id) ? await config.model.findById(id) : null;
+    if (!target) {
+        throw notFound(config.label, id);
+    }
+    if (!access.can(config.permission, target.team?.toString())) {
+        throw forbidden(`Missing permission "${config.permission}"`, config.permission);
+    }
+    return target;
+}
+
+export function canModerate(access: Access, type: CommentTarget, target: CommentTargetDocument): boolean {
+    return access.can(TARGETS[type].moderatePermission, target.team?.toString());
+}
+
+export function assertAuthor(user: JWTPayload, comment: IComment): void {
+    if (!comment.author.equals(user.userId)) {
+        throw forbidden("Only the comment's author can do this");
+    }
+}
+
+// What clients get for a comment; populate `author` first
+export function commentView(comment: IComment) {
+    return {
+        id: comment._id.toString(),
+        author: comment.author,
+        body: comment.body,
+        mentions: comment.mentions.map((m) => m.toString()),
+        edited: comment.history.length > 0 && !comment.deletedAt,
+        editedAt: comment.editedAt?.toISOString(),
+        deleted: Boolean(comment.deletedAt),
+        createdAt: comment.createdAt.toISOString(),
+    };
+}
+
+// "@ada" mentions the member whose email starts with "ada@", unless several members' do; "@ada@example.com" works as well
+const MENTION_PATTERN = /(?<![\w@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+// Members of the active organization mentioned in a markdown body who may read `target`
+export async function resolveMentions(
+    body: string,
+    type: CommentTarget,
+    target: CommentTargetDocument
+): Promise<IUser[]> {
+    // A mention can end a sentence: "thanks @ada."
+    const handles = new Set([...body.matchAll(MENTION_PATTERN)].map((m) => m[1]!.replace(/\.+$/, "").toLowerCase()));
+    if (handles.size === 0) return [];
+
+    const organization = await activeOrganization();
+    const members = await User.find({ _id: { $in: organization.members.map((m) => m.user) }, deletedAt: null })
+        .select("name email role");
+    const localPart = (member: IUser) => member.email.toLowerCase().split("@")[0]!;
+    const mentioned = members.filter((member) => {
+        const email = member.email.toLowerCase();
+        const local = localPart(member);
+        return handles.has(email)
+            || (handles.has(local) && members.filter((m) => localPart(m) === local).length === 1);
+    });
+
+    // The alert quotes the comment and names the target, so only those who can see it are told
+    const permission = TARGETS[type].permission;
+    const allowed = await Promise.all(mentioned.map(async (member) => {
+        const access = await loadAccess({
+            userId: member._id.toString(),
+            email: member.email,
+            role: member.role === "admin"
+                ? "admin"
+                : organization.members.find((m) => m.user.equals(member._id))?.role ?? "member",
+            organizationId: organization._id.toString(),
+        });
+        return access.can(permission, target.team?.toString());
+    }));
+    return mentioned.filter((_, i) => allowed[i]);
+}
+
+// Alerts the newly mentioned users, other than the author
+export async function notifyMentions(
+    comment: IComment,
+    target: CommentTargetDocument,
+    author: JWTPayload,
+    mentioned: IUser[],
+    alreadyMentioned: Types.ObjectId[] = []
+): Promise<void> {
+    const recipients = mentioned
+        .filter((u) => !u._id.equals(author.userId))
+        .filter((u) => !alreadyMentioned.some((id) => id.equals(u._id)));
+    if (recipients.length === 0) return;
+
+    const authorName = (await User.findById(author.userId).select("name"))?.name ?? author.email;
+    const excerpt = comment.body.length > 140 ? `${comment.body.slice(0, 137)}...` : comment.body;
+
+    await notify({
+        title: `${authorName} mentioned you`,
+        message: `On "${target.title}": ${excerpt}`,
+        type: "info",
+        targetUsers: recipients.map((u) => u._id),
+        metadata: {
+            commentId: comment._id.toString(),
+            targetType: comment.targetType,
+            targetId: target._id.toString(),
+        },
+    });
+}
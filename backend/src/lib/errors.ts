@@ -0,0 +1,146 @@
+import { ORPCError, type ErrorMap, type ValidationError } from "@orpc/server";
+import { z } from "zod";
+
+const conflictSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+});
+
+export type ConflictDetail = z.infer<typeof conflictSchema>;
+
+// Something that still refers to an item being deleted, e.g. an upcoming booking of a room
+const dependentSchema = z.object({
+    kind: z.string(),
+    id: z.string(),
+    title: z.string(),
+    startTime: z.string().optional(),
+});
+
+export type Dependent = z.infer<typeof dependentSchema>;
+
+const issueSchema = z.object({
+    path: z.array(z.union([z.string(), z.number()])),
+    message: z.string(),
+});
+
+export type ValidationIssue = z.infer<typeof issueSchema>;
+
+// Every error a procedure may throw on purpose. Shared by all procedures through `orpc` in orpc.ts,
+// so clients receive them as defined errors with a stable code, HTTP status and typed `data`.
+export const errorMap = {
+    UNAUTHORIZED: {
+        status: 401,
+        message: "Please log in to access this resource",
+    },
+    FORBIDDEN: {
+        status: 403,
+        message: "You are not allowed to do this",
+        data: z.object({ permission: z.string().optional() }).optional(),
+    },
+    NOT_FOUND: {
+        status: 404,
+        message: "Not found",
+        data: z.object({ resource: z.string(), id: z.string().optional() }),
+    },
+    CONFLICT: {
+        status: 409,
+        message: "Conflicts with an existing resource",
+        data: z
+            .object({
+                conflicts: z.array(conflictSchema).optional(),
+                dependents: z.array(dependentSchema).optional(),
+            })
+            .optional(),
+    },
+    VALIDATION: {
+        status: 422,
+        message: "Invalid input",
+        data: z.object({ issues: z.array(issueSchema) }).optional(),
+    },
+    TOO_MANY_REQUESTS: {
+        status: 429,
+        message: "Too many requests",
+        // Seconds until the caller may try again
+        data: z.object({ retryAfter: z.number() }),
+    },
+} satisfies ErrorMap;
+
+export type ErrorCode = keyof typeof errorMap;
+
+export function unauthorized(message?: string) {
+    return new ORPCError("UNAUTHORIZED", {
+        status: errorMap.UNAUTHORIZED.status,
+        message: message ?? errorMap.UNAUTHORIZED.message,
+    });
+}
+
+export function forbidden(message?: string, permission?: string) {
+    return new ORPCError("FORBIDDEN", {
+        status: errorMap.FORBIDDEN.status,
+        message: message ?? errorMap.FORBIDDEN.message,
+        data: permission ? { permission } : undefined,
+    });
+}
+
+// e.g. notFound("Task", input.id) -> "Task not found"
+export function notFound(resource: string, id?: string) {
+    return new ORPCError("NOT_FOUND", {
+        status: errorMap.NOT_FOUND.status,
+        message: `${resource} not found`,
+        data: { resource, id },
+    });
+}
+
+export function conflict(message: string, conflicts?: ConflictDetail[]) {
+    return new ORPCError("CONFLICT", {
+        status: errorMap.CONFLICT.status,
+        message,
+        data: conflicts ? { conflicts } : undefined,
+    });
+}
+
+// A delete refused because other items still refer to what is being deleted
+export function hasDependents(message: string, dependents: Dependent[]) {
+    return new ORPCError("CONFLICT", {
+        status: errorMap.CONFLICT.status,
+        message,
+        data: { dependents },
+    });
+}
+
+export function invalid(message: string, issues?: ValidationIssue[]) {
+    return new ORPCError("VALIDATION", {
+        status: errorMap.VALIDATION.status,
+        message,
+        data: issues ? { issues } : undefined,
+    });
+}
+
+export function tooManyRequests(message: string, retryAfter: number) {
+    return new ORPCError("TOO_MANY_REQUESTS", {
+        status: errorMap.TOO_MANY_REQUESTS.status,
+        message,
+        data: { retryAfter },
+    });
+}
+
+// oRPC reports schema failures as BAD_REQUEST; re-throw them as the catalogue's VALIDATION error
+export function fromValidationError(cause: ValidationError) {
+    return new ORPCError("VALIDATION", {
+        defined: true,
+        status: errorMap.VALIDATION.status,
+        message: cause.issues[0]?.message ?? errorMap.VALIDATION.message,
+        data: {
+            issues: cause.issues.map((issue) => ({
+                path: (issue.path ?? []).map((segment) => {
+                    const key = typeof segment === "object" ? segment.key : segment;
+                    return typeof key === "number" ? key : String(key);
+                }),
+                message: issue.message,
+            })),
+        },
+        cause,
+    });
+}
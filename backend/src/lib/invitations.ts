@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { Invitation, Organization, Team, User, type IInvitation, type IOrganization, type IUser } from "../models/index.js";
+import { sendMail } from "./mail.js";
+import { APP_URL } from "./account-tokens.js";
+import { conflict, forbidden, invalid } from "./errors.js";
+import { addMember } from "./organizations.js";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function hashInvitationToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export interface InvitationInput {
+    email: string;
+    name?: string;
+    role: "admin" | "member";
+    teams: string[];
+}
+
+async function assertTeamsExist(teams: string[]) {
+    const teamCount = await Team.countDocuments({ _id: { $in: teams } });
+    if (teamCount !== new Set(teams).size) {
+        throw invalid("One or more teams do not exist");
+    }
+}
+
+// Creates the invitation (in the organization of the current request) and mails the link;
+// inviting the same address again replaces the pending invitation. Existing accounts are only
+// added once their owner accepts, see `joinInvitedOrganization`.
+export async function inviteUser(
+    input: InvitationInput,
+    organization: IOrganization,
+    inviter: IUser
+): Promise<IInvitation> {
+    const email = input.email.toLowerCase();
+    const existing = await User.findOne({ email, deletedAt: null });
+    if (existing && organization.members.some((m) => m.user.equals(existing._id))) {
+        throw conflict("This user is already a member of the organization");
+    }
+    await assertTeamsExist(input.teams);
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    await Invitation.deleteMany({ email, acceptedAt: null });
+    const invitation = await new Invitation({
+        email,
+        name: input.name,
+        role: input.role,
+        teams: input.teams,
+        tokenHash: hashInvitationToken(token),
+        invitedBy: inviter._id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    }).save();
+
+    const link = `${APP_URL}/accept-invite?token=${token}`;
+    const name = existing?.name ?? input.name;
+    await sendMail({
+        to: email,
+        subject: `You have been invited to ${organization.name}`,
+        text: `Hi${name ? ` ${name}` : ""},\n\n${inviter.name} invited you to join ${organization.name} on Damlee. `
+            + (existing
+                ? `Open the link below within the next 7 days to join it with your existing account:\n\n${link}`
+                : `Open the link below within the next 7 days to set up your account:\n\n${link}`),
+    });
+
+    return invitation;
+}
+
+// The pending invitation for a token, for showing who it is for before it is accepted
+export async function findInvitation(token: string): Promise<IInvitation> {
+    const invitation = await Invitation.findOne({
+        tokenHash: hashInvitationToken(token),
+        acceptedAt: null,
+        expiresAt: { $gt: new Date() },
+    });
+    if (!invitation) {
+        throw invalid("This invitation is invalid or has expired");
+    }
+    return invitation;
+}
+
+// Marks the invitation accepted so it cannot be used twice; `release` undoes that if joining fails
+async function claimInvitation(token: string) {
+    const now = new Date();
+    const invitation = await Invitation.findOneAndUpdate(
+        { tokenHash: hashInvitationToken(token), acceptedAt: null, expiresAt: { $gt: now } },
+        { $set: { acceptedAt: now } },
+        { new: true }
+    );
+    if (!invitation) {
+        throw invalid("This invitation is invalid or has expired");
+    }
+    const release = () => Invitation.updateOne({ _id: invitation._id }, { $unset: { acceptedAt: 1 } });
+    return { invitation, release };
+}
+
+async function joinFromInvitation(invitation: IInvitation, user: IUser): Promise<void> {
+    invitation.acceptedBy = user._id;
+    await invitation.save();
+    await addMember(invitation.organization, user._id, invitation.role);
+    await Team.updateMany({ _id: { $in: invitation.teams } }, { $addToSet: { members: user._id } });
+}
+
+// Creates the invited account and adds it to the organization with the pre-assigned role and teams
+export async function acceptInvitation(token: string, name: string, password: string): Promise<IUser> {
+    const { invitation, release } = await claimInvitation(token);
+
+    let user: IUser;
+    try {
+        if (await User.exists({ email: invitation.email })) {
+            throw conflict("A user with this email already exists");
+        }
+        user = await User.create({
+            email: invitation.email,
+            name,
+            password,
+            // Following the mailed link proves the address belongs to the user
+            emailVerified: true,
+        });
+    } catch (error) {
+        await release();
+        throw error;
+    }
+
+    await joinFromInvitation(invitation, user);
+    return user;
+}
+
+// Adds the existing account the invitation was mailed to; following the link is its owner's consent
+export async function joinInvitedOrganization(token: string): Promise<IOrganization> {
+    const { invitation, release } = await claimInvitation(token);
+
+    const user = await User.findOne({ email: invitation.email, deletedAt: null });
+    const organization = await Organization.findById(invitation.organization);
+    if (!user || !organization) {
+        await release();
+        throw invalid("This invitation is invalid or has expired");
+    }
+    if (user.deactivatedAt) {
+        await release();
+        throw forbidden("This account has been deactivated");
+    }
+
+    await joinFromInvitation(invitation, user);
+    return organization;
+}
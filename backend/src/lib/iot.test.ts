@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AlertRule, Device, SensorReading } from "../models/index.js";
+import { objectId, query } from "../test/helpers.js";
+import { ingestReadings } from "./iot.js";
+
+const now = new Date("2026-03-02T10:00:00Z");
+const device = new Device({ name: "Sensor", organization: objectId() });
+
+describe("ingestReadings", () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now, toFake: ["Date"] });
+        vi.spyOn(SensorReading, "insertMany").mockResolvedValue([] as never);
+        vi.spyOn(device, "save").mockResolvedValue(device);
+        vi.spyOn(AlertRule, "find").mockReturnValue(query([]) as never);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("rejects readings from further in the future than clocks drift", async () => {
+        await expect(ingestReadings(device, [
+            { metric: "temperature", value: 21, recordedAt: new Date("2026-03-02T09:59:00Z") },
+            { metric: "temperature", value: 22, recordedAt: new Date("2026-03-02T11:00:00Z") },
+        ])).rejects.toMatchObject({ code: "VALIDATION" });
+        expect(SensorReading.insertMany).not.toHaveBeenCalled();
+    });
+
+    it("accepts readings a few seconds ahead of the server", async () => {
+        await expect(ingestReadings(device, [
+            { metric: "temperature", value: 21, recordedAt: new Date("2026-03-02T10:00:20Z") },
+        ])).resolves.toEqual({ accepted: 1 });
+    });
+});
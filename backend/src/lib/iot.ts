@@ -0,0 +1,131 @@
+import {
+    Alert,
+    AlertRule,
+    SensorReading,
+    type IAlertRule,
+    type IDevice,
+    type RuleComparator,
+} from "../models/index.js";
+import { notify } from "./alerts.js";
+import { invalid } from "./errors.js";
+import { applyOccupancyReadings } from "./occupancy.js";
+
+// How far ahead of the server a device's clock may run. Readings from further in the future would
+// hold a room's occupancy until then and distort how long alert rules see a breach lasting.
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+export interface ReadingInput {
+    metric: string;
+    value: number;
+    recordedAt?: Date;
+}
+
+const comparators: Record<RuleComparator, { test: (value: number, threshold: number) => boolean; symbol: string }> = {
+    gt: { test: (v, t) => v > t, symbol: ">" },
+    gte: { test: (v, t) => v >= t, symbol: ">=" },
+    lt: { test: (v, t) => v < t, symbol: "<" },
+    lte: { test: (v, t) => v <= t, symbol: "<=" },
+    eq: { test: (v, t) => v === t, symbol: "=" },
+    neq: { test: (v, t) => v !== t, symbol: "!=" },
+};
+
+// Mongo filter matching readings that do NOT satisfy the rule's condition
+const negations: Record<RuleComparator, string> = {
+    gt: "$lte",
+    gte: "$lt",
+    lt: "$gte",
+    lte: "$gt",
+    eq: "$ne",
+    neq: "$eq",
+};
+
+// Start of the uninterrupted run of breaching readings that ends at `at`
+async function findBreachStart(rule: IAlertRule, device: IDevice, at: Date): Promise<Date> {
+    const lastNormal = await SensorReading.findOne({
+        device: device._id,
+        metric: rule.metric,
+        recordedAt: { $lte: at },
+        value: { [negations[rule.comparator]]: rule.threshold },
+    }).sort({ recordedAt: -1 });
+
+    const firstBreach = await SensorReading.findOne({
+        device: device._id,
+        metric: rule.metric,
+        recordedAt: { $gt: lastNormal?.recordedAt ?? new Date(0), $lte: at },
+    }).sort({ recordedAt: 1 });
+
+    return firstBreach?.recordedAt ?? at;
+}
+
+// Raises at most one alert per rule, device and continuous breach
+async function evaluateRule(rule: IAlertRule, device: IDevice, reading: Required<ReadingInput>) {
+    const comparator = comparators[rule.comparator];
+    if (!comparator.test(reading.value, rule.threshold)) return;
+
+    const breachStart = await findBreachStart(rule, device, reading.recordedAt);
+    if (reading.recordedAt.getTime() - breachStart.getTime() < rule.durationSeconds * 1000) return;
+
+    const metadata = {
+        ruleId: rule._id.toString(),
+        deviceId: device._id.toString(),
+        breachStart: breachStart.toISOString(),
+    };
+
+    const alreadyRaised = await Alert.exists({
+        source: "iot",
+        "metadata.ruleId": metadata.ruleId,
+        "metadata.deviceId": metadata.deviceId,
+        "metadata.breachStart": metadata.breachStart,
+    });
+    if (alreadyRaised) return;
+
+    await notify({
+        title: `${rule.name} - ${device.location}`,
+        message: `${device.name}: ${rule.metric} is ${reading.value} (${comparator.symbol} ${rule.threshold})`,
+        type: rule.type,
+        source: "iot",
+        priority: rule.priority,
+        targetUsers: [],
+        metadata: {
+            ...metadata,
+            location: device.location,
+            metric: rule.metric,
+            value: reading.value,
+            threshold: rule.threshold,
+        },
+    });
+}
+
+// Stores a batch of readings for a device and runs every matching alert rule against them
+export async function ingestReadings(device: IDevice, readings: ReadingInput[]) {
+    const now = new Date();
+    if (readings.some((r) => r.recordedAt && r.recordedAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS)) {
+        throw invalid("Readings can't be recorded in the future; check the device's clock");
+    }
+
+    const normalized = readings
+        .map((r) => ({ metric: r.metric, value: r.value, recordedAt: r.recordedAt ?? now }))
+        .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+    await SensorReading.insertMany(normalized.map((r) => ({ ...r, device: device._id })));
+
+    device.lastSeenAt = now;
+    await device.save();
+
+    await applyOccupancyReadings(device, normalized);
+
+    const metrics = [...new Set(normalized.map((r) => r.metric))];
+    const rules = await AlertRule.find({
+        enabled: true,
+        metric: { $in: metrics },
+        $or: [{ device: null }, { device: device._id }],
+    });
+
+    for (const reading of normalized) {
+        for (const rule of rules.filter((r) => r.metric === reading.metric)) {
+            await evaluateRule(rule, device, reading);
+        }
+    }
+
+    return { accepted: normalized.length };
+}
@@ -0,0 +1,166 @@
+import type { Request } from "express";
+import { LoginThrottle, User, type ILoginThrottle, type LoginThrottleKind } from "../models/index.js";
+import { notify } from "./alerts.js";
+import { tooManyRequests } from "./errors.js";
+import { defaultOrganization } from "./organizations.js";
+import { runInOrganization } from "../db/tenancy.js";
+
+// Failed attempts allowed before the backoff kicks in
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Failures that lock an account or a client address out entirely
+const LOCKOUT_THRESHOLDS: Record<"account" | "ip", number> = {
+    account: 10,
+    ip: 50,
+};
+const LOCKOUT_MS = Number(process.env["LOGIN_LOCKOUT_MINUTES"] ?? 60) * 60 * 1000;
+
+// Failure counts are forgotten after a day without failures
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Behind a reverse proxy this needs TRUST_PROXY, otherwise every client shares the proxy's address
+export function clientIpOf(req: Request): string {
+    return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+function backoffDelay(failures: number): number {
+    if (failures < FREE_ATTEMPTS) return 0;
+    return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+function subjects(email: string, ip: string): { kind: "account" | "ip"; subject: string }[] {
+    return [
+        { kind: "account", subject: email.toLowerCase() },
+        { kind: "ip", subject: ip },
+    ];
+}
+
+function secondsUntil(date: Date, now: Date): number {
+    return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+// Rejects the attempt while the account or the client address is locked out or backing off
+export async function assertLoginAllowed(email: string, ip: string): Promise<void> {
+    const now = new Date();
+    const records = await LoginThrottle.find({ $or: subjects(email, ip) });
+
+    for (const record of records) {
+        if (record.lockedUntil && record.lockedUntil > now) {
+            throw tooManyRequests(
+                record.kind === "account"
+                    ? "This account is locked after too many failed sign-in attempts"
+                    : "Too many failed sign-in attempts from your network",
+                secondsUntil(record.lockedUntil, now)
+            );
+        }
+        if (record.nextAttemptAt > now) {
+            const retryAfter = secondsUntil(record.nextAttemptAt, now);
+            throw tooManyRequests(`Too many failed sign-in attempts, try again in ${retryAfter}s`, retryAfter);
+        }
+    }
+}
+
+// Lockouts concern the whole deployment, so its admins are told in the default organization
+async function alertLockout(record: ILoginThrottle, ip: string) {
+    const admins = await User.find({ role: "admin", deletedAt: null }).select("_id");
+    const organization = await defaultOrganization();
+
+    await runInOrganization(organization?._id, () => notify({
+        title: record.kind === "account" ? "Account locked" : "Network locked out",
+        message: record.kind === "account"
+            ? `${record.subject} was locked after ${record.failures} failed sign-in attempts (last from ${ip})`
+            : `${record.subject} was locked out after ${record.failures} failed sign-in attempts`,
+        type: "warning",
+        priority: "high",
+        targetUsers: admins.map((a) => a._id),
+        metadata: {
+            kind: record.kind,
+            subject: record.subject,
+            failures: record.failures,
+            lockedUntil: record.lockedUntil?.toISOString(),
+        },
+    }));
+}
+
+// Counts one more attempt for `key` and backs off the next one accordingly; the caller saves the record
+async function countAttempt(key: { kind: LoginThrottleKind; subject: string }, now: Date) {
+    const record = await LoginThrottle.findOneAndUpdate(
+        key,
+        {
+            $inc: { failures: 1 },
+            $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + FORGET_AFTER_MS) },
+            $setOnInsert: { nextAttemptAt: now },
+        },
+        { upsert: true, new: true }
+    );
+    record.nextAttemptAt = new Date(now.getTime() + backoffDelay(record.failures));
+    return record;
+}
+
+export async function recordLoginFailure(email: string, ip: string): Promise<void> {
+    const now = new Date();
+
+    for (const key of subjects(email, ip)) {
+        const record = await countAttempt(key, now);
+
+        const alreadyLocked = record.lockedUntil !== undefined && record.lockedUntil > now;
+        if (!alreadyLocked && record.failures >= LOCKOUT_THRESHOLDS[key.kind]) {
+            record.lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+            record.expiresAt = new Date(record.lockedUntil.getTime() + FORGET_AFTER_MS);
+            await record.save();
+            await alertLockout(record, ip);
+            continue;
+        }
+
+        await record.save();
+    }
+}
+
+// A successful sign-in clears the account's record; the address keeps its count so that one
+// valid account cannot be used to reset the limit while guessing others
+export async function recordLoginSuccess(email: string): Promise<void> {
+    await LoginThrottle.deleteOne({ kind: "account", subject: email.toLowerCase() });
+}
+
+function resetSubjects(email: string, ip: string): { kind: LoginThrottleKind; subject: string }[] {
+    return [
+        { kind: "reset-account", subject: email.toLowerCase() },
+        { kind: "reset-ip", subject: ip },
+    ];
+}
+
+// Password reset mails back off like failed sign-ins, per address and per client, whether or not
+// the address has an account - so neither the mails nor the throttling reveal which ones do
+export async function assertPasswordResetAllowed(email: string, ip: string): Promise<void> {
+    const now = new Date();
+    const records = await LoginThrottle.find({ $or: resetSubjects(email, ip) });
+
+    const waiting = records.find((record) => record.nextAttemptAt > now);
+    if (waiting) {
+        const retryAfter = secondsUntil(waiting.nextAttemptAt, now);
+        throw tooManyRequests(`Too many password reset requests, try again in ${retryAfter}s`, retryAfter);
+    }
+}
+
+export async function recordPasswordResetRequest(email: string, ip: string): Promise<void> {
+    const now = new Date();
+
+    for (const key of resetSubjects(email, ip)) {
+        const record = await countAttempt(key, now);
+        await record.save();
+    }
+}
+
+export async function listLockouts() {
+    return LoginThrottle.find({ lockedUntil: { $gt: new Date() } }).sort({ lockedUntil: -1 });
+}
+
+export async function unlockLogin(kind: LoginThrottleKind, subject: string): Promise<boolean> {
+    const result = await LoginThrottle.deleteOne({
+        kind,
+        subject: kind === "account" ? subject.toLowerCase() : subject,
+    });
+    return result.deletedCount > 0;
+}
@@ -0,0 +1,94 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+    const transporter = nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+
+    return {
+        async send(message) {
+            await transporter.sendMail({ from: options.from, ...message });
+        },
+    };
+}
+
+// Writes every message to `dir` as an .eml file instead of delivering it - for local testing
+export function createFileTransport(dir: string, from: string): MailTransport {
+    return {
+        async send(message) {
+            await mkdir(dir, { recursive: true });
+
+            const headers = [
+                `From: ${from}`,
+                `To: ${message.to}`,
+                `Subject: ${message.subject}`,
+                `Date: ${new Date().toUTCString()}`,
+                "Content-Type: text/plain; charset=utf-8",
+            ];
+            const file = path.join(dir, `${Date.now()}-${message.to.replace(/[^a-z0-9]+/gi, "_")}.eml`);
+            await writeFile(file, `${headers.join("\r\n")}\r\n\r\n${message.text}\r\n`);
+        },
+    };
+}
+
+// Prints messages to the server log - the default when no transport is configured
+export function createConsoleTransport(from: string): MailTransport {
+    return {
+        async send(message) {
+            console.log(`📧 Mail from ${from} to ${message.to}: ${message.subject}\n${message.text}`);
+        },
+    };
+}
+
+// MAIL_TRANSPORT selects "smtp", "file" or "console"
+function createTransportFromEnv(): MailTransport {
+    const from = process.env["MAIL_FROM"] ?? "Damlee <no-reply@localhost>";
+
+    switch (process.env["MAIL_TRANSPORT"]) {
+        case "smtp":
+            return createSmtpTransport({
+                host: process.env["SMTP_HOST"] ?? "localhost",
+                port: Number(process.env["SMTP_PORT"] ?? 587),
+                secure: process.env["SMTP_SECURE"] === "true",
+                user: process.env["SMTP_USER"],
+                pass: process.env["SMTP_PASS"],
+                from,
+            });
+        case "file":
+            return createFileTransport(process.env["MAIL_OUTBOX_DIR"] ?? "mail-outbox", from);
+        default:
+            return createConsoleTransport(from);
+    }
+}
+
+let transport: MailTransport | null = null;
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    transport ??= createTransportFromEnv();
+    await transport.send(message);
+}
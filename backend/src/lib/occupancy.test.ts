@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Device, Room } from "../models/index.js";
+import { objectId, query } from "../test/helpers.js";
+import { applyOccupancyReadings } from "./occupancy.js";
+
+const updatedAt = new Date("2026-03-02T10:00:00Z");
+
+function setup() {
+    const room = new Room({
+        name: "Focus room",
+        status: "occupied",
+        currentOccupancy: 2,
+        occupancyUpdatedAt: updatedAt,
+        lastOccupiedAt: updatedAt,
+    });
+    vi.spyOn(Room, "findById").mockReturnValue(query(room) as never);
+    vi.spyOn(room, "save").mockResolvedValue(room);
+    return { room, device: new Device({ name: "Sensor", room: room._id, organization: objectId() }) };
+}
+
+describe("applyOccupancyReadings", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("applies the newest reading of a batch", async () => {
+        const { room, device } = setup();
+        await applyOccupancyReadings(device, [
+            { metric: "occupancy", value: 0, recordedAt: new Date("2026-03-02T10:05:00Z") },
+            { metric: "occupancy", value: 4, recordedAt: new Date("2026-03-02T10:01:00Z") },
+        ]);
+
+        expect(room.currentOccupancy).toBe(0);
+        expect(room.status).toBe("available");
+        expect(room.occupancyUpdatedAt).toEqual(new Date("2026-03-02T10:05:00Z"));
+    });
+
+    it("ignores a batch older than what the room already shows", async () => {
+        const { room, device } = setup();
+        await applyOccupancyReadings(device, [
+            { metric: "motion", value: 0, recordedAt: new Date("2026-03-02T09:30:00Z") },
+        ]);
+
+        expect(room.save).not.toHaveBeenCalled();
+        expect(room.status).toBe("occupied");
+        expect(room.occupancyUpdatedAt).toEqual(updatedAt);
+    });
+});
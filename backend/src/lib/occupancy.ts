@@ -0,0 +1,43 @@
+import { Room, type IDevice } from "../models/index.js";
+import type { ReadingInput } from "./iot.js";
+
+// "occupancy" reports a head count, "motion" reports 0/1 presence
+export const OCCUPANCY_METRICS = ["occupancy", "motion"];
+
+// Applies the latest occupancy/motion reading of a batch to the device's room. Readings older than
+// what the room already shows (e.g. a delayed batch) are ignored, so they can't mark a busy room free.
+export async function applyOccupancyReadings(device: IDevice, readings: Required<ReadingInput>[]) {
+    if (!device.room) return;
+
+    const latest = readings
+        .filter((r) => OCCUPANCY_METRICS.includes(r.metric))
+        .reduce<Required<ReadingInput> | undefined>(
+            (newest, r) => (!newest || r.recordedAt >= newest.recordedAt ? r : newest),
+            undefined
+        );
+    if (!latest) return;
+
+    const room = await Room.findById(device.room);
+    if (!room) return;
+    if (room.occupancyUpdatedAt && latest.recordedAt < room.occupancyUpdatedAt) return;
+
+    const occupied = latest.value > 0;
+
+    if (latest.metric === "occupancy") {
+        room.currentOccupancy = Math.max(0, Math.round(latest.value));
+    } else if (!occupied) {
+        room.currentOccupancy = 0;
+    }
+
+    room.occupancyUpdatedAt = latest.recordedAt;
+    if (occupied) {
+        room.lastOccupiedAt = latest.recordedAt;
+    }
+
+    // Rooms under maintenance keep their status regardless of what the sensors see
+    if (room.status !== "maintenance") {
+        room.status = occupied ? "occupied" : "available";
+    }
+
+    await room.save();
+}
@@ -0,0 +1,249 @@
+import { Types } from "mongoose";
+import {
+    Asset,
+    Booking,
+    Organization,
+    Role,
+    Task,
+    Team,
+    User,
+    type IOrganization,
+    type IUser,
+    type OrganizationRole,
+} from "../models/index.js";
+import { assignUnscopedDocuments, currentOrganization } from "../db/tenancy.js";
+import { inTransaction } from "../db/transaction.js";
+import { forbidden, hasDependents, invalid, notFound, type Dependent } from "./errors.js";
+
+// Name of the organization created on first start, which existing data and new sign-ups land in
+const DEFAULT_ORGANIZATION_NAME = process.env["DEFAULT_ORGANIZATION_NAME"] ?? "Default";
+
+// The organization a session works in, with the user's role there
+export interface ActiveOrganization {
+    id: string;
+    name: string;
+    role: OrganizationRole;
+}
+
+function roleIn(organization: IOrganization, user: IUser): OrganizationRole | undefined {
+    if (user.role === "admin") return "admin";
+    return organization.members.find((m) => m.user.equals(user._id))?.role;
+}
+
+// Organizations the user can switch to; deployment admins can work in all of them
+export async function organizationsOf(user: IUser): Promise<(ActiveOrganization & { memberCount: number })[]> {
+    const organizations = await Organization.find(user.role === "admin" ? {} : { "members.user": user._id })
+        .sort({ createdAt: 1 });
+
+    return organizations.map((organization) => ({
+        id: organization._id.toString(),
+        name: organization.name,
+        role: roleIn(organization, user) ?? "member",
+        memberCount: organization.members.length,
+    }));
+}
+
+// Picks the requested organization when the user belongs to it, otherwise the first one they do
+export async function resolveOrganization(
+    user: IUser,
+    preferred?: string | Types.ObjectId
+): Promise<ActiveOrganization | null> {
+    const filter = user.role === "admin" ? {} : { "members.user": user._id };
+
+    let organization = preferred && Types.ObjectId.isValid(preferred)
+        ? await Organization.findOne({ ...filter, _id: preferred })
+        : null;
+    organization ??= await Organization.findOne(filter).sort({ createdAt: 1 });
+    if (!organization) return null;
+
+    return {
+        id: organization._id.toString(),
+        name: organization.name,
+        role: roleIn(organization, user) ?? "member",
+    };
+}
+
+// The role the user has in the organization, or null when they are not a member
+export async function organizationRole(
+    user: IUser,
+    organizationId: string | Types.ObjectId
+): Promise<OrganizationRole | null> {
+    const organization = await Organization.findById(organizationId);
+    return (organization && roleIn(organization, user)) ?? null;
+}
+
+export async function addMember(
+    organizationId: string | Types.ObjectId,
+    userId: string | Types.ObjectId,
+    role: OrganizationRole = "member"
+): Promise<boolean> {
+    const result = await Organization.updateOne(
+        { _id: organizationId, "members.user": { $ne: userId } },
+        { $push: { members: { user: userId, role, joinedAt: new Date() } } }
+    );
+    return result.modifiedCount > 0;
+}
+
+// Also takes the user off the organization's teams
+export async function removeMember(
+    organizationId: string | Types.ObjectId,
+    userId: string | Types.ObjectId
+): Promise<boolean> {
+    const result = await Organization.updateOne(
+        { _id: organizationId },
+        { $pull: { members: { user: userId } } }
+    );
+    if (result.modifiedCount === 0) return false;
+
+    await Team.updateMany(
+        { organization: organizationId },
+        { $pull: { members: userId, memberRoles: { user: userId } } }
+    );
+    return true;
+}
+
+// What happens to a departing member's items: "block" refuses while there are any, "reassign" hands
+// them to another member and "cascade" releases them
+export type DeparturePolicy = "block" | "reassign" | "cascade";
+
+// What a member still owns or is responsible for in the current organization
+async function responsibilitiesOf(userId: string) {
+    const [teams, tasks, bookings, assets] = await Promise.all([
+        Team.find({ owner: userId }).select("name"),
+        Task.find({ assignee: userId, completedAt: null }).select("title"),
+        Booking.find({
+            organizer: userId,
+            status: { $in: ["pending", "confirmed"] },
+            endTime: { $gt: new Date() },
+        }).select("title startTime"),
+        Asset.find({ assignedTo: userId }).select("name"),
+    ]);
+
+    const dependents: Dependent[] = [
+        ...teams.map((t) => ({ kind: "team", id: t._id.toString(), title: t.name })),
+        ...tasks.map((t) => ({ kind: "task", id: t._id.toString(), title: t.title })),
+        ...bookings.map((b) => ({
+            kind: "booking",
+            id: b._id.toString(),
+            title: b.title,
+            startTime: b.startTime.toISOString(),
+        })),
+        ...assets.map((a) => ({ kind: "asset", id: a._id.toString(), title: a.name })),
+    ];
+    return { teams, bookings, dependents };
+}
+
+// Takes a member out of the current organization along with what they are responsible for there.
+// Owned teams go to `reassignTo` when reassigning and to `teamsTo` otherwise; on "cascade" upcoming
+// bookings are cancelled and task and asset assignments are cleared.
+export async function removeMemberWithItems(
+    organization: IOrganization,
+    userId: string,
+    policy: DeparturePolicy,
+    successors: { reassignTo?: string | undefined; teamsTo: string }
+): Promise<void> {
+    const { teams, bookings, dependents } = await responsibilitiesOf(userId);
+    if (dependents.length > 0 && policy === "block") {
+        throw hasDependents(`${dependents.length} item(s) in this organization still need a new owner`, dependents);
+    }
+
+    let successor = successors.teamsTo;
+    if (dependents.length > 0 && policy === "reassign") {
+        if (!successors.reassignTo || successors.reassignTo === userId) {
+            throw invalid("Choose another member to hand the items to");
+        }
+        if (!organization.members.some((m) => m.user.equals(successors.reassignTo))) {
+            throw notFound("Member", successors.reassignTo);
+        }
+        successor = successors.reassignTo;
+    }
+    const successorId = new Types.ObjectId(successor);
+
+    await inTransaction(async () => {
+        await Team.updateMany(
+            { _id: { $in: teams.map((t) => t._id) } },
+            { $set: { owner: successorId }, $addToSet: { members: successorId } }
+        );
+
+        if (policy === "reassign") {
+            await Task.updateMany({ assignee: userId }, { $set: { assignee: successorId } });
+            await Booking.updateMany(
+                { _id: { $in: bookings.map((b) => b._id) } },
+                { $set: { organizer: successorId } }
+            );
+            await Asset.updateMany({ assignedTo: userId }, { $set: { assignedTo: successorId } });
+        } else {
+            await Task.updateMany({ assignee: userId }, { $unset: { assignee: 1 } });
+            await Booking.updateMany(
+                { _id: { $in: bookings.map((b) => b._id) } },
+                { $set: { status: "cancelled", cancellationReason: "The organizer left the organization" } }
+            );
+            await Asset.updateMany({ assignedTo: userId }, { $unset: { assignedTo: 1 } });
+        }
+
+        await removeMember(organization._id, userId);
+    });
+}
+
+// The organization the current request works in
+export async function activeOrganization(): Promise<IOrganization> {
+    const organizationId = currentOrganization();
+    const organization = organizationId ? await Organization.findById(organizationId) : null;
+    if (!organization) {
+        throw forbidden("Join or create an organization first");
+    }
+    return organization;
+}
+
+// Members of the organization the current request works in, optionally only those with `role`
+export async function memberIds(role?: OrganizationRole): Promise<Types.ObjectId[]> {
+    const organizationId = currentOrganization();
+    const organization = organizationId ? await Organization.findById(organizationId) : null;
+
+    return (organization?.members ?? [])
+        .filter((m) => !role || m.role === role)
+        .map((m) => m.user);
+}
+
+export async function isMember(userId: string | Types.ObjectId): Promise<boolean> {
+    const organizationId = currentOrganization();
+    if (!organizationId) return false;
+    return Boolean(await Organization.exists({ _id: organizationId, "members.user": userId }));
+}
+
+export async function defaultOrganization(): Promise<IOrganization | null> {
+    return Organization.findOne().sort({ createdAt: 1 });
+}
+
+// Where accounts that were not invited into a specific organization start out
+export async function joinDefaultOrganization(user: IUser): Promise<void> {
+    const organization = await defaultOrganization();
+    if (organization) {
+        await addMember(organization._id, user._id);
+    }
+}
+
+// Runs on startup. The first start after upgrading puts every existing user and document
+// into the default organization, keeping the users' roles.
+export async function ensureDefaultOrganization(): Promise<IOrganization> {
+    let organization = await defaultOrganization();
+
+    if (!organization) {
+        const users = await User.find({ deletedAt: null }).select("role createdAt");
+        organization = await new Organization({
+            name: DEFAULT_ORGANIZATION_NAME,
+            members: users.map((u) => ({ user: u._id, role: u.role, joinedAt: u.createdAt })),
+        }).save();
+        console.log(`🏢 Created organization "${organization.name}" with ${users.length} member(s)`);
+    }
+
+    // Role names used to be unique across the deployment; they only are per organization now
+    await Role.syncIndexes();
+
+    const assigned = await assignUnscopedDocuments(organization._id);
+    if (assigned > 0) {
+        console.log(`🏢 Moved ${assigned} document(s) into organization "${organization.name}"`);
+    }
+
+    return organization;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { Asset, Event, Task } from "../models/index.js";
+import { accessWith, member, objectId } from "../test/helpers.js";
+import {
+    assertAllowed,
+    canDeleteAsset,
+    canDeleteTask,
+    canModifyEvent,
+    canUpdateAsset,
+    canUpdateTask,
+    type Actor,
+} from "./ownership.js";
+
+const creator = objectId();
+const assignee = objectId();
+const team = objectId();
+
+function actor(userId: string, access = accessWith([])): Actor {
+    return { user: member(userId), access };
+}
+
+const owner = actor(creator.toString());
+const assigned = actor(assignee.toString());
+const stranger = actor(objectId().toString());
+
+describe("task ownership", () => {
+    const task = new Task({ title: "Ship it", createdBy: creator, assignee, team });
+
+    it("lets the creator and the assignee update", () => {
+        expect(canUpdateTask(owner, task)).toBe(true);
+        expect(canUpdateTask(assigned, task)).toBe(true);
+        expect(canUpdateTask(stranger, task)).toBe(false);
+    });
+
+    it("lets only the creator delete", () => {
+        expect(canDeleteTask(owner, task)).toBe(true);
+        expect(canDeleteTask(assigned, task)).toBe(false);
+        expect(canDeleteTask(stranger, task)).toBe(false);
+    });
+
+    it("lets holders of tasks:manage on the task's team change it", () => {
+        const teamOwner = actor(objectId().toString(), accessWith([], { [team.toString()]: ["tasks:manage"] }));
+        expect(canUpdateTask(teamOwner, task)).toBe(true);
+        expect(canDeleteTask(teamOwner, task)).toBe(true);
+
+        const otherTeam = actor(objectId().toString(), accessWith([], { [objectId().toString()]: ["tasks:manage"] }));
+        expect(canUpdateTask(otherTeam, task)).toBe(false);
+        expect(canDeleteTask(otherTeam, task)).toBe(false);
+    });
+});
+
+describe("event ownership", () => {
+    const event = new Event({ title: "Standup", createdBy: creator, attendees: [assignee] });
+
+    it("lets only the creator or holders of events:manage change it", () => {
+        expect(canModifyEvent(owner, event)).toBe(true);
+        expect(canModifyEvent(assigned, event)).toBe(false);
+        expect(canModifyEvent(actor(objectId().toString(), accessWith(["events:manage"])), event)).toBe(true);
+    });
+});
+
+describe("asset ownership", () => {
+    const asset = new Asset({ name: "Laptop", createdBy: creator, assignedTo: assignee });
+    const manager = actor(objectId().toString(), accessWith(["assets:manage"]));
+
+    it("lets the creator and the assignee update", () => {
+        expect(canUpdateAsset(owner, asset)).toBe(true);
+        expect(canUpdateAsset(assigned, asset)).toBe(true);
+        expect(canUpdateAsset(stranger, asset)).toBe(false);
+        expect(canUpdateAsset(manager, asset)).toBe(true);
+    });
+
+    it("lets only the creator or holders of assets:manage delete", () => {
+        expect(canDeleteAsset(owner, asset)).toBe(true);
+        expect(canDeleteAsset(assigned, asset)).toBe(false);
+        expect(canDeleteAsset(manager, asset)).toBe(true);
+    });
+});
+
+describe("assertAllowed", () => {
+    it("throws FORBIDDEN with the given message", () => {
+        expect(() => assertAllowed(false, "Nope")).toThrow(expect.objectContaining({ code: "FORBIDDEN", message: "Nope" }));
+        expect(() => assertAllowed(true, "Nope")).not.toThrow();
+    });
+});
@@ -0,0 +1,49 @@
+import type { Types } from "mongoose";
+import type { IAsset, IEvent, ITask } from "../models/index.js";
+import type { JWTPayload } from "../middleware/auth.js";
+import type { Access } from "./permissions.js";
+import { forbidden } from "./errors.js";
+
+// Who may change an item beyond holding the base "<resource>:update"/"<resource>:delete" permission:
+// - tasks: creator and assignee may update, only the creator may delete; team owners manage their team's tasks
+// - events: only the creator
+// - assets: creator and the user it is assigned to may update, only the creator may delete
+// Holders of "<resource>:manage" (admins by default) may change anything.
+export interface Actor {
+    user: JWTPayload;
+    access: Access;
+}
+
+function is(actor: Actor, ref: Types.ObjectId | undefined): boolean {
+    return ref?.toString() === actor.user.userId;
+}
+
+export function canUpdateTask(actor: Actor, task: ITask): boolean {
+    return actor.access.can("tasks:manage", task.team?.toString())
+        || is(actor, task.createdBy)
+        || is(actor, task.assignee);
+}
+
+export function canDeleteTask(actor: Actor, task: ITask): boolean {
+    return actor.access.can("tasks:manage", task.team?.toString()) || is(actor, task.createdBy);
+}
+
+export function canModifyEvent(actor: Actor, event: IEvent): boolean {
+    return actor.access.can("events:manage") || is(actor, event.createdBy);
+}
+
+export function canUpdateAsset(actor: Actor, asset: IAsset): boolean {
+    return actor.access.can("assets:manage")
+        || is(actor, asset.createdBy)
+        || is(actor, asset.assignedTo);
+}
+
+export function canDeleteAsset(actor: Actor, asset: IAsset): boolean {
+    return actor.access.can("assets:manage") || is(actor, asset.createdBy);
+}
+
+export function assertAllowed(allowed: boolean, message: string): void {
+    if (!allowed) {
+        throw forbidden(message);
+    }
+}
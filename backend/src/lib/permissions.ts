@@ -0,0 +1,116 @@
+import { Team, User, type IRole } from "../models/index.js";
+import type { JWTPayload } from "../middleware/auth.js";
+
+// Every action that can be granted on each resource
+export const PERMISSIONS = {
+    // "manage" lets the holder modify items created by anyone else
+    tasks: ["read", "create", "update", "delete", "manage"],
+    events: ["read", "create", "update", "delete", "manage"],
+    teams: ["read", "create", "update", "delete"],
+    rooms: ["read", "create", "update", "delete"],
+    bookings: ["read", "create", "cancel", "approve"],
+    assets: ["read", "create", "update", "delete", "manage"],
+    alerts: ["read", "create", "delete"],
+    analytics: ["read"],
+    iot: ["read", "manage"],
+    roles: ["manage"],
+    users: ["manage"],
+} as const;
+
+export type Resource = keyof typeof PERMISSIONS;
+
+// "<resource>:<action>", e.g. "rooms:delete"
+export type Permission = {
+    [R in Resource]: `${R}:${(typeof PERMISSIONS)[R][number]}`;
+}[Resource];
+
+export const ALL_PERMISSIONS = (Object.keys(PERMISSIONS) as Resource[]).flatMap((resource) =>
+    PERMISSIONS[resource].map((action) => `${resource}:${action}` as Permission)
+);
+
+export function isPermission(value: string): value is Permission {
+    return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+// Permissions granted by the built-in `User.role`, before any custom roles are added
+export const BUILT_IN_ROLES: Record<JWTPayload["role"], Permission[]> = {
+    admin: ALL_PERMISSIONS,
+    member: [
+        "tasks:read", "tasks:create", "tasks:update", "tasks:delete",
+        "events:read", "events:create", "events:update", "events:delete",
+        "teams:read", "teams:create",
+        "rooms:read",
+        "bookings:read", "bookings:create", "bookings:cancel",
+        "assets:read", "assets:create", "assets:update",
+        "alerts:read",
+        "analytics:read",
+        "iot:read",
+    ],
+};
+
+// Granted to a team's owner within that team
+const TEAM_OWNER_PERMISSIONS: Permission[] = [
+    "teams:update", "teams:delete",
+    "tasks:read", "tasks:create", "tasks:update", "tasks:delete", "tasks:manage",
+];
+
+export interface Access {
+    permissions: Set<Permission>;
+    // Team id -> permissions that only apply to that team's resources
+    teams: Map<string, Set<Permission>>;
+    can(permission: Permission, teamId?: string): boolean;
+}
+
+export function createAccess(permissions: Set<Permission>, teams: Map<string, Set<Permission>>): Access {
+    return {
+        permissions,
+        teams,
+        can(permission, teamId) {
+            if (permissions.has(permission)) return true;
+            return teamId !== undefined && (teams.get(teamId)?.has(permission) ?? false);
+        },
+    };
+}
+
+function grant(target: Set<Permission>, permissions: string[]) {
+    for (const permission of permissions) {
+        if (isPermission(permission)) target.add(permission);
+    }
+}
+
+// Resolves everything the user may do: built-in role, custom roles and team-scoped roles
+export async function loadAccess(user: JWTPayload): Promise<Access> {
+    const permissions = new Set<Permission>(BUILT_IN_ROLES[user.role] ?? []);
+    const teams = new Map<string, Set<Permission>>();
+
+    // Admins already hold every permission
+    if (user.role === "admin") {
+        return createAccess(permissions, teams);
+    }
+
+    const [account, teamDocs] = await Promise.all([
+        User.findById(user.userId).populate<{ roles: IRole[] }>("roles", "permissions"),
+        Team.find({ $or: [{ owner: user.userId }, { "memberRoles.user": user.userId }] })
+            .select("owner memberRoles")
+            .populate<{ memberRoles: { user: unknown; role: IRole | null }[] }>("memberRoles.role", "permissions"),
+    ]);
+
+    for (const role of account?.roles ?? []) {
+        grant(permissions, role.permissions);
+    }
+
+    for (const team of teamDocs) {
+        const scoped = new Set<Permission>();
+        if (team.owner.toString() === user.userId) {
+            grant(scoped, TEAM_OWNER_PERMISSIONS);
+        }
+        for (const assignment of team.memberRoles) {
+            if (String(assignment.user) === user.userId && assignment.role) {
+                grant(scoped, assignment.role.permissions);
+            }
+        }
+        teams.set(team._id.toString(), scoped);
+    }
+
+    return createAccess(permissions, teams);
+}
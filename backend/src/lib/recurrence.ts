@@ -0,0 +1,111 @@
+import rrulePkg from "rrule";
+
+// rrule ships as CommonJS, so the named exports are only reachable from the default import
+const { RRule, rrulestr } = rrulePkg;
+
+type Rule = InstanceType<typeof RRule>;
+
+export type RecurrenceScope = "occurrence" | "following" | "series";
+
+// Most occurrences of one series returned for a single window
+export const MAX_EXPANDED_OCCURRENCES = 500;
+
+// Widest window that recurring series are expanded over
+export const MAX_WINDOW_MS = 92 * 24 * 60 * 60 * 1000;
+
+// Strip an optional "RRULE:" prefix so rules are stored in a single canonical form
+export function normalizeRecurrence(recurrence: string): string {
+    return recurrence.trim().replace(/^RRULE:/i, "");
+}
+
+function parseRule(recurrence: string, dtstart: Date): Rule {
+    return rrulestr(normalizeRecurrence(recurrence), { dtstart }) as Rule;
+}
+
+// Only a single RFC 5545 RRULE is accepted - the series start always comes from the event itself
+export function isValidRecurrence(recurrence: string): boolean {
+    const rule = normalizeRecurrence(recurrence);
+    if (!rule || /[\r\n]/.test(rule) || /DTSTART/i.test(rule)) {
+        return false;
+    }
+
+    try {
+        const { freq, bysecond, byminute } = parseRule(rule, new Date()).origOptions;
+        // Nothing repeats more often than hourly, whether through FREQ or BYMINUTE/BYSECOND lists
+        if (freq === undefined || freq > RRule.HOURLY) {
+            return false;
+        }
+        return [bysecond, byminute].every((list) => !Array.isArray(list) || list.length <= 1);
+    } catch {
+        return false;
+    }
+}
+
+function isExcluded(date: Date, exdates: Date[]): boolean {
+    return exdates.some((ex) => ex.getTime() === date.getTime());
+}
+
+// Series that have to be materialised up front (e.g. bookings) must end via COUNT or UNTIL
+export function isBoundedRecurrence(recurrence: string): boolean {
+    const { count, until } = parseRule(recurrence, new Date()).origOptions;
+    return Boolean(count || until);
+}
+
+export function listOccurrences(recurrence: string, dtstart: Date, limit: number): Date[] {
+    return parseRule(recurrence, dtstart).all((_date, index) => index < limit);
+}
+
+// Occurrence starts whose [start, start + duration) overlaps the given window, at most
+// MAX_EXPANDED_OCCURRENCES of them
+export function expandOccurrences(
+    recurrence: string,
+    dtstart: Date,
+    durationMs: number,
+    exdates: Date[],
+    windowStart: Date,
+    windowEnd: Date
+): Date[] {
+    const rule = parseRule(recurrence, dtstart);
+    const from = new Date(windowStart.getTime() - durationMs);
+
+    const starts: Date[] = [];
+    rule.between(from, windowEnd, true, (start) => {
+        if (start.getTime() + durationMs > windowStart.getTime() && !isExcluded(start, exdates)) {
+            starts.push(start);
+        }
+        return starts.length < MAX_EXPANDED_OCCURRENCES;
+    });
+    return starts;
+}
+
+export function isOccurrence(
+    recurrence: string,
+    dtstart: Date,
+    exdates: Date[],
+    at: Date
+): boolean {
+    const rule = parseRule(recurrence, dtstart);
+    const match = rule.after(at, true);
+    return match !== null && match.getTime() === at.getTime() && !isExcluded(at, exdates);
+}
+
+// Ends the series just before `splitAt`, dropping COUNT in favour of UNTIL
+export function truncateRecurrence(recurrence: string, dtstart: Date, splitAt: Date): string {
+    const { dtstart: _dtstart, count: _count, ...options } = parseRule(recurrence, dtstart).origOptions;
+    return normalizeRecurrence(
+        RRule.optionsToString({ ...options, until: new Date(splitAt.getTime() - 1000) })
+    );
+}
+
+// Rule for a new series continuing from `splitAt`, keeping whatever COUNT is left over
+export function continueRecurrence(recurrence: string, dtstart: Date, splitAt: Date): string {
+    const rule = parseRule(recurrence, dtstart);
+    const { dtstart: _dtstart, ...options } = rule.origOptions;
+
+    if (options.count) {
+        const consumed = rule.between(dtstart, splitAt, true).filter((d) => d < splitAt).length;
+        options.count = Math.max(options.count - consumed, 1);
+    }
+
+    return normalizeRecurrence(RRule.optionsToString(options));
+}
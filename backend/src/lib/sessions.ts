@@ -0,0 +1,116 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import type { Request } from "express";
+import { RefreshToken, User, type IUser } from "../models/index.js";
+import { generateToken } from "../middleware/auth.js";
+import { forbidden, unauthorized } from "./errors.js";
+import { resolveOrganization, type ActiveOrganization } from "./organizations.js";
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+    // Short-lived JWT sent as the Bearer token
+    token: string;
+    // Long-lived, single-use token exchanged for a new pair through `auth.refresh`
+    refreshToken: string;
+    // Organization the session works in, null while the user belongs to none
+    organization: ActiveOrganization | null;
+}
+
+function hashRefreshToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function userAgentOf(req: Request): string | undefined {
+    return req.headers["user-agent"]?.substring(0, 256);
+}
+
+// Starts a new session for the user, or continues an existing one when `family` is given.
+// The session works in `organizationId` if the user belongs to it, otherwise in their first organization.
+export async function issueSession(
+    user: IUser,
+    userAgent?: string,
+    family = new Types.ObjectId(),
+    organizationId?: string | Types.ObjectId
+): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(32).toString("base64url");
+    const organization = await resolveOrganization(user, organizationId);
+
+    await new RefreshToken({
+        user: user._id,
+        tokenHash: hashRefreshToken(refreshToken),
+        family,
+        organization: organization?.id,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        userAgent,
+    }).save();
+
+    const token = generateToken({
+        userId: user._id.toString(),
+        email: user.email,
+        role: organization?.role ?? user.role,
+        organizationId: organization?.id,
+    });
+
+    return { token, refreshToken, organization };
+}
+
+// Exchanges a refresh token for a new pair. Each refresh token works once; presenting one
+// that was already rotated means it leaked, so the whole session is revoked.
+// Passing `move` moves the session to another organization, provided it is the given user's session.
+export async function rotateSession(
+    refreshToken: string,
+    userAgent?: string,
+    move?: { userId: string; organizationId: string }
+) {
+    const now = new Date();
+    const stored = await RefreshToken.findOne({ tokenHash: hashRefreshToken(refreshToken) });
+
+    if (!stored || stored.expiresAt <= now) {
+        throw unauthorized("Session expired, please log in again");
+    }
+    if (move && stored.user.toString() !== move.userId) {
+        throw forbidden("This session belongs to another user");
+    }
+
+    const claimed = await RefreshToken.findOneAndUpdate(
+        { _id: stored._id, revokedAt: null },
+        { $set: { revokedAt: now } }
+    );
+    if (!claimed) {
+        await RefreshToken.updateMany({ family: stored.family, revokedAt: null }, { $set: { revokedAt: now } });
+        throw unauthorized("Session revoked, please log in again");
+    }
+
+    const user = await User.findById(stored.user);
+    if (!user) {
+        throw unauthorized("Session expired, please log in again");
+    }
+    if (user.deactivatedAt) {
+        throw unauthorized("This account has been deactivated");
+    }
+
+    return {
+        user,
+        tokens: await issueSession(user, userAgent, stored.family, move?.organizationId ?? stored.organization),
+    };
+}
+
+export async function revokeSession(refreshToken: string): Promise<void> {
+    const stored = await RefreshToken.findOne({ tokenHash: hashRefreshToken(refreshToken) });
+    if (!stored) return;
+
+    await RefreshToken.updateMany(
+        { family: stored.family, revokedAt: null },
+        { $set: { revokedAt: new Date() } }
+    );
+}
+
+// Signs the user out everywhere. Access tokens already handed out stay valid until they expire.
+export async function revokeAllSessions(userId: string): Promise<number> {
+    const result = await RefreshToken.updateMany(
+        { user: userId, revokedAt: null },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount;
+}
@@ -0,0 +1,135 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Team, User, type IUser } from "../models/index.js";
+import { sendVerificationEmail } from "./account-tokens.js";
+import { joinDefaultOrganization } from "./organizations.js";
+import { objectId, query } from "../test/helpers.js";
+import { startMockIdp, type MockIdp } from "../test/mock-idp.js";
+
+vi.mock("./organizations.js", () => ({
+    defaultOrganization: vi.fn(async () => ({ _id: objectId() })),
+    joinDefaultOrganization: vi.fn(),
+    // Verified accounts are members of the default organization, as they join it on sign-in
+    organizationRole: vi.fn(async (user: IUser) => (user.emailVerified ? "member" : null)),
+}));
+
+vi.mock("./account-tokens.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("./account-tokens.js")>(),
+    sendVerificationEmail: vi.fn(),
+}));
+
+const CLIENT_ID = "damlee";
+
+let idp: MockIdp;
+let sso: typeof import("./sso.js");
+
+// Runs a full authorization code sign-in against the mock provider
+async function signIn(claims: Record<string, unknown>): Promise<IUser> {
+    idp.claims = claims;
+    const { url, transaction } = await sso.startSsoLogin();
+    const { code, state } = idp.authorize(url);
+    return sso.completeSsoLogin(new URLSearchParams({ code, state }).toString(), transaction);
+}
+
+describe("SSO sign-in", () => {
+    const engineering = new Team({ name: "Engineering", owner: objectId() });
+    let existing: IUser | null;
+
+    beforeAll(async () => {
+        idp = await startMockIdp(CLIENT_ID);
+        vi.stubEnv("OIDC_ISSUER", idp.issuer);
+        vi.stubEnv("OIDC_CLIENT_ID", CLIENT_ID);
+        vi.stubEnv("OIDC_CLIENT_SECRET", "secret");
+        vi.stubEnv("OIDC_ALLOW_INSECURE", "true");
+        vi.stubEnv("OIDC_ADMIN_GROUPS", "admins");
+        vi.stubEnv("OIDC_TEAM_GROUPS", "eng=Engineering");
+        // The configuration is read when the module loads
+        sso = await import("./sso.js");
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        await idp.close();
+    });
+
+    beforeEach(() => {
+        existing = null;
+        vi.spyOn(User, "findOne").mockImplementation(((filter: Record<string, unknown>) =>
+            query("email" in filter && existing?.email === filter["email"] ? existing : null)) as never);
+        vi.spyOn(User.prototype, "save").mockImplementation(async function (this: IUser) {
+            this.isNew = false;
+            return this;
+        } as never);
+        vi.spyOn(Team, "findOne").mockReturnValue(query(engineering) as never);
+        vi.spyOn(Team, "updateOne").mockReturnValue(query({ modifiedCount: 1 }) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.mocked(joinDefaultOrganization).mockClear();
+        vi.mocked(sendVerificationEmail).mockClear();
+    });
+
+    it("provisions a verified user into the default organization", async () => {
+        const user = await signIn({ sub: "ada", email: "Ada@Example.com", email_verified: true, name: "Ada" });
+
+        expect(user.email).toBe("ada@example.com");
+        expect(user.name).toBe("Ada");
+        expect(user.emailVerified).toBe(true);
+        expect(user.sso).toMatchObject({ issuer: idp.issuer, subject: "ada" });
+        expect(joinDefaultOrganization).toHaveBeenCalledWith(user);
+        expect(sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it("copies an unverified email claim and holds the user back until they verify", async () => {
+        const user = await signIn({ sub: "bob", email: "bob@example.com", email_verified: false, groups: ["eng"] });
+
+        expect(user.emailVerified).toBe(false);
+        expect(joinDefaultOrganization).not.toHaveBeenCalled();
+        expect(sendVerificationEmail).toHaveBeenCalledWith(user);
+        // Nor do they join the organization's teams
+        expect(Team.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("links an existing account only when the provider verified the address", async () => {
+        existing = new User({ email: "cy@example.com", name: "Cy", password: "secret" });
+        existing.isNew = false;
+
+        await expect(signIn({ sub: "cy", email: "cy@example.com", email_verified: false }))
+            .rejects.toMatchObject({ code: "CONFLICT" });
+
+        const user = await signIn({ sub: "cy", email: "cy@example.com", email_verified: true });
+        expect(user._id).toEqual(existing._id);
+        expect(user.sso).toMatchObject({ subject: "cy" });
+        expect(joinDefaultOrganization).not.toHaveBeenCalled();
+    });
+
+    it("follows the provider's groups for the admin role and mapped teams", async () => {
+        const admin = await signIn({ sub: "dee", email: "dee@example.com", email_verified: true, groups: ["admins", "eng"] });
+        expect(admin.role).toBe("admin");
+        expect(Team.updateOne).toHaveBeenCalledWith({ _id: engineering._id }, { $addToSet: { members: admin._id } });
+
+        vi.mocked(Team.updateOne).mockClear();
+        const member = await signIn({ sub: "eve", email: "eve@example.com", email_verified: true, groups: "other" });
+        expect(member.role).toBe("member");
+        expect(Team.updateOne).toHaveBeenCalledWith(
+            { _id: engineering._id },
+            { $pull: { members: member._id, memberRoles: { user: member._id } } }
+        );
+    });
+
+    it("keeps a team's owner on the team whatever their groups say", async () => {
+        const owner = new User({
+            email: "fay@example.com",
+            name: "Fay",
+            password: "secret",
+            emailVerified: true,
+            sso: { issuer: idp.issuer, subject: "fay" },
+        });
+        owner.isNew = false;
+        engineering.owner = owner._id;
+        vi.spyOn(User, "findOne").mockReturnValue(query(owner) as never);
+
+        await signIn({ sub: "fay", email: "fay@example.com", email_verified: true, groups: [] });
+        expect(Team.updateOne).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import * as oidc from "openid-client";
+import { Team, User, type IUser } from "../models/index.js";
+import { generateSsoTransactionToken, verifySsoTransactionToken } from "../middleware/auth.js";
+import { APP_URL, sendVerificationEmail } from "./account-tokens.js";
+import { conflict, forbidden, invalid, notFound, unauthorized } from "./errors.js";
+import { defaultOrganization, joinDefaultOrganization, organizationRole } from "./organizations.js";
+import { runInOrganization } from "../db/tenancy.js";
+
+const OIDC_ISSUER = process.env["OIDC_ISSUER"];
+const OIDC_CLIENT_ID = process.env["OIDC_CLIENT_ID"];
+const OIDC_CLIENT_SECRET = process.env["OIDC_CLIENT_SECRET"];
+const OIDC_SCOPES = process.env["OIDC_SCOPES"] ?? "openid email profile";
+// Must be registered with the provider; the webapp finishes the sign-in on this page
+const OIDC_REDIRECT_URI = process.env["OIDC_REDIRECT_URI"] ?? `${APP_URL}/sso/callback`;
+// Label of the sign-in button
+const OIDC_PROVIDER_NAME = process.env["OIDC_PROVIDER_NAME"] ?? "SSO";
+const OIDC_GROUPS_CLAIM = process.env["OIDC_GROUPS_CLAIM"] ?? "groups";
+// Only for local mock providers served over plain http
+const OIDC_ALLOW_INSECURE = process.env["OIDC_ALLOW_INSECURE"] === "true";
+
+// Comma-separated IdP groups whose members are admins. When set, the role follows the groups on every sign-in.
+const OIDC_ADMIN_GROUPS = splitList(process.env["OIDC_ADMIN_GROUPS"]);
+
+// Comma-separated "group=Team name" pairs, naming teams of the default organization. Members of a group are
+// added to the team on sign-in and removed again once they leave the group; teams that are not mapped are left alone.
+const OIDC_TEAM_GROUPS = new Map(
+    splitList(process.env["OIDC_TEAM_GROUPS"]).map((pair) => {
+        const [group = "", team = ""] = pair.split("=").map((part) => part.trim());
+        return [group, team] as const;
+    }).filter(([group, team]) => group && team)
+);
+
+function splitList(value: string | undefined): string[] {
+    return (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+export function ssoEnabled(): boolean {
+    return Boolean(OIDC_ISSUER && OIDC_CLIENT_ID);
+}
+
+export function ssoProviderName(): string {
+    return OIDC_PROVIDER_NAME;
+}
+
+let configuration: Promise<oidc.Configuration> | undefined;
+
+// Discovery runs once; a failed attempt is retried on the next sign-in
+function getConfiguration(): Promise<oidc.Configuration> {
+    if (!OIDC_ISSUER || !OIDC_CLIENT_ID) {
+        throw notFound("SSO provider");
+    }
+
+    configuration ??= oidc
+        .discovery(
+            new URL(OIDC_ISSUER),
+            OIDC_CLIENT_ID,
+            OIDC_CLIENT_SECRET,
+            undefined,
+            OIDC_ALLOW_INSECURE ? { execute: [oidc.allowInsecureRequests] } : undefined
+        )
+        .catch((error: unknown) => {
+            configuration = undefined;
+            throw error;
+        });
+
+    return configuration;
+}
+
+// Returns the provider's authorization URL and the transaction the browser must hand back with the callback
+export async function startSsoLogin() {
+    const config = await getConfiguration();
+
+    const codeVerifier = oidc.randomPKCECodeVerifier();
+    const state = oidc.randomState();
+    const nonce = oidc.randomNonce();
+
+    const url = oidc.buildAuthorizationUrl(config, {
+        redirect_uri: OIDC_REDIRECT_URI,
+        scope: OIDC_SCOPES,
+        code_challenge: await oidc.calculatePKCECodeChallenge(codeVerifier),
+        code_challenge_method: "S256",
+        state,
+        nonce,
+    });
+
+    return {
+        url: url.href,
+        transaction: generateSsoTransactionToken({ state, nonce, codeVerifier }),
+    };
+}
+
+// Exchanges the authorization code from the callback's query string and returns the signed-in user.
+// The provider is responsible for any second factor, so local two-factor is not asked for here.
+export async function completeSsoLogin(query: string, transactionToken: string): Promise<IUser> {
+    const transaction = verifySsoTransactionToken(transactionToken);
+    if (!transaction) {
+        throw unauthorized("Single sign-on has expired, please try again");
+    }
+
+    const config = await getConfiguration();
+    const callbackUrl = new URL(OIDC_REDIRECT_URI);
+    callbackUrl.search = query;
+
+    let claims: Record<string, unknown>;
+    try {
+        const tokens = await oidc.authorizationCodeGrant(config, callbackUrl, {
+            pkceCodeVerifier: transaction.codeVerifier,
+            expectedState: transaction.state,
+            expectedNonce: transaction.nonce,
+            idTokenExpected: true,
+        });
+        claims = { ...tokens.claims() };
+
+        // Many providers leave the email and groups out of the ID token
+        const needsUserInfo = !claims["email"] || (claims[OIDC_GROUPS_CLAIM] === undefined && hasGroupMapping());
+        if (needsUserInfo && config.serverMetadata().userinfo_endpoint) {
+            const userInfo = await oidc.fetchUserInfo(config, tokens.access_token, String(claims["sub"]));
+            claims = { ...userInfo, ...claims };
+        }
+    } catch (error) {
+        console.error("SSO sign-in failed:", error);
+        throw unauthorized("Single sign-on failed");
+    }
+
+    return provisionUser(claims);
+}
+
+function hasGroupMapping(): boolean {
+    return OIDC_ADMIN_GROUPS.length > 0 || OIDC_TEAM_GROUPS.size > 0;
+}
+
+function groupsOf(claims: Record<string, unknown>): string[] {
+    const value = claims[OIDC_GROUPS_CLAIM];
+    if (Array.isArray(value)) return value.map(String);
+    return typeof value === "string" ? splitList(value) : [];
+}
+
+// Just-in-time provisioning: finds the account linked to the provider identity, links an
+// existing account with the same (provider-verified) email, or creates a new one
+async function provisionUser(claims: Record<string, unknown>): Promise<IUser> {
+    const issuer = OIDC_ISSUER!;
+    const subject = String(claims["sub"]);
+    const email = typeof claims["email"] === "string" ? claims["email"].toLowerCase() : undefined;
+    const name = typeof claims["name"] === "string" && claims["name"].trim() ? claims["name"].trim() : undefined;
+
+    let user = await User.findOne({ "sso.issuer": issuer, "sso.subject": subject });
+
+    if (!user) {
+        if (!email) {
+            throw invalid("The identity provider did not share an email address");
+        }
+
+        user = await User.findOne({ email });
+        if (user) {
+            // Otherwise anyone able to set an arbitrary address at the provider could take over the account
+            if (claims["email_verified"] !== true) {
+                throw conflict("An account with this email already exists and the provider has not verified the address");
+            }
+            user.sso = { issuer, subject };
+        } else {
+            user = new User({
+                email,
+                name: name ?? email,
+                // Never used - SSO accounts sign in through the provider (or set a password via reset)
+                password: crypto.randomBytes(32).toString("base64url"),
+                emailVerified: claims["email_verified"] === true,
+                sso: { issuer, subject },
+            });
+        }
+    }
+
+    if (user.deletedAt) {
+        throw unauthorized("This account has been deleted");
+    }
+    if (user.deactivatedAt) {
+        throw forbidden("This account has been deactivated");
+    }
+
+    const groups = groupsOf(claims);
+    if (OIDC_ADMIN_GROUPS.length > 0) {
+        user.role = groups.some((g) => OIDC_ADMIN_GROUPS.includes(g)) ? "admin" : "member";
+    }
+    if (name) {
+        user.name = name;
+    }
+
+    const isNew = user.isNew;
+    await user.save();
+    // Accounts created here start out in the default organization once the address is verified, like self sign-ups
+    if (isNew && user.emailVerified) {
+        await joinDefaultOrganization(user);
+    } else if (isNew) {
+        try {
+            await sendVerificationEmail(user);
+        } catch (error) {
+            console.error("Failed to send verification email:", error);
+        }
+    }
+
+    // Teams are only synced for members, so unverified accounts stay out of them as well
+    const organization = await defaultOrganization();
+    if (organization && await organizationRole(user, organization._id)) {
+        await runInOrganization(organization._id, () => syncTeams(user, groups));
+    }
+    return user;
+}
+
+async function syncTeams(user: IUser, groups: string[]) {
+    for (const [group, teamName] of OIDC_TEAM_GROUPS) {
+        const team = await Team.findOne({ name: teamName });
+        if (!team) {
+            console.warn(`SSO group "${group}" is mapped to unknown team "${teamName}"`);
+            continue;
+        }
+
+        if (groups.includes(group)) {
+            await Team.updateOne({ _id: team._id }, { $addToSet: { members: user._id } });
+        } else if (!team.owner.equals(user._id)) {
+            await Team.updateOne(
+                { _id: team._id },
+                { $pull: { members: user._id, memberRoles: { user: user._id } } }
+            );
+        }
+    }
+}
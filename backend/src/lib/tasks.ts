@@ -0,0 +1,118 @@
+import { Types } from "mongoose";
+import { Task, type ITask } from "../models/index.js";
+import { hasDependents, invalid, notFound } from "./errors.js";
+
+export interface TaskProgress {
+    subtasks: { done: number; total: number };
+    checklist: { done: number; total: number };
+    // Done subtasks and checked items, with open subtasks counting by their own checklist
+    percent: number;
+}
+
+function checklistCounts(task: Pick<ITask, "checklist">) {
+    return { done: task.checklist.filter((item) => item.done).length, total: task.checklist.length };
+}
+
+// Checks that `parentId` can take `taskId` (undefined while creating) as a subtask
+export async function assertValidParent(taskId: string | undefined, parentId: string): Promise<ITask> {
+    if (taskId === parentId) {
+        throw invalid("A task can't be its own subtask");
+    }
+    const parent = Types.ObjectId.isValid(parentId) ? await Task.findById(parentId) : null;
+    if (!parent) {
+        throw notFound("Parent task", parentId);
+    }
+    if (parent.parent) {
+        throw invalid("Subtasks can't have subtasks of their own");
+    }
+    if (taskId && await Task.exists({ parent: taskId })) {
+        throw invalid("A task with subtasks can't become a subtask");
+    }
+    return parent;
+}
+
+// Checks that the blockers exist and that none of them (transitively) waits on `taskId`
+export async function assertValidBlockers(taskId: string | undefined, blockedBy: string[]): Promise<void> {
+    const ids = [...new Set(blockedBy)];
+    if (taskId && ids.includes(taskId)) {
+        throw invalid("A task can't block itself");
+    }
+    const blockers = ids.every((id) => Types.ObjectId.isValid(id))
+        ? await Task.find({ _id: { $in: ids } }).select("title blockedBy")
+        : [];
+    const missing = ids.find((id) => !blockers.some((b) => b._id.equals(id)));
+    if (missing) {
+        throw notFound("Task", missing);
+    }
+    // A new task has nothing depending on it yet
+    if (!taskId) return;
+
+    // Walk the "blocked by" graph from each blocker, remembering which blocker led where
+    const origin = new Map(blockers.map((b) => [b._id.toString(), b.title]));
+    let frontier: Pick<ITask, "_id" | "blockedBy">[] = blockers;
+    while (frontier.length > 0) {
+        const next: string[] = [];
+        for (const task of frontier) {
+            const via = origin.get(task._id.toString())!;
+            for (const id of task.blockedBy.map((b) => b.toString())) {
+                if (id === taskId) {
+                    throw invalid(`"${via}" already waits on this task, so it can't block it`);
+                }
+                if (!origin.has(id)) {
+                    origin.set(id, via);
+                    next.push(id);
+                }
+            }
+        }
+        frontier = next.length > 0 ? await Task.find({ _id: { $in: next } }).select("blockedBy") : [];
+    }
+}
+
+// Blockers of the tasks that are not done yet, by task id
+export async function openBlockersOf(tasks: Pick<ITask, "_id" | "blockedBy">[]) {
+    const blockers = await Task.find({
+        _id: { $in: tasks.flatMap((t) => t.blockedBy) },
+        completedAt: null,
+    }).select("title status");
+
+    return new Map(tasks.map((task) => [
+        task._id.toString(),
+        blockers
+            .filter((b) => task.blockedBy.some((id) => id.equals(b._id)))
+            .map((b) => ({ id: b._id.toString(), title: b.title, status: b.status })),
+    ]));
+}
+
+// Refuses to finish a task while any of its blockers is open
+export async function assertUnblocked(task: Pick<ITask, "_id" | "blockedBy">): Promise<void> {
+    const open = (await openBlockersOf([task])).get(task._id.toString()) ?? [];
+    if (open.length > 0) {
+        throw hasDependents(
+            "This task is blocked until the tasks it waits on are done",
+            open.map((b) => ({ kind: "task", id: b.id, title: b.title }))
+        );
+    }
+}
+
+// Progress of each task rolled up from its subtasks and checklist, by task id
+export async function progressOf(tasks: Pick<ITask, "_id" | "completedAt" | "checklist">[]) {
+    const subtasks = await Task.find({ parent: { $in: tasks.map((t) => t._id) } }).select("parent completedAt checklist");
+
+    return new Map(tasks.map((task): [string, TaskProgress] => {
+        const children = subtasks.filter((s) => s.parent?.equals(task._id));
+        const checklist = checklistCounts(task);
+
+        const units = children.length + checklist.total;
+        const completed = checklist.done + children.reduce((sum, child) => {
+            if (child.completedAt) return sum + 1;
+            const own = checklistCounts(child);
+            return sum + (own.total > 0 ? own.done / own.total : 0);
+        }, 0);
+
+        return [task._id.toString(), {
+            subtasks: { done: children.filter((c) => c.completedAt).length, total: children.length },
+            checklist,
+            percent: units > 0 ? Math.round((completed / units) * 100) : task.completedAt ? 100 : 0,
+        }];
+    }));
+}
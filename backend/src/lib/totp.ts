@@ -0,0 +1,96 @@
+import crypto from "crypto";
+
+// RFC 6238 defaults, which is what authenticator apps expect from a plain otpauth:// URI
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Steps accepted on either side of the current one, to tolerate clock drift
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/=+$/, "");
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+// RFC 4226 HMAC-based one-time password for the given counter
+function hotp(key: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const digest = crypto.createHmac("sha1", key).update(message).digest();
+    const offset = digest[digest.length - 1]! & 0x0f;
+    const code = digest.readUInt32BE(offset) & 0x7fffffff;
+
+    return (code % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+// Provisioning URI understood by authenticator apps (usually shown as a QR code)
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Returns the time step the code belongs to, or null when it does not match. Codes from
+// `lastUsedStep` or earlier are refused so that an observed code cannot be replayed.
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number, at = new Date()): number | null {
+    const normalized = code.replace(/\s/g, "");
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+
+    const key = base32Decode(secret);
+    const current = Math.floor(at.getTime() / 1000 / STEP_SECONDS);
+
+    for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+        if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+
+        const expected = hotp(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+    return null;
+}
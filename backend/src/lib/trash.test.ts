@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Task } from "../models/index.js";
+import { objectId, query } from "../test/helpers.js";
+import { listTrashed } from "./trash.js";
+
+const deletedAt = new Date("2026-04-01T12:00:00Z");
+
+describe("listTrashed", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("lists subtasks trashed with their parent only through the parent", async () => {
+        const parent = new Task({ title: "Launch", createdBy: objectId(), deletedAt });
+        const cascaded = new Task({ title: "Write notes", parent: parent._id, createdBy: objectId(), deletedAt });
+        // Trashed on its own before the parent was
+        const earlier = new Task({
+            title: "Book venue",
+            parent: parent._id,
+            createdBy: objectId(),
+            deletedAt: new Date("2026-03-30T08:00:00Z"),
+        });
+        vi.spyOn(Task, "find")
+            .mockReturnValueOnce(query([parent, cascaded, earlier]) as never)
+            .mockReturnValueOnce(query([parent]) as never);
+
+        await expect(listTrashed("tasks")).resolves.toEqual([parent, earlier]);
+    });
+
+    it("lists a subtask whose parent is not in the trash", async () => {
+        const subtask = new Task({ title: "Write notes", parent: objectId(), createdBy: objectId(), deletedAt });
+        vi.spyOn(Task, "find")
+            .mockReturnValueOnce(query([subtask]) as never)
+            .mockReturnValueOnce(query([]) as never);
+
+        await expect(listTrashed("tasks")).resolves.toEqual([subtask]);
+    });
+});
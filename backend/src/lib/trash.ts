@@ -0,0 +1,161 @@
+import { Types, type Model } from "mongoose";
+import { Asset, Event, Room, Task, Team } from "../models/index.js";
+import type { JWTPayload } from "../middleware/auth.js";
+import type { Access, Permission } from "./permissions.js";
+import { notFound } from "./errors.js";
+
+// Days a document stays in the trash before the retention job purges it
+export const TRASH_RETENTION_DAYS = Number(process.env["TRASH_RETENTION_DAYS"] ?? 30);
+
+export const TRASH_KINDS = ["tasks", "events", "rooms", "assets", "teams"] as const;
+export type TrashKind = (typeof TRASH_KINDS)[number];
+
+// Any trashable document; every model in TRASH_KINDS uses the softDelete plugin
+interface TrashedDocument {
+    _id: Types.ObjectId;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId;
+    team?: Types.ObjectId;
+    // Parent task of a subtask, series of a detached event occurrence
+    parent?: Types.ObjectId;
+    seriesId?: Types.ObjectId;
+    title?: string;
+    name?: string;
+}
+
+interface TrashKindConfig {
+    model: Model<TrashedDocument>;
+    // Lets the holder restore what they trashed themselves
+    permission: Permission;
+    // Lets the holder restore what anyone trashed, and purge it
+    managePermission: Permission;
+    // Team the document belongs to, for team-scoped roles
+    teamOf?: (doc: TrashedDocument) => Types.ObjectId | undefined;
+    // Documents that go to and come back from the trash together with `doc`
+    related?: (doc: TrashedDocument) => Record<string, unknown>;
+    // The document `doc` is related to; the listing leaves out what was trashed together with it
+    parentOf?: (doc: TrashedDocument) => Types.ObjectId | undefined;
+}
+
+const KINDS: Record<TrashKind, TrashKindConfig> = {
+    tasks: {
+        model: Task,
+        permission: "tasks:delete",
+        managePermission: "tasks:manage",
+        teamOf: (doc) => doc.team,
+        // Subtasks go with their parent
+        related: (doc) => ({ parent: doc._id }),
+        parentOf: (doc) => doc.parent,
+    },
+    events: {
+        model: Event,
+        permission: "events:delete",
+        managePermission: "events:manage",
+        // A recurring series takes its edited occurrences with it
+        related: (doc) => ({ seriesId: doc._id }),
+        parentOf: (doc) => doc.seriesId,
+    },
+    rooms: {
+        model: Room,
+        permission: "rooms:delete",
+        managePermission: "rooms:delete",
+    },
+    assets: {
+        model: Asset,
+        permission: "assets:delete",
+        managePermission: "assets:manage",
+    },
+    teams: {
+        model: Team,
+        permission: "teams:delete",
+        managePermission: "teams:delete",
+        teamOf: (doc) => doc._id,
+    },
+};
+
+function withRelated(config: TrashKindConfig, doc: TrashedDocument) {
+    return config.related ? { $or: [{ _id: doc._id }, config.related(doc)] } : { _id: doc._id };
+}
+
+function teamId(config: TrashKindConfig, doc: TrashedDocument): string | undefined {
+    return config.teamOf?.(doc)?.toString();
+}
+
+export function canRestore(access: Access, user: JWTPayload, kind: TrashKind, doc: TrashedDocument): boolean {
+    const config = KINDS[kind];
+    const team = teamId(config, doc);
+    return access.can(config.managePermission, team)
+        || (access.can(config.permission, team) && doc.deletedBy?.toString() === user.userId);
+}
+
+export function canPurge(access: Access, kind: TrashKind, doc: TrashedDocument): boolean {
+    const config = KINDS[kind];
+    return access.can(config.managePermission, teamId(config, doc));
+}
+
+// Moves a document (and its related documents) to the trash
+export async function moveToTrash(kind: TrashKind, doc: TrashedDocument, userId: string): Promise<void> {
+    const config = KINDS[kind];
+    await config.model.updateMany(withRelated(config, doc), {
+        $set: { deletedAt: new Date(), deletedBy: new Types.ObjectId(userId) },
+    });
+}
+
+export async function findTrashed(kind: TrashKind, id: string): Promise<TrashedDocument> {
+    const doc = Types.ObjectId.isValid(id)
+        ? await KINDS[kind].model.findOne({ _id: id, deletedAt: { $ne: null } })
+        : null;
+    if (!doc) {
+        throw notFound("Trashed item", id);
+    }
+    return doc;
+}
+
+// Documents trashed together with their parent are listed (and restored) through the parent only
+export async function listTrashed(kind: TrashKind): Promise<TrashedDocument[]> {
+    const config = KINDS[kind];
+    const docs = await config.model.find({ deletedAt: { $ne: null } })
+        .populate("deletedBy", "name email")
+        .sort({ deletedAt: -1 })
+        .limit(500);
+    const parentOf = config.parentOf;
+    if (!parentOf) return docs;
+
+    const parentIds = docs.map(parentOf).filter((id): id is Types.ObjectId => id !== undefined);
+    const parents = parentIds.length > 0
+        ? await config.model.find({ _id: { $in: parentIds }, deletedAt: { $ne: null } }).select("deletedAt")
+        : [];
+    return docs.filter((doc) => {
+        const parentId = parentOf(doc);
+        const parent = parentId && parents.find((p) => p._id.equals(parentId));
+        return !parent || parent.deletedAt?.getTime() !== doc.deletedAt?.getTime();
+    });
+}
+
+// Related documents only come back when they were trashed together with `doc`
+export async function restoreFromTrash(kind: TrashKind, doc: TrashedDocument): Promise<void> {
+    const config = KINDS[kind];
+    await config.model.updateMany(
+        { ...withRelated(config, doc), deletedAt: doc.deletedAt },
+        { $set: { deletedAt: null }, $unset: { deletedBy: 1 } }
+    );
+}
+
+export async function purgeFromTrash(kind: TrashKind, doc: TrashedDocument): Promise<void> {
+    const config = KINDS[kind];
+    await config.model.deleteMany({ ...withRelated(config, doc), deletedAt: { $ne: null } });
+}
+
+export function purgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Permanently deletes everything trashed before `cutoff`, across all organizations
+export async function purgeTrashedBefore(cutoff: Date): Promise<number> {
+    let purged = 0;
+    for (const kind of TRASH_KINDS) {
+        const result = await KINDS[kind].model.deleteMany({ deletedAt: { $ne: null, $lte: cutoff } });
+        purged += result.deletedCount;
+    }
+    return purged;
+}
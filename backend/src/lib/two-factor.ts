@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { Organization, User, type IUser } from "../models/index.js";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp.js";
+import { conflict, forbidden, invalid } from "./errors.js";
+
+// Name shown next to the account in authenticator apps
+const TOTP_ISSUER = process.env["TOTP_ISSUER"] ?? "Damlee";
+const RECOVERY_CODE_COUNT = 10;
+
+// Policy: admins - of the deployment or of any organization - cannot sign in (or keep refreshing sessions)
+// without a second factor
+const REQUIRE_ADMIN_2FA = process.env["REQUIRE_ADMIN_2FA"] === "true";
+
+export async function twoFactorMandatory(user: IUser): Promise<boolean> {
+    if (!REQUIRE_ADMIN_2FA) return false;
+    if (user.role === "admin") return true;
+    return Boolean(await Organization.exists({ members: { $elemMatch: { user: user._id, role: "admin" } } }));
+}
+
+// Recovery codes are compared case- and dash-insensitively
+function hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes() {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString("hex");
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Hands out a new secret; two-factor stays off until `completeEnrollment` confirms it with a code
+export async function beginEnrollment(user: IUser) {
+    if (user.twoFactor.enabled) {
+        throw conflict("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactor.pendingSecret = secret;
+    await user.save();
+
+    return { secret, uri: totpUri(secret, user.email, TOTP_ISSUER) };
+}
+
+// Turns two-factor on and returns the recovery codes, which are only ever shown here
+export async function completeEnrollment(user: IUser, code: string): Promise<string[]> {
+    const secret = user.twoFactor.pendingSecret;
+    if (!secret) {
+        throw invalid("Start two-factor setup first");
+    }
+
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+        throw invalid("Invalid authentication code");
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.twoFactor.enabled = true;
+    user.twoFactor.secret = secret;
+    user.twoFactor.pendingSecret = undefined;
+    user.twoFactor.recoveryCodes = hashes;
+    user.twoFactor.lastUsedStep = step;
+    user.twoFactor.enabledAt = new Date();
+    await user.save();
+
+    return codes;
+}
+
+// Accepts a current authenticator code or one of the unused recovery codes, which is used up.
+// Both are claimed atomically so the same code cannot be redeemed twice concurrently.
+export async function verifySecondFactor(user: IUser, code: string): Promise<boolean> {
+    const { enabled, secret, lastUsedStep } = user.twoFactor;
+    if (!enabled || !secret) return false;
+
+    const step = verifyTotp(secret, code, lastUsedStep);
+    if (step !== null) {
+        const claim = await User.updateOne(
+            { _id: user._id, "twoFactor.lastUsedStep": { $not: { $gte: step } } },
+            { $set: { "twoFactor.lastUsedStep": step } }
+        );
+        return claim.modifiedCount > 0;
+    }
+
+    const hash = hashRecoveryCode(code);
+    const claim = await User.updateOne(
+        { _id: user._id, "twoFactor.recoveryCodes": hash },
+        { $pull: { "twoFactor.recoveryCodes": hash } }
+    );
+    return claim.modifiedCount > 0;
+}
+
+// Replaces every recovery code, e.g. after some were used or the old ones were lost
+export async function regenerateRecoveryCodes(user: IUser): Promise<string[]> {
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne({ _id: user._id }, { $set: { "twoFactor.recoveryCodes": hashes } });
+    return codes;
+}
+
+export async function disableTwoFactor(user: IUser): Promise<void> {
+    if (await twoFactorMandatory(user)) {
+        throw forbidden("Two-factor authentication is required for admin accounts");
+    }
+
+    user.twoFactor.enabled = false;
+    user.twoFactor.secret = undefined;
+    user.twoFactor.pendingSecret = undefined;
+    user.twoFactor.recoveryCodes = [];
+    user.twoFactor.lastUsedStep = undefined;
+    user.twoFactor.enabledAt = undefined;
+    await user.save();
+}
@@ -0,0 +1,139 @@
+import { Types } from "mongoose";
+import { Task, Team, type ITeam, type IWorkflowStatus } from "../models/index.js";
+import { invalid } from "./errors.js";
+
+export type Workflow = IWorkflowStatus[];
+
+// Board of teams without a workflow of their own, and of tasks outside any team
+export const DEFAULT_WORKFLOW: Workflow = [
+    { key: "todo", name: "To Do", color: "#6b7280", done: false, next: [] },
+    { key: "in-progress", name: "In Progress", color: "#3b82f6", done: false, next: [] },
+    { key: "review", name: "Review", color: "#f59e0b", done: false, next: [] },
+    { key: "done", name: "Done", color: "#10b981", done: true, next: [] },
+];
+
+export function workflowOf(team?: Pick<ITeam, "workflow"> | null): Workflow {
+    return team?.workflow.length ? team.workflow : DEFAULT_WORKFLOW;
+}
+
+export async function workflowForTeam(teamId?: string | Types.ObjectId | null): Promise<Workflow> {
+    if (!teamId || !Types.ObjectId.isValid(teamId.toString())) return DEFAULT_WORKFLOW;
+    return workflowOf(await Team.findById(teamId));
+}
+
+// Workflow lookup for many tasks at once, e.g. for analytics across teams
+export async function workflowsByTeam(): Promise<(teamId?: Types.ObjectId | string | null) => Workflow> {
+    const teams = await Team.find({ "workflow.0": { $exists: true } }).select("workflow");
+    const byId = new Map(teams.map((t) => [t._id.toString(), t.workflow]));
+    return (teamId) => (teamId && byId.get(teamId.toString())) || DEFAULT_WORKFLOW;
+}
+
+export function findStatus(workflow: Workflow, key: string): IWorkflowStatus {
+    const status = workflow.find((s) => s.key === key);
+    if (!status) {
+        throw invalid(`"${key}" is not a status of this board; use one of ${workflow.map((s) => s.key).join(", ")}`);
+    }
+    return status;
+}
+
+export function initialStatus(workflow: Workflow): string {
+    return workflow.find((s) => !s.done)?.key ?? workflow[0]!.key;
+}
+
+export function doneKeys(workflow: Workflow): string[] {
+    return workflow.filter((s) => s.done).map((s) => s.key);
+}
+
+// Checks that a task may move from `from` to `to`. A task whose status left the workflow may move anywhere.
+export function assertTransition(workflow: Workflow, from: string, to: string): void {
+    const target = findStatus(workflow, to);
+    const current = workflow.find((s) => s.key === from);
+    if (!current || current.key === to || current.next.length === 0) return;
+    if (!current.next.includes(to)) {
+        throw invalid(`Tasks can't move from "${current.name}" to "${target.name}"`);
+    }
+}
+
+// Fields to set for a task entering `status`; a task that was already finished keeps its completion date
+export function statusFields(workflow: Workflow, status: string, completedAt?: Date | null) {
+    return {
+        status,
+        completedAt: findStatus(workflow, status).done ? completedAt ?? new Date() : null,
+    };
+}
+
+export function validateWorkflow(workflow: Workflow): void {
+    if (workflow.length === 0) return;
+
+    const keys = workflow.map((s) => s.key);
+    const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+    if (duplicate) {
+        throw invalid(`The status "${duplicate}" appears more than once`);
+    }
+    if (!workflow.some((s) => s.done)) {
+        throw invalid("A workflow needs at least one status in the done category");
+    }
+    if (!workflow.some((s) => !s.done)) {
+        throw invalid("A workflow needs at least one open status");
+    }
+    for (const status of workflow) {
+        const unknown = status.next.find((key) => !keys.includes(key));
+        if (unknown) {
+            throw invalid(`"${status.name}" leads to "${unknown}", which is not a status of the workflow`);
+        }
+    }
+}
+
+// Brings the matching tasks in line with `workflow`: tasks in statuses it lacks move to `moveTo[status]`,
+// or else to its first open (or done) status, and completion dates follow the done category. Trashed tasks
+// are included so they fit the board when restored.
+export async function fitTasksToWorkflow(
+    filter: Record<string, unknown>,
+    workflow: Workflow,
+    moveTo: Record<string, string> = {}
+): Promise<number> {
+    const keys = workflow.map((s) => s.key);
+    const done = doneKeys(workflow);
+    let moved = 0;
+
+    const options = { withTrashed: true };
+
+    const stray = await Task.distinct("status", { ...filter, status: { $nin: keys } }).setOptions(options);
+    for (const status of stray as string[]) {
+        const target = moveTo[status] && keys.includes(moveTo[status]) ? moveTo[status] : undefined;
+        const result = await Task.updateMany(
+            { ...filter, status },
+            target
+                ? { $set: { status: target } }
+                : [{
+                    $set: {
+                        status: {
+                            $cond: [{ $ne: [{ $ifNull: ["$completedAt", null] }, null] }, done[0], initialStatus(workflow)],
+                        },
+                    },
+                }],
+            { updatePipeline: true }
+        ).setOptions(options);
+        moved += result.modifiedCount;
+    }
+
+    await Task.updateMany(
+        { ...filter, status: { $in: done }, completedAt: null },
+        { $set: { completedAt: new Date() } }
+    ).setOptions(options);
+    await Task.updateMany(
+        { ...filter, status: { $nin: done }, completedAt: { $ne: null } },
+        { $set: { completedAt: null } }
+    ).setOptions(options);
+    return moved;
+}
+
+// Tasks finished before completion dates were recorded; their last update is the closest guess
+export async function backfillCompletedAt(): Promise<number> {
+    const result = await Task.updateMany(
+        { status: "done", completedAt: { $exists: false } },
+        [{ $set: { completedAt: "$updatedAt" } }],
+        { updatePipeline: true, timestamps: false }
+    ).setOptions({ withTrashed: true });
+    return result.modifiedCount;
+}
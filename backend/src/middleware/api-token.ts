@@ -0,0 +1,56 @@
+import crypto from "node:crypto";
+import { ApiToken, type IUser } from "../models/index.js";
+import type { JWTPayload } from "./auth.js";
+import { isPermission, type Permission } from "../lib/permissions.js";
+import { resolveOrganization } from "../lib/organizations.js";
+
+const API_TOKEN_PREFIX = "pat_";
+// Skip rewriting `lastUsedAt` on every call of a busy script
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Returns the plain token (to show the user once) together with what gets stored
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+    return {
+        token,
+        hash: hashApiToken(token),
+        prefix: token.substring(0, API_TOKEN_PREFIX.length + 6),
+    };
+}
+
+// Personal access tokens are sent as Bearer tokens, like the JWTs of browser sessions
+export function isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export async function authenticateApiToken(token: string): Promise<{ user: JWTPayload; scopes: Permission[] } | null> {
+    const now = new Date();
+    const apiToken = await ApiToken.findOne({
+        tokenHash: hashApiToken(token),
+        expiresAt: { $gt: now },
+    }).populate<{ user: IUser | null }>("user");
+
+    const user = apiToken?.user;
+    if (!apiToken || !user || user.deletedAt || user.deactivatedAt) return null;
+
+    const organization = await resolveOrganization(user, apiToken.organization);
+    if (apiToken.organization && organization?.id !== apiToken.organization.toString()) return null;
+
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        await ApiToken.updateOne({ _id: apiToken._id }, { $set: { lastUsedAt: now } });
+    }
+
+    return {
+        user: {
+            userId: user._id.toString(),
+            email: user.email,
+            role: organization?.role ?? user.role,
+            organizationId: organization?.id,
+        },
+        scopes: apiToken.scopes.filter(isPermission),
+    };
+}
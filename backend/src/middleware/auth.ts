@@ -3,12 +3,16 @@ import type { Request } from "express";
 import "dotenv/config";
 
 const JWT_SECRET = process.env["JWT_SECRET"] ?? "fallback-secret-key";
-const JWT_EXPIRES_IN = "7d";
+// Access tokens are short-lived; clients renew them with a refresh token (lib/sessions.ts)
+const JWT_EXPIRES_IN = "15m";
 
 export interface JWTPayload {
     userId: string;
     email: string;
+    // Role in the active organization
     role: "admin" | "member";
+    // Organization every query of the request is scoped to (db/tenancy.ts); missing while the user belongs to none
+    organizationId?: string;
 }
 
 export function generateToken(payload: JWTPayload): string {
@@ -23,6 +27,46 @@ export function verifyToken(token: string): JWTPayload | null {
     }
 }
 
+// Two-factor challenges are signed with a derived key, so they can never pass as access tokens
+const CHALLENGE_SECRET = `${JWT_SECRET}:two-factor-challenge`;
+const CHALLENGE_EXPIRES_IN = "5m";
+
+// Proves the password step of a sign-in succeeded; exchanged for a session once the second factor checks out
+export function generateChallengeToken(userId: string): string {
+    return jwt.sign({ userId }, CHALLENGE_SECRET, { expiresIn: CHALLENGE_EXPIRES_IN });
+}
+
+export function verifyChallengeToken(token: string): string | null {
+    try {
+        return (jwt.verify(token, CHALLENGE_SECRET) as { userId: string }).userId;
+    } catch {
+        return null;
+    }
+}
+
+// State, nonce and PKCE verifier of an SSO sign-in, held by the browser between the redirect and the callback
+export interface SsoTransaction {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+}
+
+const SSO_TRANSACTION_SECRET = `${JWT_SECRET}:sso-transaction`;
+const SSO_TRANSACTION_EXPIRES_IN = "10m";
+
+export function generateSsoTransactionToken(transaction: SsoTransaction): string {
+    return jwt.sign(transaction, SSO_TRANSACTION_SECRET, { expiresIn: SSO_TRANSACTION_EXPIRES_IN });
+}
+
+export function verifySsoTransactionToken(token: string): SsoTransaction | null {
+    try {
+        const { state, nonce, codeVerifier } = jwt.verify(token, SSO_TRANSACTION_SECRET) as SsoTransaction;
+        return { state, nonce, codeVerifier };
+    } catch {
+        return null;
+    }
+}
+
 export function extractTokenFromRequest(req: Request): string | null {
     const authHeader = req.headers.authorization;
     if (authHeader?.startsWith("Bearer ")) {
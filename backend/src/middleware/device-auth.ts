@@ -0,0 +1,32 @@
+import crypto from "node:crypto";
+import type { Request } from "express";
+import { Device, type IDevice } from "../models/index.js";
+
+const DEVICE_KEY_HEADER = "x-device-key";
+const DEVICE_KEY_PREFIX = "dk_";
+
+export function hashDeviceKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+// Returns the plain key (to hand to the device once) together with what gets stored
+export function generateDeviceKey(): { key: string; hash: string; prefix: string } {
+    const key = DEVICE_KEY_PREFIX + crypto.randomBytes(24).toString("base64url");
+    return {
+        key,
+        hash: hashDeviceKey(key),
+        prefix: key.substring(0, DEVICE_KEY_PREFIX.length + 6),
+    };
+}
+
+export function extractDeviceKeyFromRequest(req: Request): string | null {
+    const header = req.headers[DEVICE_KEY_HEADER];
+    const key = Array.isArray(header) ? header[0] : header;
+    return key?.startsWith(DEVICE_KEY_PREFIX) ? key : null;
+}
+
+export async function getDeviceFromRequest(req: Request): Promise<IDevice | null> {
+    const key = extractDeviceKeyFromRequest(req);
+    if (!key) return null;
+    return Device.findOne({ apiKeyHash: hashDeviceKey(key), isActive: true });
+}
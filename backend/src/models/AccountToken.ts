@@ -0,0 +1,49 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+
+export type AccountTokenPurpose = "password-reset" | "email-verification";
+
+export interface IAccountToken extends Document {
+    user: Types.ObjectId;
+    purpose: AccountTokenPurpose;
+    // SHA-256 of the token; the plain token is only ever sent by mail
+    tokenHash: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const accountTokenSchema = new Schema<IAccountToken>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        purpose: {
+            type: String,
+            enum: ["password-reset", "email-verification"],
+            required: true,
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        usedAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+accountTokenSchema.index({ user: 1, purpose: 1 });
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AccountToken: Model<IAccountToken> = mongoose.model<IAccountToken>("AccountToken", accountTokenSchema);
@@ -1,10 +1,12 @@
 import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
 
 export type AlertType = "info" | "warning" | "error" | "success";
 export type AlertSource = "manual" | "iot" | "system";
 export type AlertPriority = "low" | "medium" | "high" | "critical";
 
 export interface IAlert extends Document {
+    organization: Types.ObjectId;
     title: string;
     message: string;
     type: AlertType;
@@ -72,4 +74,6 @@ alertSchema.index({ targetUsers: 1 });
 alertSchema.index({ createdAt: -1 });
 alertSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
+alertSchema.plugin(organizationScope);
+
 export const Alert: Model<IAlert> = mongoose.model<IAlert>("Alert", alertSchema);
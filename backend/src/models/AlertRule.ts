@@ -0,0 +1,84 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import type { AlertPriority, AlertType } from "./Alert.js";
+import { organizationScope } from "../db/tenancy.js";
+
+export type RuleComparator = "gt" | "gte" | "lt" | "lte" | "eq" | "neq";
+
+export interface IAlertRule extends Document {
+    organization: Types.ObjectId;
+    name: string;
+    metric: string;
+    comparator: RuleComparator;
+    threshold: number;
+    // How long the condition must hold continuously before the rule fires
+    durationSeconds: number;
+    priority: AlertPriority;
+    type: AlertType;
+    // Restricts the rule to a single device; applies to every device when unset
+    device?: Types.ObjectId;
+    enabled: boolean;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const alertRuleSchema = new Schema<IAlertRule>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        metric: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        comparator: {
+            type: String,
+            enum: ["gt", "gte", "lt", "lte", "eq", "neq"],
+            required: true,
+        },
+        threshold: {
+            type: Number,
+            required: true,
+        },
+        durationSeconds: {
+            type: Number,
+            min: 0,
+            default: 0,
+        },
+        priority: {
+            type: String,
+            enum: ["low", "medium", "high", "critical"],
+            default: "medium",
+        },
+        type: {
+            type: String,
+            enum: ["info", "warning", "error", "success"],
+            default: "warning",
+        },
+        device: {
+            type: Schema.Types.ObjectId,
+            ref: "Device",
+        },
+        enabled: {
+            type: Boolean,
+            default: true,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+alertRuleSchema.index({ metric: 1, enabled: 1 });
+
+alertRuleSchema.plugin(organizationScope);
+
+export const AlertRule: Model<IAlertRule> = mongoose.model<IAlertRule>("AlertRule", alertRuleSchema);
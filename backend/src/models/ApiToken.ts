@@ -0,0 +1,66 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+
+export interface IApiToken extends Document {
+    user: Types.ObjectId;
+    name: string;
+    // SHA-256 of the token; the plain token is only shown once when created
+    tokenHash: string;
+    tokenPrefix: string;
+    // Permissions the token may use - never more than its owner currently has
+    scopes: string[];
+    // Organization the token works in; it stops working once its owner leaves it
+    organization?: Types.ObjectId;
+    expiresAt: Date;
+    lastUsedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const apiTokenSchema = new Schema<IApiToken>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+            index: true,
+        },
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        tokenPrefix: {
+            type: String,
+            required: true,
+        },
+        scopes: [
+            {
+                type: String,
+            },
+        ],
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        lastUsedAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Expired tokens are removed automatically
+apiTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ApiToken: Model<IApiToken> = mongoose.model<IApiToken>("ApiToken", apiTokenSchema);
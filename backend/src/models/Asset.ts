@@ -1,8 +1,11 @@
 import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+import { softDelete } from "../db/soft-delete.js";
 
 export type AssetStatus = "available" | "in-use" | "maintenance" | "retired";
 
 export interface IAsset extends Document {
+    organization: Types.ObjectId;
     name: string;
     description?: string;
     category: string;
@@ -16,6 +19,8 @@ export interface IAsset extends Document {
     createdBy: Types.ObjectId;
     createdAt: Date;
     updatedAt: Date;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId;
 }
 
 const assetSchema = new Schema<IAsset>(
@@ -83,4 +88,7 @@ assetSchema.index({ status: 1 });
 assetSchema.index({ location: 1 });
 assetSchema.index({ createdBy: 1 });
 
+assetSchema.plugin(organizationScope);
+assetSchema.plugin(softDelete);
+
 export const Asset: Model<IAsset> = mongoose.model<IAsset>("Asset", assetSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+
+export interface IAuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface IAuditLog extends Document {
+    // null for calls by users outside any organization, e.g. deleting an account that never joined one
+    organization: Types.ObjectId | null;
+    actor: Types.ObjectId;
+    // Whether the call came with a personal access token instead of a browser session
+    viaApiToken: boolean;
+    // Procedure path, e.g. "rooms.delete"
+    path: string;
+    targetId?: string;
+    changes: IAuditChange[];
+    createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+    {
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        viaApiToken: {
+            type: Boolean,
+            default: false,
+        },
+        path: {
+            type: String,
+            required: true,
+        },
+        targetId: {
+            type: String,
+        },
+        changes: [
+            {
+                _id: false,
+                field: { type: String, required: true },
+                before: { type: Schema.Types.Mixed },
+                after: { type: Schema.Types.Mixed },
+            },
+        ],
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+auditLogSchema.plugin(organizationScope, { deploymentLevel: true });
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ targetId: 1, createdAt: -1 });
+
+// Append-only: entries can be written once and never changed or removed through the app
+function refuseChange(): never {
+    throw new Error("Audit log entries cannot be modified");
+}
+
+auditLogSchema.pre(
+    ["updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteMany", "findOneAndDelete"],
+    refuseChange
+);
+auditLogSchema.pre(["updateOne", "deleteOne"], { document: true, query: true }, refuseChange);
+auditLogSchema.pre("save", function () {
+    if (!this.isNew) refuseChange();
+});
+
+export const AuditLog: Model<IAuditLog> = mongoose.model<IAuditLog>("AuditLog", auditLogSchema);
@@ -1,6 +1,8 @@
 import { Schema, model, Document, Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
 
 export interface IBooking extends Document {
+    organization: Types.ObjectId;
     title: string;
     description?: string;
     room: Types.ObjectId;
@@ -9,6 +11,12 @@ export interface IBooking extends Document {
     startTime: Date;
     endTime: Date;
     status: "pending" | "confirmed" | "cancelled" | "rejected";
+    seriesId?: Types.ObjectId;
+    recurrence?: string;
+    decidedBy?: Types.ObjectId;
+    decidedAt?: Date;
+    decisionReason?: string;
+    cancellationReason?: string;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -25,9 +33,16 @@ const bookingSchema = new Schema<IBooking>(
         status: {
             type: String,
             enum: ["pending", "confirmed", "cancelled", "rejected"],
-            default: "confirmed", // Auto-confirm for now unless we add approval workflow
+            default: "confirmed", // Rooms with requiresApproval create "pending" bookings instead
             index: true,
         },
+        // Occurrences of a recurring booking share a seriesId and the rule they were generated from
+        seriesId: { type: Schema.Types.ObjectId, index: true },
+        recurrence: { type: String },
+        decidedBy: { type: Schema.Types.ObjectId, ref: "User" },
+        decidedAt: { type: Date },
+        decisionReason: { type: String },
+        cancellationReason: { type: String },
     },
     { timestamps: true }
 );
@@ -35,4 +50,6 @@ const bookingSchema = new Schema<IBooking>(
 // Index to help with overlap queries
 bookingSchema.index({ room: 1, startTime: 1, endTime: 1 });
 
+bookingSchema.plugin(organizationScope);
+
 export const Booking = model<IBooking>("Booking", bookingSchema);
@@ -0,0 +1,85 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+
+export type CommentTarget = "task" | "event" | "booking";
+
+export interface ICommentRevision {
+    body: string;
+    // When this version was replaced (or the comment deleted)
+    replacedAt: Date;
+}
+
+export interface IComment extends Document {
+    organization: Types.ObjectId;
+    targetType: CommentTarget;
+    target: Types.ObjectId;
+    author: Types.ObjectId;
+    // Markdown
+    body: string;
+    // Users @mentioned in the current body
+    mentions: Types.ObjectId[];
+    // Earlier versions, oldest first
+    history: ICommentRevision[];
+    editedAt?: Date;
+    // Deleted comments keep their place in the timeline with an empty body
+    deletedAt?: Date;
+    deletedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const commentSchema = new Schema<IComment>(
+    {
+        targetType: {
+            type: String,
+            enum: ["task", "event", "booking"],
+            required: true,
+        },
+        target: {
+            type: Schema.Types.ObjectId,
+            required: true,
+        },
+        author: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        body: {
+            type: String,
+            default: "",
+        },
+        mentions: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: "User",
+            },
+        ],
+        history: [
+            {
+                _id: false,
+                body: { type: String, required: true },
+                replacedAt: { type: Date, required: true },
+            },
+        ],
+        editedAt: {
+            type: Date,
+        },
+        deletedAt: {
+            type: Date,
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+commentSchema.plugin(organizationScope);
+
+commentSchema.index({ targetType: 1, target: 1, createdAt: 1 });
+commentSchema.index({ author: 1 });
+
+export const Comment: Model<IComment> = mongoose.model<IComment>("Comment", commentSchema);
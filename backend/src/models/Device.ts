@@ -0,0 +1,81 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+
+export interface IDevice extends Document {
+    organization: Types.ObjectId;
+    name: string;
+    description?: string;
+    location: string;
+    // Room whose occupancy this device reports on, if any
+    room?: Types.ObjectId;
+    // SHA-256 of the device API key; the plain key is only shown once when generated
+    apiKeyHash: string;
+    apiKeyPrefix: string;
+    isActive: boolean;
+    lastSeenAt?: Date;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const deviceSchema = new Schema<IDevice>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+            trim: true,
+        },
+        location: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        room: {
+            type: Schema.Types.ObjectId,
+            ref: "Room",
+        },
+        apiKeyHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        apiKeyPrefix: {
+            type: String,
+            required: true,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        lastSeenAt: {
+            type: Date,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+deviceSchema.index({ location: 1 });
+deviceSchema.index({ room: 1 });
+
+// Never leak the key hash to clients
+deviceSchema.set("toJSON", {
+    transform: (_doc: unknown, ret: { apiKeyHash?: string }) => {
+        delete ret.apiKeyHash;
+        return ret;
+    },
+});
+
+deviceSchema.plugin(organizationScope);
+
+export const Device: Model<IDevice> = mongoose.model<IDevice>("Device", deviceSchema);
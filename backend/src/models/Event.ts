@@ -1,6 +1,9 @@
 import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+import { softDelete } from "../db/soft-delete.js";
 
 export interface IEvent extends Document {
+    organization: Types.ObjectId;
     title: string;
     description?: string;
     start: Date;
@@ -11,8 +14,15 @@ export interface IEvent extends Document {
     status: "scheduled" | "in-progress" | "completed" | "cancelled";
     color?: string;
     reminders: Date[];
+    remindersSent: Date[];
+    recurrence?: string;
+    exdates: Date[];
+    seriesId?: Types.ObjectId;
+    originalStart?: Date;
     createdAt: Date;
     updatedAt: Date;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId;
 }
 
 const eventSchema = new Schema<IEvent>(
@@ -58,11 +68,36 @@ const eventSchema = new Schema<IEvent>(
             type: String,
             default: "#3b82f6",
         },
+        // For a recurring series these belong to the first occurrence and keep their lead time for every other one
         reminders: [
             {
                 type: Date,
             },
         ],
+        // Reminders already dispatched, so a restart never fires the same one twice
+        remindersSent: [
+            {
+                type: Date,
+            },
+        ],
+        // RFC 5545 RRULE (without DTSTART) - `start`/`end` describe the first occurrence
+        recurrence: {
+            type: String,
+            trim: true,
+        },
+        exdates: [
+            {
+                type: Date,
+            },
+        ],
+        // Set on a single occurrence detached from its series, along with the start it replaces
+        seriesId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+        },
+        originalStart: {
+            type: Date,
+        },
     },
     {
         timestamps: true,
@@ -72,5 +107,10 @@ const eventSchema = new Schema<IEvent>(
 // Index for efficient date range queries
 eventSchema.index({ start: 1, end: 1 });
 eventSchema.index({ createdBy: 1 });
+eventSchema.index({ seriesId: 1 });
+eventSchema.index({ reminders: 1 });
+
+eventSchema.plugin(organizationScope);
+eventSchema.plugin(softDelete);
 
 export const Event: Model<IEvent> = mongoose.model<IEvent>("Event", eventSchema);
@@ -0,0 +1,77 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+
+export interface IInvitation extends Document {
+    organization: Types.ObjectId;
+    email: string;
+    name?: string;
+    // Role in the organization the invitation is for
+    role: "admin" | "member";
+    // Teams the new account joins once the invitation is accepted
+    teams: Types.ObjectId[];
+    // SHA-256 of the token; the plain token is only ever sent by mail
+    tokenHash: string;
+    invitedBy: Types.ObjectId;
+    expiresAt: Date;
+    acceptedAt?: Date;
+    acceptedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>(
+    {
+        email: {
+            type: String,
+            required: true,
+            lowercase: true,
+            trim: true,
+        },
+        name: {
+            type: String,
+            trim: true,
+        },
+        role: {
+            type: String,
+            enum: ["admin", "member"],
+            default: "member",
+        },
+        teams: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: "Team",
+            },
+        ],
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        invitedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        acceptedAt: {
+            type: Date,
+        },
+        acceptedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+invitationSchema.index({ email: 1 });
+invitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+invitationSchema.plugin(organizationScope);
+
+export const Invitation: Model<IInvitation> = mongoose.model<IInvitation>("Invitation", invitationSchema);
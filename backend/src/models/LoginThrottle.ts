@@ -0,0 +1,62 @@
+import mongoose, { Schema, type Document, type Model } from "mongoose";
+
+// Failed sign-ins per account and per client address, and password reset requests likewise
+export type LoginThrottleKind = "account" | "ip" | "reset-account" | "reset-ip";
+
+export interface ILoginThrottle extends Document {
+    kind: LoginThrottleKind;
+    // Lower-cased email for "account"/"reset-account", client address for "ip"/"reset-ip"
+    subject: string;
+    // Failed sign-ins, or reset requests for the "reset-" kinds
+    failures: number;
+    lastFailureAt: Date;
+    // Attempts before this are rejected without checking the password (exponential backoff)
+    nextAttemptAt: Date;
+    lockedUntil?: Date;
+    // Quiet records are forgotten after a while
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const loginThrottleSchema = new Schema<ILoginThrottle>(
+    {
+        kind: {
+            type: String,
+            enum: ["account", "ip", "reset-account", "reset-ip"],
+            required: true,
+        },
+        subject: {
+            type: String,
+            required: true,
+        },
+        failures: {
+            type: Number,
+            default: 0,
+        },
+        lastFailureAt: {
+            type: Date,
+            required: true,
+        },
+        nextAttemptAt: {
+            type: Date,
+            required: true,
+        },
+        lockedUntil: {
+            type: Date,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+loginThrottleSchema.index({ kind: 1, subject: 1 }, { unique: true });
+loginThrottleSchema.index({ lockedUntil: 1 });
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginThrottle: Model<ILoginThrottle> = mongoose.model<ILoginThrottle>("LoginThrottle", loginThrottleSchema);
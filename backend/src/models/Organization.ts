@@ -0,0 +1,46 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+
+export type OrganizationRole = "admin" | "member";
+
+export interface IOrganizationMember {
+    user: Types.ObjectId;
+    // Role within this organization; takes the place of `User.role` while working in it
+    role: OrganizationRole;
+    joinedAt: Date;
+}
+
+export interface IOrganization extends Document {
+    name: string;
+    members: IOrganizationMember[];
+    createdBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const organizationSchema = new Schema<IOrganization>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        members: [
+            {
+                user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+                role: { type: String, enum: ["admin", "member"], default: "member" },
+                joinedAt: { type: Date, default: Date.now },
+            },
+        ],
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+organizationSchema.index({ "members.user": 1 });
+
+export const Organization: Model<IOrganization> = mongoose.model<IOrganization>("Organization", organizationSchema);
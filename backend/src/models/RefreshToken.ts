@@ -0,0 +1,58 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+
+export interface IRefreshToken extends Document {
+    user: Types.ObjectId;
+    // SHA-256 of the refresh token; the plain token only lives on the client
+    tokenHash: string;
+    // Shared by every token rotated from the same login, so a replayed token can revoke them all
+    family: Types.ObjectId;
+    // Organization the session works in; refreshing stays in it
+    organization?: Types.ObjectId;
+    expiresAt: Date;
+    revokedAt?: Date;
+    userAgent?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        family: {
+            type: Schema.Types.ObjectId,
+            required: true,
+        },
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: {
+            type: Date,
+        },
+        userAgent: {
+            type: String,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+refreshTokenSchema.index({ user: 1 });
+refreshTokenSchema.index({ family: 1 });
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken: Model<IRefreshToken> = mongoose.model<IRefreshToken>("RefreshToken", refreshTokenSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+
+export interface IRole extends Document {
+    organization: Types.ObjectId;
+    name: string;
+    description?: string;
+    // Entries from the catalogue in lib/permissions.ts, e.g. "rooms:delete"
+    permissions: string[];
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const roleSchema = new Schema<IRole>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+            trim: true,
+        },
+        permissions: [
+            {
+                type: String,
+                trim: true,
+            },
+        ],
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+roleSchema.plugin(organizationScope);
+
+// Role names only need to be unique within an organization
+roleSchema.index({ organization: 1, name: 1 }, { unique: true });
+
+export const Role: Model<IRole> = mongoose.model<IRole>("Role", roleSchema);
@@ -1,14 +1,24 @@
-import { Schema, model, Document } from "mongoose";
+import { Schema, model, Document, Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+import { softDelete } from "../db/soft-delete.js";
 
 export interface IRoom extends Document {
+    organization: Types.ObjectId;
     name: string;
     capacity: number;
     location: string;
     amenities: string[];
     status: "available" | "maintenance" | "occupied";
     images: string[];
+    requiresApproval: boolean;
+    approvers: Types.ObjectId[];
+    currentOccupancy: number;
+    occupancyUpdatedAt?: Date;
+    lastOccupiedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId;
 }
 
 const roomSchema = new Schema<IRoom>(
@@ -24,8 +34,18 @@ const roomSchema = new Schema<IRoom>(
             index: true,
         },
         images: [{ type: String }],
+        // Bookings on these rooms start as "pending" until an approver (or an admin) decides
+        requiresApproval: { type: Boolean, default: false },
+        approvers: [{ type: Schema.Types.ObjectId, ref: "User" }],
+        // Maintained from occupancy/motion sensors linked to the room (see lib/occupancy.ts)
+        currentOccupancy: { type: Number, default: 0, min: 0 },
+        occupancyUpdatedAt: { type: Date },
+        lastOccupiedAt: { type: Date },
     },
     { timestamps: true }
 );
 
+roomSchema.plugin(organizationScope);
+roomSchema.plugin(softDelete);
+
 export const Room = model<IRoom>("Room", roomSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+
+export interface ISensorReading extends Document {
+    organization: Types.ObjectId;
+    device: Types.ObjectId;
+    metric: string;
+    value: number;
+    recordedAt: Date;
+}
+
+const sensorReadingSchema = new Schema<ISensorReading>(
+    {
+        device: {
+            type: Schema.Types.ObjectId,
+            ref: "Device",
+            required: true,
+        },
+        metric: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        value: {
+            type: Number,
+            required: true,
+        },
+        recordedAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        // Stored as a MongoDB time-series collection, readings are dropped after 90 days
+        timeseries: {
+            timeField: "recordedAt",
+            metaField: "device",
+            granularity: "seconds",
+        },
+        expireAfterSeconds: 60 * 60 * 24 * 90,
+    }
+);
+
+sensorReadingSchema.index({ device: 1, recordedAt: -1 });
+
+sensorReadingSchema.plugin(organizationScope);
+
+export const SensorReading: Model<ISensorReading> = mongoose.model<ISensorReading>(
+    "SensorReading",
+    sensorReadingSchema
+);
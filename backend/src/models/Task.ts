@@ -1,12 +1,26 @@
 import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+import { softDelete } from "../db/soft-delete.js";
 
-export type TaskStatus = "todo" | "in-progress" | "review" | "done";
+// Key of a status in the workflow of the task's team
+export type TaskStatus = string;
 export type TaskPriority = "low" | "medium" | "high" | "urgent";
 
+export interface ITaskChecklistItem {
+    _id: Types.ObjectId;
+    text: string;
+    done: boolean;
+    doneAt?: Date;
+    doneBy?: Types.ObjectId;
+}
+
 export interface ITask extends Document {
+    organization: Types.ObjectId;
     title: string;
     description?: string;
     status: TaskStatus;
+    // Set while the task is in one of its workflow's "done" statuses
+    completedAt?: Date | null;
     priority: TaskPriority;
     assignee?: Types.ObjectId;
     createdBy: Types.ObjectId;
@@ -14,8 +28,15 @@ export interface ITask extends Document {
     team?: Types.ObjectId;
     labels: string[];
     order: number;
+    // Subtasks point at their parent; they can't have subtasks of their own
+    parent?: Types.ObjectId;
+    checklist: ITaskChecklistItem[];
+    // Tasks that have to be done before this one can be
+    blockedBy: Types.ObjectId[];
     createdAt: Date;
     updatedAt: Date;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId;
 }
 
 const taskSchema = new Schema<ITask>(
@@ -31,8 +52,12 @@ const taskSchema = new Schema<ITask>(
         },
         status: {
             type: String,
-            enum: ["todo", "in-progress", "review", "done"],
-            default: "todo",
+            required: true,
+            trim: true,
+        },
+        completedAt: {
+            type: Date,
+            default: null,
         },
         priority: {
             type: String,
@@ -65,6 +90,24 @@ const taskSchema = new Schema<ITask>(
             type: Number,
             default: 0,
         },
+        parent: {
+            type: Schema.Types.ObjectId,
+            ref: "Task",
+        },
+        checklist: [
+            {
+                text: { type: String, required: true, trim: true },
+                done: { type: Boolean, default: false },
+                doneAt: { type: Date },
+                doneBy: { type: Schema.Types.ObjectId, ref: "User" },
+            },
+        ],
+        blockedBy: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: "Task",
+            },
+        ],
     },
     {
         timestamps: true,
@@ -73,8 +116,14 @@ const taskSchema = new Schema<ITask>(
 
 // Indexes for common queries
 taskSchema.index({ status: 1, order: 1 });
+taskSchema.index({ completedAt: 1 });
 taskSchema.index({ assignee: 1 });
 taskSchema.index({ team: 1 });
 taskSchema.index({ createdBy: 1 });
+taskSchema.index({ parent: 1 });
+taskSchema.index({ blockedBy: 1 });
+
+taskSchema.plugin(organizationScope);
+taskSchema.plugin(softDelete);
 
 export const Task: Model<ITask> = mongoose.model<ITask>("Task", taskSchema);
@@ -1,13 +1,38 @@
 import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
+import { organizationScope } from "../db/tenancy.js";
+import { softDelete } from "../db/soft-delete.js";
+
+export interface ITeamMemberRole {
+    user: Types.ObjectId;
+    role: Types.ObjectId;
+}
+
+// A column of the team's task board
+export interface IWorkflowStatus {
+    key: string;
+    name: string;
+    color: string;
+    // Tasks in a "done" status count as finished
+    done: boolean;
+    // Statuses a task may move on to from this one; empty allows any
+    next: string[];
+}
 
 export interface ITeam extends Document {
+    organization: Types.ObjectId;
     name: string;
     description?: string;
     members: Types.ObjectId[];
     owner: Types.ObjectId;
+    // Custom roles that only apply to this team's resources
+    memberRoles: ITeamMemberRole[];
+    // Ordered task statuses; empty uses the default workflow (lib/workflows.ts)
+    workflow: IWorkflowStatus[];
     color?: string;
     createdAt: Date;
     updatedAt: Date;
+    deletedAt?: Date | null;
+    deletedBy?: Types.ObjectId;
 }
 
 const teamSchema = new Schema<ITeam>(
@@ -32,6 +57,22 @@ const teamSchema = new Schema<ITeam>(
             ref: "User",
             required: true,
         },
+        memberRoles: [
+            {
+                user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+                role: { type: Schema.Types.ObjectId, ref: "Role", required: true },
+            },
+        ],
+        workflow: [
+            {
+                _id: false,
+                key: { type: String, required: true, trim: true },
+                name: { type: String, required: true, trim: true },
+                color: { type: String, default: "#6b7280" },
+                done: { type: Boolean, default: false },
+                next: [{ type: String }],
+            },
+        ],
         color: {
             type: String,
             default: "#8b5cf6",
@@ -44,5 +85,9 @@ const teamSchema = new Schema<ITeam>(
 
 teamSchema.index({ owner: 1 });
 teamSchema.index({ members: 1 });
+teamSchema.index({ "memberRoles.user": 1 });
+
+teamSchema.plugin(organizationScope);
+teamSchema.plugin(softDelete);
 
 export const Team: Model<ITeam> = mongoose.model<ITeam>("Team", teamSchema);
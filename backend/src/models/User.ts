@@ -1,12 +1,42 @@
-import mongoose, { Schema, type Document, type Model } from "mongoose";
+import mongoose, { Schema, type Document, type Model, type Types } from "mongoose";
 import bcrypt from "bcrypt";
 
+export interface IUserTwoFactor {
+    enabled: boolean;
+    // Base32 TOTP secret; authenticator apps need the raw value so it cannot be hashed
+    secret?: string;
+    // Secret handed out by an enrollment that has not been confirmed with a code yet
+    pendingSecret?: string;
+    // sha256 hashes of the unused recovery codes
+    recoveryCodes: string[];
+    // Time step of the last accepted code, so codes cannot be replayed
+    lastUsedStep?: number;
+    enabledAt?: Date;
+}
+
+// Identity at the OIDC provider the account was provisioned from or linked to
+export interface IUserSso {
+    issuer: string;
+    subject: string;
+}
+
 export interface IUser extends Document {
     email: string;
     password: string;
     name: string;
+    // Deployment-wide role; admins are admins of every organization
     role: "admin" | "member";
     avatar?: string;
+    emailVerified: boolean;
+    // Set when the account was deleted; the document is kept (anonymized) so references stay valid
+    deletedAt?: Date;
+    // Set by an admin; a deactivated user cannot sign in, refresh a session or use API tokens
+    deactivatedAt?: Date;
+    deactivatedBy?: Types.ObjectId;
+    // Custom roles granting permissions on top of the built-in `role`
+    roles: Types.ObjectId[];
+    twoFactor: IUserTwoFactor;
+    sso?: IUserSso;
     createdAt: Date;
     updatedAt: Date;
     comparePassword(candidatePassword: string): Promise<boolean>;
@@ -39,12 +69,64 @@ const userSchema = new Schema<IUser>(
         avatar: {
             type: String,
         },
+        emailVerified: {
+            type: Boolean,
+            default: false,
+        },
+        deletedAt: {
+            type: Date,
+        },
+        deactivatedAt: {
+            type: Date,
+        },
+        deactivatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+        },
+        roles: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: "Role",
+            },
+        ],
+        twoFactor: {
+            enabled: {
+                type: Boolean,
+                default: false,
+            },
+            secret: {
+                type: String,
+            },
+            pendingSecret: {
+                type: String,
+            },
+            recoveryCodes: {
+                type: [String],
+                default: [],
+            },
+            lastUsedStep: {
+                type: Number,
+            },
+            enabledAt: {
+                type: Date,
+            },
+        },
+        sso: {
+            issuer: {
+                type: String,
+            },
+            subject: {
+                type: String,
+            },
+        },
     },
     {
         timestamps: true,
     }
 );
 
+userSchema.index({ "sso.issuer": 1, "sso.subject": 1 }, { unique: true, sparse: true });
+
 // Hash password before saving
 userSchema.pre("save", async function () {
     if (!this.isModified("password")) return;
@@ -60,10 +142,11 @@ userSchema.methods.comparePassword = async function (
     return bcrypt.compare(candidatePassword, this.password);
 };
 
-// Remove password from JSON output
+// Remove password and two-factor secrets from JSON output
 userSchema.set("toJSON", {
-    transform: (_doc: unknown, ret: { password?: string }) => {
+    transform: (_doc: unknown, ret: { password?: string; twoFactor?: unknown }) => {
         delete ret.password;
+        delete ret.twoFactor;
         return ret;
     },
 });
@@ -1,8 +1,20 @@
 export { User, type IUser } from "./User.js";
 export { Event, type IEvent } from "./Event.js";
-export { Task, type ITask, type TaskStatus, type TaskPriority } from "./Task.js";
-export { Team, type ITeam } from "./Team.js";
+export { Task, type ITask, type ITaskChecklistItem, type TaskStatus, type TaskPriority } from "./Task.js";
+export { Team, type ITeam, type ITeamMemberRole, type IWorkflowStatus } from "./Team.js";
 export { Alert, type IAlert, type AlertType, type AlertSource, type AlertPriority } from "./Alert.js";
 export { Asset, type IAsset, type AssetStatus } from "./Asset.js";
 export { Room, type IRoom } from "./Room.js";
 export { Booking, type IBooking } from "./Booking.js";
+export { Device, type IDevice } from "./Device.js";
+export { SensorReading, type ISensorReading } from "./SensorReading.js";
+export { AlertRule, type IAlertRule, type RuleComparator } from "./AlertRule.js";
+export { Role, type IRole } from "./Role.js";
+export { RefreshToken, type IRefreshToken } from "./RefreshToken.js";
+export { AccountToken, type IAccountToken, type AccountTokenPurpose } from "./AccountToken.js";
+export { LoginThrottle, type ILoginThrottle, type LoginThrottleKind } from "./LoginThrottle.js";
+export { ApiToken, type IApiToken } from "./ApiToken.js";
+export { Invitation, type IInvitation } from "./Invitation.js";
+export { Organization, type IOrganization, type IOrganizationMember, type OrganizationRole } from "./Organization.js";
+export { AuditLog, type IAuditLog, type IAuditChange } from "./AuditLog.js";
+export { Comment, type IComment, type ICommentRevision, type CommentTarget } from "./Comment.js";
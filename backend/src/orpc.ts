@@ -1,44 +1,169 @@
 import { os } from "@orpc/server";
 import type { Request } from "express";
-import { getUserFromRequest, type JWTPayload } from "./middleware/auth.js";
+import { extractTokenFromRequest, verifyToken, type JWTPayload } from "./middleware/auth.js";
+import { authenticateApiToken, isApiToken } from "./middleware/api-token.js";
+import { getDeviceFromRequest } from "./middleware/device-auth.js";
+import { loadAccess, type Permission } from "./lib/permissions.js";
+import { errorMap, forbidden, unauthorized } from "./lib/errors.js";
+import { runInOrganization } from "./db/tenancy.js";
+import { User } from "./models/index.js";
+import { diffSnapshots, outputId, recordAudit, takeSnapshot, type AuditSource } from "./lib/audit.js";
 
 // Context type for all procedures
 export interface Context {
     req: Request;
     user: JWTPayload | null;
+    // Set when the caller authenticated with a personal access token, which may only use these permissions
+    tokenScopes?: Permission[];
 }
 
 // Create the base ORPC instance
-export const orpc = os.$context<Context>();
+export const orpc = os.$context<Context>().errors(errorMap);
 
 // Public procedure - no auth required
 export const publicProcedure = orpc;
 
-// Protected procedure - requires authentication
-export const protectedProcedure = orpc.use(async ({ context, next }) => {
-    if (!context.user) {
-        throw new Error("Unauthorized: Please log in to access this resource");
+// Any authenticated caller, browser session or personal access token. Everything after this
+// runs scoped to the caller's active organization (see db/tenancy.ts).
+const authenticatedProcedure = orpc.use(async ({ context, next }) => {
+    const user = context.user;
+    if (!user) {
+        throw unauthorized();
     }
+    return runInOrganization(user.organizationId, () =>
+        next({
+            context: {
+                ...context,
+                user,
+            },
+        })
+    );
+});
+
+// Protected procedure - requires a signed-in user. Personal access tokens are refused here;
+// they can only call procedures guarded by `authorized`, limited to their scopes.
+export const protectedProcedure = authenticatedProcedure.use(async ({ context, next }) => {
+    if (context.tokenScopes) {
+        throw forbidden("Personal access tokens cannot be used for this operation");
+    }
+    return next({ context });
+});
+
+// Admin procedure - requires admin role
+export const adminProcedure = protectedProcedure.use(async ({ context, next }) => {
+    if (context.user.role !== "admin") {
+        throw forbidden("Admin access required");
+    }
+    return next({ context });
+});
+
+// Deployment admin procedure - requires the account-wide admin role (`User.role`), for operations that
+// reach beyond the active organization. Being admin of an organization is not enough.
+export const deploymentAdminProcedure = protectedProcedure.use(async ({ context, next }) => {
+    const user = await User.findById(context.user.userId).select("role");
+    if (user?.role !== "admin") {
+        throw forbidden("Deployment admin access required");
+    }
+    return next({ context });
+});
+
+// Access procedure - loads the user's effective permissions into the context
+export const accessProcedure = protectedProcedure.use(async ({ context, next }) => {
     return next({
         context: {
             ...context,
-            user: context.user,
+            access: await loadAccess(context.user),
         },
     });
 });
 
-// Admin procedure - requires admin role
-export const adminProcedure = protectedProcedure.use(async ({ context, next }) => {
-    if (context.user.role !== "admin") {
-        throw new Error("Forbidden: Admin access required");
+// Returns the team a call operates on, from the raw (not yet validated) input
+export type TeamScope = (input: unknown) => Promise<string | undefined> | string | undefined;
+
+// Permission procedure - requires a named permission, granted globally or through a
+// team-scoped role on the team resolved by `scope`
+export function authorized(permission: Permission, scope?: TeamScope) {
+    return authenticatedProcedure.use(async ({ context, next }, input) => {
+        if (context.tokenScopes && !context.tokenScopes.includes(permission)) {
+            throw forbidden(`Token is missing the "${permission}" scope`, permission);
+        }
+
+        const access = await loadAccess(context.user);
+        const teamId = scope ? await scope(input) : undefined;
+        if (!access.can(permission, teamId)) {
+            throw forbidden(`Missing permission "${permission}"`, permission);
+        }
+        return next({
+            context: {
+                ...context,
+                access,
+            },
+        });
+    });
+}
+
+// Reads a string field from the raw input, for use in a TeamScope
+export function inputField(input: unknown, field: string): string | undefined {
+    const value = (input as Record<string, unknown> | undefined)?.[field];
+    return typeof value === "string" && value ? value : undefined;
+}
+
+// Audit middleware - records who made the call, the target and what changed in the audit log (lib/audit.ts).
+// `source` snapshots the target before and after the call; `idField` is the input field naming it.
+// Creates find their target in the output instead.
+export function audit(source?: AuditSource, idField = "id") {
+    return orpc.middleware(async ({ context, path, next }, input: unknown) => {
+        const inputId = inputField(input, idField);
+        const before = await takeSnapshot(source, inputId);
+
+        const result = await next();
+
+        const targetId = inputId ?? outputId(result.output);
+        const after = await takeSnapshot(source, targetId);
+        if (context.user) {
+            await recordAudit({
+                actor: context.user,
+                viaApiToken: Boolean(context.tokenScopes),
+                path,
+                targetId,
+                changes: diffSnapshots(before, after),
+            });
+        }
+        return result;
+    });
+}
+
+// Device procedure - requires a registered device's API key (X-Device-Key header), scoped to the device's organization
+export const deviceProcedure = orpc.use(async ({ context, next }) => {
+    const device = await getDeviceFromRequest(context.req);
+    if (!device) {
+        throw unauthorized("Invalid or missing device key");
     }
-    return next({ context });
+    return runInOrganization(device.organization, () =>
+        next({
+            context: {
+                ...context,
+                device,
+            },
+        })
+    );
 });
 
 // Helper to create context from request
-export function createContext(req: Request): Context {
+export async function createContext(req: Request): Promise<Context> {
+    const token = extractTokenFromRequest(req);
+
+    if (token && isApiToken(token)) {
+        const auth = await authenticateApiToken(token);
+        return {
+            req,
+            user: auth?.user ?? null,
+            tokenScopes: auth?.scopes,
+        };
+    }
+
     return {
         req,
-        user: getUserFromRequest(req),
+        user: token ? verifyToken(token) : null,
     };
 }
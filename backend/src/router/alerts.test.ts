@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Alert } from "../models/index.js";
+import { BUILT_IN_ROLES, loadAccess } from "../lib/permissions.js";
+import { accessWith, contextFor, member, objectId, query } from "../test/helpers.js";
+import { alertsRouter } from "./alerts.js";
+
+vi.mock("../lib/permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../lib/permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+const user = member();
+const context = contextFor(user);
+
+describe("alerts.markRead", () => {
+    beforeEach(() => {
+        vi.mocked(loadAccess).mockResolvedValue(accessWith(BUILT_IN_ROLES.member));
+        vi.spyOn(Alert, "findById").mockReturnValue(query(null) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("only marks alerts that are broadcast or addressed to the caller", async () => {
+        const id = objectId().toString();
+        vi.spyOn(Alert, "findOneAndUpdate").mockReturnValue(query(null) as never);
+
+        await expect(call(alertsRouter.markRead, { id }, { context })).rejects.toMatchObject({ code: "NOT_FOUND" });
+        expect(Alert.findOneAndUpdate).toHaveBeenCalledWith(
+            {
+                _id: id,
+                $or: [{ targetUsers: { $size: 0 } }, { targetUsers: user.userId }],
+            },
+            { $addToSet: { readBy: user.userId } }
+        );
+    });
+
+    it("marks an alert addressed to the caller", async () => {
+        const alert = new Alert({ title: "Heads up", message: "Fire drill", targetUsers: [user.userId] });
+        vi.spyOn(Alert, "findOneAndUpdate").mockReturnValue(query(alert) as never);
+
+        await expect(call(alertsRouter.markRead, { id: alert._id.toString() }, { context }))
+            .resolves.toEqual({ success: true });
+    });
+});
@@ -1,6 +1,9 @@
 import { z } from "zod";
-import { protectedProcedure, adminProcedure } from "../orpc.js";
-import { Alert } from "../models/index.js";
+import { audit, authorized } from "../orpc.js";
+import { Alert, Device } from "../models/index.js";
+import { notFound } from "../lib/errors.js";
+import { alertPublisher, publishAlert } from "../lib/alerts.js";
+import { ingestReadings } from "../lib/iot.js";
 
 const alertSchema = z.object({
     title: z.string().min(1),
@@ -13,8 +16,18 @@ const alertSchema = z.object({
     expiresAt: z.string().datetime().optional(),
 });
 
+// Alerts broadcast to everyone or addressed to the user
+function addressedTo(userId: string) {
+    return {
+        $or: [
+            { targetUsers: { $size: 0 } },
+            { targetUsers: userId },
+        ],
+    };
+}
+
 export const alertsRouter = {
-    list: protectedProcedure
+    list: authorized("alerts:read")
         .input(
             z.object({
                 unreadOnly: z.boolean().optional(),
@@ -22,12 +35,7 @@ export const alertsRouter = {
             }).optional()
         )
         .handler(async ({ input, context }) => {
-            const query: Record<string, unknown> = {
-                $or: [
-                    { targetUsers: { $size: 0 } },
-                    { targetUsers: context.user.userId },
-                ],
-            };
+            const query: Record<string, unknown> = addressedTo(context.user.userId);
 
             if (input?.unreadOnly) {
                 query["readBy"] = { $ne: context.user.userId };
@@ -51,18 +59,42 @@ export const alertsRouter = {
             }));
         }),
 
-    unreadCount: protectedProcedure.handler(async ({ context }) => {
+    unreadCount: authorized("alerts:read").handler(async ({ context }) => {
         const count = await Alert.countDocuments({
-            $or: [
-                { targetUsers: { $size: 0 } },
-                { targetUsers: context.user.userId },
-            ],
+            ...addressedTo(context.user.userId),
             readBy: { $ne: context.user.userId },
         });
         return { count };
     }),
 
-    create: adminProcedure
+    // Live feed of new alerts addressed to the current user (or broadcast to everyone).
+    // Filtered by hand: the feed outlives the request the organization scope is bound to.
+    stream: authorized("alerts:read").handler(async function* ({ context, signal }) {
+        for await (const alert of alertPublisher.subscribe("created", { signal })) {
+            if (alert.organizationId !== context.user.organizationId) {
+                continue;
+            }
+            if (alert.targetUsers.length > 0 && !alert.targetUsers.includes(context.user.userId)) {
+                continue;
+            }
+
+            yield {
+                id: alert.id,
+                title: alert.title,
+                message: alert.message,
+                type: alert.type,
+                source: alert.source,
+                priority: alert.priority,
+                metadata: alert.metadata,
+                isRead: false,
+                createdAt: alert.createdAt,
+                expiresAt: alert.expiresAt,
+            };
+        }
+    }),
+
+    create: authorized("alerts:create")
+        .use(audit(Alert))
         .input(alertSchema)
         .handler(async ({ input }) => {
             const newAlert = new Alert({
@@ -77,6 +109,7 @@ export const alertsRouter = {
             });
 
             const alert = await newAlert.save();
+            publishAlert(alert);
 
             return {
                 id: alert._id.toString(),
@@ -85,88 +118,51 @@ export const alertsRouter = {
             };
         }),
 
-    markRead: protectedProcedure
+    markRead: authorized("alerts:read")
+        .use(audit(Alert))
         .input(z.object({ id: z.string() }))
         .handler(async ({ input, context }) => {
-            await Alert.findByIdAndUpdate(input.id, {
-                $addToSet: { readBy: context.user.userId },
-            });
+            const alert = await Alert.findOneAndUpdate(
+                { _id: input.id, ...addressedTo(context.user.userId) },
+                { $addToSet: { readBy: context.user.userId } }
+            );
+            if (!alert) throw notFound("Alert");
             return { success: true };
         }),
 
-    markAllRead: protectedProcedure.handler(async ({ context }) => {
-        await Alert.updateMany(
-            {
-                $or: [
-                    { targetUsers: { $size: 0 } },
-                    { targetUsers: context.user.userId },
-                ],
-                readBy: { $ne: context.user.userId },
-            },
-            { $addToSet: { readBy: context.user.userId } }
-        );
-        return { success: true };
-    }),
+    markAllRead: authorized("alerts:read")
+        .use(audit())
+        .handler(async ({ context }) => {
+            await Alert.updateMany(
+                { ...addressedTo(context.user.userId), readBy: { $ne: context.user.userId } },
+                { $addToSet: { readBy: context.user.userId } }
+            );
+            return { success: true };
+        }),
 
-    delete: adminProcedure
+    delete: authorized("alerts:delete")
+        .use(audit(Alert))
         .input(z.object({ id: z.string() }))
         .handler(async ({ input }) => {
             const alert = await Alert.findByIdAndDelete(input.id);
-            if (!alert) throw new Error("Alert not found");
+            if (!alert) throw notFound("Alert");
             return { success: true };
         }),
 
-    simulateIoT: adminProcedure
+    // Feeds a reading through the IoT pipeline as if the device had sent it, so alert rules can be tried out
+    simulateIoT: authorized("iot:manage")
+        .use(audit(Device, "deviceId"))
         .input(
             z.object({
-                sensorType: z.enum(["occupancy", "temperature", "humidity", "motion"]),
-                location: z.string(),
+                deviceId: z.string(),
+                metric: z.string().min(1),
                 value: z.number(),
             })
         )
         .handler(async ({ input }) => {
-            let title: string;
-            let message: string;
-            let type: "info" | "warning" = "info";
-            let priority: "low" | "medium" | "high" | "critical" = "low";
-
-            switch (input.sensorType) {
-                case "occupancy":
-                    title = `Room ${input.location} Occupancy Alert`;
-                    message = `Current occupancy: ${input.value} people`;
-                    type = input.value > 50 ? "warning" : "info";
-                    priority = input.value > 50 ? "high" : "low";
-                    break;
-                case "temperature":
-                    title = `Temperature Alert - ${input.location}`;
-                    message = `Temperature: ${input.value}°C`;
-                    type = input.value > 30 || input.value < 15 ? "warning" : "info";
-                    priority = input.value > 35 ? "critical" : "medium";
-                    break;
-                default:
-                    title = `Sensor Alert - ${input.location}`;
-                    message = `${input.sensorType}: ${input.value}`;
-            }
-
-            const newAlert = new Alert({
-                title,
-                message,
-                type,
-                priority,
-                source: "iot",
-                targetUsers: [],
-                metadata: {
-                    sensorType: input.sensorType,
-                    location: input.location,
-                    value: input.value,
-                },
-            });
-
-            const alert = await newAlert.save();
+            const device = await Device.findById(input.deviceId);
+            if (!device) throw notFound("Device");
 
-            return {
-                id: alert._id.toString(),
-                title: alert.title,
-            };
+            return ingestReadings(device, [{ metric: input.metric, value: input.value }]);
         }),
 };
@@ -1,10 +1,16 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
-import { Task, Event, Team, User, Asset } from "../models/index.js";
+import { authorized } from "../orpc.js";
+import { Task, Event, Team, User, Asset, type IWorkflowStatus } from "../models/index.js";
+import { memberIds } from "../lib/organizations.js";
+import { initialStatus, workflowForTeam, workflowsByTeam } from "../lib/workflows.js";
+
+function pickStatus({ key, name, color, done }: IWorkflowStatus) {
+    return { key, name, color, done };
+}
 
 export const analyticsRouter = {
     // Task metrics
-    taskMetrics: protectedProcedure
+    taskMetrics: authorized("analytics:read")
         .input(
             z.object({
                 teamId: z.string().optional(),
@@ -17,13 +23,14 @@ export const analyticsRouter = {
             if (input?.teamId) query["team"] = input.teamId;
 
             const tasks = await Task.find(query);
+            const workflowOf = await workflowsByTeam();
 
-            const statusCounts = {
-                todo: 0,
-                "in-progress": 0,
-                review: 0,
-                done: 0,
-            };
+            // Counted per workflow status; statuses of different teams that share a key are counted together.
+            // A team's statuses are all listed, even empty ones.
+            const statusCounts = new Map<string, { key: string; name: string; color: string; done: boolean; count: number }>();
+            for (const status of input?.teamId ? await workflowForTeam(input.teamId) : []) {
+                statusCounts.set(status.key, { ...pickStatus(status), count: 0 });
+            }
 
             const priorityCounts = {
                 low: 0,
@@ -33,36 +40,56 @@ export const analyticsRouter = {
             };
 
             let overdueCount = 0;
+            let doneCount = 0;
+            let inProgressCount = 0;
+            let reviewBacklog = 0;
             const now = new Date();
 
             tasks.forEach((task) => {
-                statusCounts[task.status]++;
+                const workflow = workflowOf(task.team);
+                const status = workflow.find((s) => s.key === task.status);
+                const counted = statusCounts.get(task.status) ?? {
+                    ...(status ? pickStatus(status) : { key: task.status, name: task.status, color: "#6b7280", done: false }),
+                    count: 0,
+                };
+                counted.count++;
+                statusCounts.set(task.status, counted);
+
                 priorityCounts[task.priority]++;
-                if (task.dueDate && task.dueDate < now && task.status !== "done") {
-                    overdueCount++;
+                if (task.completedAt) {
+                    doneCount++;
+                } else {
+                    // Started: past the first open status of the workflow
+                    if (task.status !== initialStatus(workflow)) inProgressCount++;
+                    // Waiting in the last open status before done, like "Review" on the default board
+                    if (task.status === workflow.filter((s) => !s.done).at(-1)?.key) reviewBacklog++;
+                    if (task.dueDate && task.dueDate < now) overdueCount++;
                 }
             });
 
             const total = tasks.length;
-            const completionRate = total > 0 ? (statusCounts.done / total) * 100 : 0;
-            const inProgressRate = total > 0 ? (statusCounts["in-progress"] / total) * 100 : 0;
+            const completionRate = total > 0 ? (doneCount / total) * 100 : 0;
+            const inProgressRate = total > 0 ? (inProgressCount / total) * 100 : 0;
 
             return {
                 total,
-                statusCounts,
+                statusCounts: [...statusCounts.values()],
+                doneCount,
+                inProgressCount,
                 priorityCounts,
                 overdueCount,
                 completionRate: Math.round(completionRate * 100) / 100,
                 inProgressRate: Math.round(inProgressRate * 100) / 100,
                 bottlenecks: {
-                    reviewBacklog: statusCounts.review,
-                    urgentPending: priorityCounts.urgent - (await Task.countDocuments({ priority: "urgent", status: "done" })),
+                    reviewBacklog,
+                    urgentPending: priorityCounts.urgent
+                        - (await Task.countDocuments({ ...query, priority: "urgent", completedAt: { $ne: null } })),
                 },
             };
         }),
 
     // Event metrics
-    eventMetrics: protectedProcedure
+    eventMetrics: authorized("analytics:read")
         .input(
             z.object({
                 startDate: z.string().datetime().optional(),
@@ -112,14 +139,14 @@ export const analyticsRouter = {
         }),
 
     // Team metrics
-    teamMetrics: protectedProcedure.handler(async () => {
+    teamMetrics: authorized("analytics:read").handler(async () => {
         const teams = await Team.find().populate("members", "_id");
         const teamStats = await Promise.all(
             teams.map(async (team) => {
                 const taskCount = await Task.countDocuments({ team: team._id });
                 const completedTasks = await Task.countDocuments({
                     team: team._id,
-                    status: "done",
+                    completedAt: { $ne: null },
                 });
 
                 return {
@@ -141,7 +168,7 @@ export const analyticsRouter = {
     }),
 
     // Dashboard summary
-    dashboardSummary: protectedProcedure.handler(async ({ context }) => {
+    dashboardSummary: authorized("analytics:read").handler(async ({ context }) => {
         const now = new Date();
         const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
         const endOfToday = new Date(startOfToday);
@@ -155,18 +182,18 @@ export const analyticsRouter = {
         // My pending tasks
         const myPendingTasks = await Task.countDocuments({
             assignee: context.user.userId,
-            status: { $in: ["todo", "in-progress", "review"] },
+            completedAt: null,
         });
 
         // Overdue tasks
         const overdueTasks = await Task.countDocuments({
             assignee: context.user.userId,
             dueDate: { $lt: now },
-            status: { $ne: "done" },
+            completedAt: null,
         });
 
         // Total users
-        const totalUsers = await User.countDocuments();
+        const totalUsers = await User.countDocuments({ _id: { $in: await memberIds() }, deletedAt: null });
 
         // Total teams
         const totalTeams = await Team.countDocuments();
@@ -175,8 +202,7 @@ export const analyticsRouter = {
         const startOfWeek = new Date(now);
         startOfWeek.setDate(now.getDate() - now.getDay());
         const tasksCompletedThisWeek = await Task.countDocuments({
-            status: "done",
-            updatedAt: { $gte: startOfWeek },
+            completedAt: { $gte: startOfWeek },
         });
 
         // Inventory Stats
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { audit, protectedProcedure } from "../orpc.js";
+import { ApiToken } from "../models/index.js";
+import { notFound } from "../lib/errors.js";
+import { isPermission } from "../lib/permissions.js";
+import { generateApiToken } from "../middleware/api-token.js";
+
+const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+// Managing tokens needs a browser session (protectedProcedure), so a token cannot mint or revoke tokens
+export const apiTokensRouter = {
+    list: protectedProcedure.handler(async ({ context }) => {
+        const tokens = await ApiToken.find({ user: context.user.userId })
+            .populate<{ organization: { _id: unknown; name: string } | null }>("organization", "name")
+            .sort({ createdAt: -1 });
+
+        return tokens.map((token) => ({
+            id: token._id.toString(),
+            name: token.name,
+            tokenPrefix: token.tokenPrefix,
+            scopes: token.scopes,
+            organization: token.organization?.name,
+            expiresAt: token.expiresAt.toISOString(),
+            lastUsedAt: token.lastUsedAt?.toISOString(),
+            createdAt: token.createdAt.toISOString(),
+        }));
+    }),
+
+    // The returned token is only ever shown here
+    create: protectedProcedure
+        .use(audit(ApiToken))
+        .input(
+            z.object({
+                name: z.string().min(1).max(100),
+                scopes: z
+                    .array(z.string())
+                    .min(1)
+                    .refine((scopes) => scopes.every(isPermission), { message: "Unknown permission" }),
+                expiresInDays: z.number().int().min(1).max(MAX_TOKEN_LIFETIME_DAYS),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const { token, hash, prefix } = generateApiToken();
+
+            const apiToken = await new ApiToken({
+                user: context.user.userId,
+                name: input.name,
+                tokenHash: hash,
+                tokenPrefix: prefix,
+                scopes: [...new Set(input.scopes)],
+                organization: context.user.organizationId,
+                expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+            }).save();
+
+            return {
+                id: apiToken._id.toString(),
+                name: apiToken.name,
+                token,
+                expiresAt: apiToken.expiresAt.toISOString(),
+            };
+        }),
+
+    revoke: protectedProcedure
+        .use(audit(ApiToken))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input, context }) => {
+            const result = await ApiToken.deleteOne({ _id: input.id, user: context.user.userId });
+            if (result.deletedCount === 0) {
+                throw notFound("API token", input.id);
+            }
+            return { success: true };
+        }),
+};
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Asset } from "../models/index.js";
+import { BUILT_IN_ROLES, loadAccess } from "../lib/permissions.js";
+import { accessWith, contextFor, member, objectId, query } from "../test/helpers.js";
+import { assetsRouter } from "./assets.js";
+
+vi.mock("../lib/permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../lib/permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+const user = member();
+const context = contextFor(user);
+
+const othersAsset = new Asset({ name: "Not mine", createdBy: objectId() });
+// Assigned to the caller, who may update but not delete it
+const assignedAsset = new Asset({ name: "Lent to me", createdBy: objectId(), assignedTo: user.userId });
+
+describe("assets router ownership", () => {
+    beforeEach(() => {
+        vi.mocked(loadAccess).mockResolvedValue(accessWith([...BUILT_IN_ROLES.member, "assets:delete"]));
+        vi.spyOn(Asset, "findById").mockImplementation(((id: string) =>
+            query([othersAsset, assignedAsset].find((a) => a._id.equals(id)) ?? null)) as never);
+        vi.spyOn(Asset, "findByIdAndUpdate").mockReturnValue(query(null) as never);
+        vi.spyOn(Asset, "updateMany").mockReturnValue(query({ modifiedCount: 0 }) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("refuses to update someone else's asset", async () => {
+        await expect(call(assetsRouter.update, { id: othersAsset._id.toString(), data: { name: "Mine now" } }, { context }))
+            .rejects.toMatchObject({ code: "FORBIDDEN" });
+        expect(Asset.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("refuses to delete an asset the caller did not create", async () => {
+        for (const asset of [othersAsset, assignedAsset]) {
+            await expect(call(assetsRouter.delete, { id: asset._id.toString() }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+        }
+        expect(Asset.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("lets the assignee update", async () => {
+        await expect(call(assetsRouter.update, { id: assignedAsset._id.toString(), data: { name: "Renamed" } }, { context }))
+            .rejects.toMatchObject({ code: "NOT_FOUND" });
+        expect(Asset.findByIdAndUpdate).toHaveBeenCalled();
+    });
+});
@@ -1,6 +1,9 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
+import { audit, authorized } from "../orpc.js";
 import { Asset } from "../models/Asset.js";
+import { notFound } from "../lib/errors.js";
+import { assertAllowed, canDeleteAsset, canUpdateAsset } from "../lib/ownership.js";
+import { moveToTrash } from "../lib/trash.js";
 
 const assetSchema = z.object({
     name: z.string().min(1),
@@ -16,7 +19,7 @@ const assetSchema = z.object({
 });
 
 export const assetsRouter = {
-    list: protectedProcedure
+    list: authorized("assets:read")
         .input(
             z.object({
                 category: z.string().optional(),
@@ -58,14 +61,14 @@ export const assetsRouter = {
             }));
         }),
 
-    get: protectedProcedure
+    get: authorized("assets:read")
         .input(z.object({ id: z.string() }))
         .handler(async ({ input }) => {
             const asset = await Asset.findById(input.id)
                 .populate("assignedTo", "name email avatar")
                 .populate("createdBy", "name email");
 
-            if (!asset) throw new Error("Asset not found");
+            if (!asset) throw notFound("Asset");
 
             return {
                 id: asset._id.toString(),
@@ -83,7 +86,8 @@ export const assetsRouter = {
             };
         }),
 
-    create: protectedProcedure
+    create: authorized("assets:create")
+        .use(audit(Asset))
         .input(assetSchema)
         .handler(async ({ input, context }) => {
             const newAsset = new Asset({
@@ -108,14 +112,19 @@ export const assetsRouter = {
             };
         }),
 
-    update: protectedProcedure
+    update: authorized("assets:update")
+        .use(audit(Asset))
         .input(
             z.object({
                 id: z.string(),
                 data: assetSchema.partial(),
             })
         )
-        .handler(async ({ input }) => {
+        .handler(async ({ input, context }) => {
+            const existing = await Asset.findById(input.id);
+            if (!existing) throw notFound("Asset");
+            assertAllowed(canUpdateAsset(context, existing), "Only the asset's creator or assignee can update it");
+
             const updateData: Record<string, unknown> = { ...input.data };
             if (input.data.purchasedDate !== undefined) {
                 updateData["purchasedDate"] = input.data.purchasedDate ? new Date(input.data.purchasedDate) : null;
@@ -125,7 +134,7 @@ export const assetsRouter = {
             }
 
             const asset = await Asset.findByIdAndUpdate(input.id, { $set: updateData }, { new: true });
-            if (!asset) throw new Error("Asset not found");
+            if (!asset) throw notFound("Asset");
 
             return {
                 id: asset._id.toString(),
@@ -133,15 +142,19 @@ export const assetsRouter = {
             };
         }),
 
-    delete: protectedProcedure
+    delete: authorized("assets:delete")
+        .use(audit(Asset))
         .input(z.object({ id: z.string() }))
-        .handler(async ({ input }) => {
-            const asset = await Asset.findByIdAndDelete(input.id);
-            if (!asset) throw new Error("Asset not found");
+        .handler(async ({ input, context }) => {
+            const asset = await Asset.findById(input.id);
+            if (!asset) throw notFound("Asset");
+            assertAllowed(canDeleteAsset(context, asset), "Only the asset's creator can delete it");
+
+            await moveToTrash("assets", asset, context.user.userId);
             return { success: true };
         }),
 
-    getLowStock: protectedProcedure
+    getLowStock: authorized("assets:read")
         .handler(async () => {
             // Find assets where quantity is less than or equal to minQuantity
             const assets = await Asset.find({ $expr: { $lte: ["$quantity", "$minQuantity"] } })
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { Types } from "mongoose";
+import { adminProcedure, deploymentAdminProcedure } from "../orpc.js";
+import { AuditLog } from "../models/index.js";
+import { invalid } from "../lib/errors.js";
+import { runInOrganization } from "../db/tenancy.js";
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const listSchema = z.object({
+    actor: z.string().optional(),
+    resource: z.string().optional(),
+    path: z.string().optional(),
+    targetId: z.string().optional(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    page: z.number().int().min(1).default(1),
+    pageSize: z.number().int().min(1).max(100).default(25),
+});
+
+// Entries of the organization the queries are scoped to, newest first
+async function listEntries(input: z.infer<typeof listSchema>) {
+    const query: Record<string, unknown> = {};
+
+    if (input.actor) {
+        if (!Types.ObjectId.isValid(input.actor)) {
+            throw invalid("Invalid actor id");
+        }
+        query["actor"] = input.actor;
+    }
+    if (input.path) {
+        query["path"] = input.path;
+    } else if (input.resource) {
+        query["path"] = new RegExp(`^${escapeRegex(input.resource)}\\.`);
+    }
+    if (input.targetId) query["targetId"] = input.targetId;
+
+    if (input.from || input.to) {
+        const createdAt: Record<string, Date> = {};
+        if (input.from) createdAt["$gte"] = new Date(input.from);
+        if (input.to) createdAt["$lte"] = new Date(input.to);
+        query["createdAt"] = createdAt;
+    }
+
+    const [entries, total] = await Promise.all([
+        AuditLog.find(query)
+            .populate("actor", "name email")
+            .sort({ createdAt: -1 })
+            .skip((input.page - 1) * input.pageSize)
+            .limit(input.pageSize),
+        AuditLog.countDocuments(query),
+    ]);
+
+    return {
+        items: entries.map((entry) => ({
+            id: entry._id.toString(),
+            actor: entry.actor,
+            viaApiToken: entry.viaApiToken,
+            path: entry.path,
+            targetId: entry.targetId,
+            changes: entry.changes.map((change) => ({
+                field: change.field,
+                before: change.before,
+                after: change.after,
+            })),
+            createdAt: entry.createdAt.toISOString(),
+        })),
+        total,
+        page: input.page,
+        pageSize: input.pageSize,
+    };
+}
+
+export const auditRouter = {
+    // Newest first; `resource` matches the first part of the procedure path, e.g. "rooms"
+    list: adminProcedure
+        .input(listSchema)
+        .handler(({ input }) => listEntries(input)),
+
+    // Entries of users outside any organization, such as sign-ups deleting their account before
+    // verifying it; these belong to no organization's log
+    deployment: deploymentAdminProcedure
+        .input(listSchema)
+        .handler(({ input }) => runInOrganization(null, () => listEntries(input))),
+};
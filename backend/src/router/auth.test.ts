@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Organization, RefreshToken, User } from "../models/index.js";
+import { contextFor, member, objectId, query } from "../test/helpers.js";
+import { authRouter } from "./auth.js";
+
+const user = member();
+const context = contextFor(user);
+const organization = new Organization({ name: "Elsewhere", members: [{ user: user.userId, role: "member" }] });
+
+describe("auth.switchOrganization", () => {
+    beforeEach(() => {
+        vi.spyOn(User, "findById").mockReturnValue(query(new User({ _id: user.userId, email: user.email })) as never);
+        vi.spyOn(Organization, "findById").mockReturnValue(query(organization) as never);
+        vi.spyOn(RefreshToken, "findOneAndUpdate").mockReturnValue(query(null) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("refuses to move a session that belongs to someone else", async () => {
+        const othersToken = new RefreshToken({
+            user: objectId(),
+            tokenHash: "hash",
+            family: objectId(),
+            expiresAt: new Date(Date.now() + 60_000),
+        });
+        vi.spyOn(RefreshToken, "findOne").mockReturnValue(query(othersToken) as never);
+
+        await expect(call(authRouter.switchOrganization, {
+            organizationId: organization._id.toString(),
+            refreshToken: "someone-elses-token",
+        }, { context })).rejects.toMatchObject({ code: "FORBIDDEN" });
+        // Their session is left alone
+        expect(RefreshToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+});
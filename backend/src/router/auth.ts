@@ -1,7 +1,32 @@
 import { z } from "zod";
-import { publicProcedure, protectedProcedure } from "../orpc.js";
-import { User } from "../models/index.js";
-import { generateToken } from "../middleware/auth.js";
+import { audit, deploymentAdminProcedure, publicProcedure, protectedProcedure } from "../orpc.js";
+import { Organization, User, type IUser } from "../models/index.js";
+import { conflict, forbidden, invalid, notFound, unauthorized } from "../lib/errors.js";
+import { generateChallengeToken, verifyChallengeToken } from "../middleware/auth.js";
+import { issueSession, revokeAllSessions, revokeSession, rotateSession, userAgentOf } from "../lib/sessions.js";
+import { consumeAccountToken, sendPasswordResetEmail, sendVerificationEmail } from "../lib/account-tokens.js";
+import { deleteAccount } from "../lib/account-deletion.js";
+import {
+    assertLoginAllowed,
+    assertPasswordResetAllowed,
+    clientIpOf,
+    listLockouts,
+    recordLoginFailure,
+    recordLoginSuccess,
+    recordPasswordResetRequest,
+    unlockLogin,
+} from "../lib/login-throttle.js";
+import {
+    beginEnrollment,
+    completeEnrollment,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    twoFactorMandatory,
+    verifySecondFactor,
+} from "../lib/two-factor.js";
+import { completeSsoLogin, ssoEnabled, ssoProviderName, startSsoLogin } from "../lib/sso.js";
+import { acceptInvitation, findInvitation, joinInvitedOrganization } from "../lib/invitations.js";
+import { joinDefaultOrganization, organizationRole, resolveOrganization } from "../lib/organizations.js";
 
 // Validation schemas
 const signupSchema = z.object({
@@ -15,13 +40,60 @@ const loginSchema = z.object({
     password: z.string(),
 });
 
+// `role` is the user's role in the organization the session works in
+function profileOf(user: IUser, role: IUser["role"] = user.role) {
+    return {
+        id: user._id.toString(),
+        email: user.email,
+        name: user.name,
+        role,
+        avatar: user.avatar,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactor.enabled,
+        // Admin of the whole deployment, beyond `role` in the active organization
+        deploymentAdmin: user.role === "admin",
+    };
+}
+
+// The user whose password was accepted by `login`, from the challenge it handed out
+async function challengedUser(challenge: string): Promise<IUser> {
+    const userId = verifyChallengeToken(challenge);
+    const user = userId ? await User.findOne({ _id: userId, deletedAt: null }) : null;
+    if (!user) {
+        throw unauthorized("Sign-in has expired, please enter your password again");
+    }
+    if (user.deactivatedAt) {
+        throw forbidden("This account has been deactivated");
+    }
+    return user;
+}
+
+// Enrollment works for signed-in users and, through a challenge, for accounts that must
+// set up two-factor before they are allowed a session
+async function enrollingUser(userId: string | undefined, challenge: string | undefined): Promise<IUser> {
+    if (challenge) {
+        return challengedUser(challenge);
+    }
+    if (!userId) {
+        throw unauthorized();
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+        throw notFound("User");
+    }
+    return user;
+}
+
+const codeSchema = z.string().min(1).max(32);
+
 export const authRouter = {
     signup: publicProcedure
         .input(signupSchema)
-        .handler(async ({ input }) => {
+        .handler(async ({ input, context }) => {
             const existingUser = await User.findOne({ email: input.email });
             if (existingUser) {
-                throw new Error("Email already registered");
+                throw conflict("Email already registered");
             }
 
             const user = await User.create({
@@ -29,71 +101,205 @@ export const authRouter = {
                 password: input.password,
                 name: input.name,
             });
+            // The session works in no organization until the address is verified (see `verifyEmail`)
 
-            const token = generateToken({
-                userId: user._id.toString(),
-                email: user.email,
-                role: user.role,
-            });
+            try {
+                await sendVerificationEmail(user);
+            } catch (error) {
+                // The user can ask for a new link later - don't fail the signup over it
+                console.error("Failed to send verification email:", error);
+            }
+
+            const tokens = await issueSession(user, userAgentOf(context.req));
 
             return {
-                user: {
-                    id: user._id.toString(),
-                    email: user.email,
-                    name: user.name,
-                    role: user.role,
-                },
-                token,
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
             };
         }),
 
     login: publicProcedure
         .input(loginSchema)
-        .handler(async ({ input }) => {
+        .handler(async ({ input, context }) => {
+            const ip = clientIpOf(context.req);
+            await assertLoginAllowed(input.email, ip);
+
             const user = await User.findOne({ email: input.email });
-            if (!user) {
-                throw new Error("Invalid email or password");
+            const isValid = user ? await user.comparePassword(input.password) : false;
+            if (!user || !isValid) {
+                await recordLoginFailure(input.email, ip);
+                throw unauthorized("Invalid email or password");
+            }
+            if (user.deactivatedAt) {
+                throw forbidden("This account has been deactivated");
             }
 
-            const isValid = await user.comparePassword(input.password);
-            if (!isValid) {
-                throw new Error("Invalid email or password");
+            // Password accepted - the session is only handed out after the second factor
+            if (user.twoFactor.enabled) {
+                return { twoFactorRequired: true as const, challenge: generateChallengeToken(user._id.toString()) };
+            }
+            if (await twoFactorMandatory(user)) {
+                return { twoFactorSetupRequired: true as const, challenge: generateChallengeToken(user._id.toString()) };
             }
 
-            const token = generateToken({
-                userId: user._id.toString(),
-                email: user.email,
-                role: user.role,
-            });
+            await recordLoginSuccess(input.email);
+            const tokens = await issueSession(user, userAgentOf(context.req));
 
             return {
-                user: {
-                    id: user._id.toString(),
-                    email: user.email,
-                    name: user.name,
-                    role: user.role,
-                    avatar: user.avatar,
-                },
-                token,
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
             };
         }),
 
+    // Second step of `login`: an authenticator or recovery code for the challenge it returned
+    verifyTwoFactor: publicProcedure
+        .input(z.object({ challenge: z.string().min(1), code: codeSchema }))
+        .handler(async ({ input, context }) => {
+            const user = await challengedUser(input.challenge);
+            const ip = clientIpOf(context.req);
+            await assertLoginAllowed(user.email, ip);
+
+            if (!(await verifySecondFactor(user, input.code))) {
+                await recordLoginFailure(user.email, ip);
+                throw invalid("Invalid authentication code");
+            }
+
+            await recordLoginSuccess(user.email);
+            const tokens = await issueSession(user, userAgentOf(context.req));
+
+            return {
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
+            };
+        }),
+
+    // Who an invitation is for, so the accept page can show it before the account is created
+    invitation: publicProcedure
+        .input(z.object({ token: z.string().min(1) }))
+        .handler(async ({ input }) => {
+            const invitation = await findInvitation(input.token);
+            const [organization, existingAccount] = await Promise.all([
+                Organization.findById(invitation.organization).select("name"),
+                User.exists({ email: invitation.email, deletedAt: null }),
+            ]);
+            return {
+                email: invitation.email,
+                name: invitation.name,
+                organization: organization?.name,
+                // Existing accounts join with `joinOrganization` instead of creating an account
+                existingAccount: Boolean(existingAccount),
+            };
+        }),
+
+    acceptInvitation: publicProcedure
+        .input(z.object({ token: z.string().min(1), name: z.string().min(2), password: z.string().min(6) }))
+        .handler(async ({ input, context }) => {
+            const user = await acceptInvitation(input.token, input.name, input.password);
+            const tokens = await issueSession(user, userAgentOf(context.req));
+
+            return {
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
+            };
+        }),
+
+    // Adds the existing account an invitation was mailed to; it signs in as usual afterwards
+    joinOrganization: publicProcedure
+        .input(z.object({ token: z.string().min(1) }))
+        .handler(async ({ input }) => {
+            const organization = await joinInvitedOrganization(input.token);
+            return { organization: { id: organization._id.toString(), name: organization.name } };
+        }),
+
+    // Tells the login page whether to offer single sign-on
+    ssoConfig: publicProcedure.handler(() => ({
+        enabled: ssoEnabled(),
+        name: ssoProviderName(),
+    })),
+
+    // First step of single sign-on: the browser keeps `transaction` and is sent to `url`
+    ssoStart: publicProcedure.handler(async () => startSsoLogin()),
+
+    // Finishes single sign-on with the query string the provider redirected back with
+    ssoCallback: publicProcedure
+        .input(z.object({ query: z.string().min(1), transaction: z.string().min(1) }))
+        .handler(async ({ input, context }) => {
+            const user = await completeSsoLogin(input.query, input.transaction);
+            const tokens = await issueSession(user, userAgentOf(context.req));
+
+            return {
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
+            };
+        }),
+
+    // Trades a refresh token for a new access token and refresh token (the old one stops working)
+    refresh: publicProcedure
+        .input(z.object({ refreshToken: z.string().min(1) }))
+        .handler(async ({ input, context }) => {
+            const { user, tokens } = await rotateSession(input.refreshToken, userAgentOf(context.req));
+
+            // Sessions that predate the two-factor policy end here; signing in again enrolls them
+            if (!user.twoFactor.enabled && await twoFactorMandatory(user)) {
+                await revokeSession(tokens.refreshToken);
+                throw unauthorized("Two-factor authentication is required, please sign in again");
+            }
+
+            return {
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
+            };
+        }),
+
+    // Moves the session to another organization; the refresh token is exchanged like in `refresh`
+    switchOrganization: protectedProcedure
+        .input(z.object({ organizationId: z.string(), refreshToken: z.string().min(1) }))
+        .handler(async ({ input, context }) => {
+            const user = await User.findById(context.user.userId);
+            if (!user) {
+                throw notFound("User");
+            }
+            if (!(await organizationRole(user, input.organizationId))) {
+                throw notFound("Organization", input.organizationId);
+            }
+
+            const { tokens } = await rotateSession(input.refreshToken, userAgentOf(context.req), {
+                userId: context.user.userId,
+                organizationId: input.organizationId,
+            });
+            return {
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
+            };
+        }),
+
+    // Public so that clients whose access token already expired can still end their session
+    logout: publicProcedure
+        .input(z.object({ refreshToken: z.string().min(1) }))
+        .handler(async ({ input }) => {
+            await revokeSession(input.refreshToken);
+            return { success: true };
+        }),
+
+    // Signs the current user out on every device
+    logoutAll: protectedProcedure
+        .use(audit())
+        .handler(async ({ context }) => {
+            const revoked = await revokeAllSessions(context.user.userId);
+            return { success: true, revoked };
+        }),
+
     me: protectedProcedure.handler(async ({ context }) => {
         const user = await User.findById(context.user.userId);
         if (!user) {
-            throw new Error("User not found");
+            throw notFound("User");
         }
 
-        return {
-            id: user._id.toString(),
-            email: user.email,
-            name: user.name,
-            role: user.role,
-            avatar: user.avatar,
-        };
+        return profileOf(user, context.user.role);
     }),
 
     updateProfile: protectedProcedure
+        .use(audit())
         .input(
             z.object({
                 name: z.string().min(2).optional(),
@@ -108,15 +314,222 @@ export const authRouter = {
             );
 
             if (!user) {
-                throw new Error("User not found");
+                throw notFound("User");
+            }
+
+            return profileOf(user, context.user.role);
+        }),
+
+    // Answers the same whether or not the address has an account, so it does not reveal which ones do
+    requestPasswordReset: publicProcedure
+        .input(z.object({ email: z.string().email() }))
+        .handler(async ({ input, context }) => {
+            const ip = clientIpOf(context.req);
+            await assertPasswordResetAllowed(input.email, ip);
+            await recordPasswordResetRequest(input.email, ip);
+
+            const user = await User.findOne({ email: input.email.toLowerCase() });
+            if (user) {
+                try {
+                    await sendPasswordResetEmail(user);
+                } catch (error) {
+                    // Failing here only for existing accounts would give them away
+                    console.error("Failed to send password reset email:", error);
+                }
+            }
+            return { success: true };
+        }),
+
+    resetPassword: publicProcedure
+        .input(z.object({ token: z.string().min(1), password: z.string().min(6) }))
+        .handler(async ({ input }) => {
+            const userId = await consumeAccountToken(input.token, "password-reset");
+            const user = await User.findById(userId);
+            if (!user) {
+                throw notFound("User");
             }
 
+            user.password = input.password;
+            // Receiving the reset mail proves the address belongs to the user
+            user.emailVerified = true;
+            await user.save();
+            // Like `verifyEmail`, a confirmed self sign-up joins the default organization
+            if (!(await resolveOrganization(user))) {
+                await joinDefaultOrganization(user);
+            }
+
+            // Existing sessions may belong to whoever knew the old password
+            await revokeAllSessions(user._id.toString());
+            return { success: true };
+        }),
+
+    verifyEmail: publicProcedure
+        .input(z.object({ token: z.string().min(1) }))
+        .handler(async ({ input }) => {
+            const userId = await consumeAccountToken(input.token, "email-verification");
+            const user = await User.findByIdAndUpdate(userId, { $set: { emailVerified: true } }, { new: true });
+            if (!user) {
+                throw notFound("User");
+            }
+            // Self sign-ups join the default organization once their address is confirmed
+            if (!(await resolveOrganization(user))) {
+                await joinDefaultOrganization(user);
+            }
+            return { success: true, email: user.email };
+        }),
+
+    resendVerification: protectedProcedure.handler(async ({ context }) => {
+        const user = await User.findById(context.user.userId);
+        if (!user) {
+            throw notFound("User");
+        }
+        if (user.emailVerified) {
+            throw conflict("Email address is already verified");
+        }
+
+        await sendVerificationEmail(user);
+        return { success: true };
+    }),
+
+    // Signs out every other device; the returned tokens keep the current one signed in
+    changePassword: protectedProcedure
+        .use(audit())
+        .input(z.object({ currentPassword: z.string(), newPassword: z.string().min(6) }))
+        .handler(async ({ input, context }) => {
+            const user = await User.findById(context.user.userId);
+            if (!user) {
+                throw notFound("User");
+            }
+
+            const isValid = await user.comparePassword(input.currentPassword);
+            if (!isValid) {
+                throw invalid("Current password is incorrect");
+            }
+
+            user.password = input.newPassword;
+            await user.save();
+
+            await revokeAllSessions(user._id.toString());
+            return await issueSession(user, userAgentOf(context.req));
+        }),
+
+    deleteAccount: protectedProcedure
+        .use(audit())
+        .input(
+            z.object({
+                password: z.string(),
+                // Who takes over the user's teams, tasks, events and bookings
+                transferTo: z.string().optional(),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const user = await User.findOne({ _id: context.user.userId, deletedAt: null });
+            if (!user) {
+                throw notFound("User");
+            }
+
+            const isValid = await user.comparePassword(input.password);
+            if (!isValid) {
+                throw invalid("Password is incorrect");
+            }
+
+            const result = await deleteAccount(user, { transferTo: input.transferTo });
+            return { success: true, ...result };
+        }),
+
+    // Starts TOTP enrollment; `uri` is the otpauth:// provisioning URI to show as a QR code
+    setupTwoFactor: publicProcedure
+        .input(z.object({ challenge: z.string().optional() }).optional())
+        .handler(async ({ input, context }) => {
+            const user = await enrollingUser(context.user?.userId, input?.challenge);
+            return await beginEnrollment(user);
+        }),
+
+    // Confirms enrollment with a code from the app. With a challenge this also completes the sign-in.
+    enableTwoFactor: publicProcedure
+        .input(z.object({ code: codeSchema, challenge: z.string().optional() }))
+        .handler(async ({ input, context }) => {
+            const user = await enrollingUser(context.user?.userId, input.challenge);
+            const recoveryCodes = await completeEnrollment(user, input.code);
+
+            if (!input.challenge) {
+                return { recoveryCodes };
+            }
+
+            await recordLoginSuccess(user.email);
+            const tokens = await issueSession(user, userAgentOf(context.req));
+
             return {
-                id: user._id.toString(),
-                email: user.email,
-                name: user.name,
-                role: user.role,
-                avatar: user.avatar,
+                recoveryCodes,
+                user: profileOf(user, tokens.organization?.role),
+                ...tokens,
             };
         }),
+
+    disableTwoFactor: protectedProcedure
+        .use(audit())
+        .input(z.object({ password: z.string(), code: codeSchema }))
+        .handler(async ({ input, context }) => {
+            const user = await User.findById(context.user.userId);
+            if (!user) {
+                throw notFound("User");
+            }
+
+            const isValid = await user.comparePassword(input.password);
+            if (!isValid) {
+                throw invalid("Password is incorrect");
+            }
+            if (!(await verifySecondFactor(user, input.code))) {
+                throw invalid("Invalid authentication code");
+            }
+
+            await disableTwoFactor(user);
+            return { success: true };
+        }),
+
+    regenerateRecoveryCodes: protectedProcedure
+        .use(audit())
+        .input(z.object({ code: codeSchema }))
+        .handler(async ({ input, context }) => {
+            const user = await User.findById(context.user.userId);
+            if (!user) {
+                throw notFound("User");
+            }
+            if (!(await verifySecondFactor(user, input.code))) {
+                throw invalid("Invalid authentication code");
+            }
+
+            return { recoveryCodes: await regenerateRecoveryCodes(user) };
+        }),
+
+    // Accounts and client addresses currently locked out after repeated failed sign-ins
+    lockouts: deploymentAdminProcedure.handler(async () => {
+        const lockouts = await listLockouts();
+
+        return lockouts.map((l) => ({
+            kind: l.kind,
+            subject: l.subject,
+            failures: l.failures,
+            lastFailureAt: l.lastFailureAt.toISOString(),
+            lockedUntil: l.lockedUntil!.toISOString(),
+        }));
+    }),
+
+    // Lifts a lockout early and resets its failure count
+    unlockLogin: deploymentAdminProcedure
+        .use(audit(undefined, "subject"))
+        .input(
+            z.object({
+                kind: z.enum(["account", "ip"]).default("account"),
+                // Email address for accounts, client address for "ip"
+                subject: z.string().min(1),
+            })
+        )
+        .handler(async ({ input }) => {
+            const unlocked = await unlockLogin(input.kind, input.subject);
+            if (!unlocked) {
+                throw notFound("Lockout", input.subject);
+            }
+            return { success: true };
+        }),
 };
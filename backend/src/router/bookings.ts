@@ -1,9 +1,179 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
-import { Booking, Room } from "../models/index.js";
+import { Types } from "mongoose";
+import { accessProcedure, audit, authorized } from "../orpc.js";
+import { Booking, Room, User, type IBooking, type IRoom } from "../models/index.js";
+import { conflict, forbidden, invalid, notFound } from "../lib/errors.js";
+import type { JWTPayload } from "../middleware/auth.js";
+import { notify } from "../lib/alerts.js";
+import { memberIds } from "../lib/organizations.js";
+import type { Access } from "../lib/permissions.js";
+import {
+    isBoundedRecurrence,
+    isValidRecurrence,
+    listOccurrences,
+    normalizeRecurrence,
+} from "../lib/recurrence.js";
+
+// Upper bound on how many bookings a single series may create
+const MAX_SERIES_OCCURRENCES = 100;
+
+// Bookings in these states no longer hold on to their time slot
+const RELEASED_STATUSES = ["cancelled", "rejected"];
+
+const seriesSchema = z.object({
+    roomId: z.string(),
+    startTime: z.string().datetime(),
+    endTime: z.string().datetime(),
+    recurrence: z
+        .string()
+        .refine(isValidRecurrence, { message: "Invalid RFC 5545 recurrence rule" })
+        .refine(isBoundedRecurrence, { message: "Recurring bookings need a COUNT or UNTIL" })
+        .transform(normalizeRecurrence),
+});
+
+function canApprove(room: IRoom, user: JWTPayload, access: Access): boolean {
+    return access.can("bookings:approve") || room.approvers.some((a) => a.toString() === user.userId);
+}
+
+// Room approvers, falling back to the organization's admins when a room has none assigned
+async function approverIds(room: IRoom) {
+    if (room.approvers.length > 0) {
+        return room.approvers;
+    }
+    const admins = await User.find({ _id: { $in: await memberIds("admin") }, deletedAt: null }).select("_id");
+    return admins.map((a) => a._id);
+}
+
+const decisionSchema = z.object({
+    id: z.string(),
+    reason: z.string().optional(),
+    // Apply the decision to every pending occurrence of the booking's series
+    series: z.boolean().default(false),
+});
+
+async function decide(
+    input: z.infer<typeof decisionSchema>,
+    user: JWTPayload,
+    access: Access,
+    status: "confirmed" | "rejected"
+) {
+    const booking = await Booking.findById(input.id);
+    if (!booking) {
+        throw notFound("Booking");
+    }
+    if (booking.status !== "pending") {
+        throw conflict("Booking is not awaiting approval");
+    }
+
+    const room = await Room.findById(booking.room);
+    if (!room) {
+        throw notFound("Room");
+    }
+    if (!canApprove(room, user, access)) {
+        throw forbidden("Only the room's approvers can decide on this booking");
+    }
+
+    const filter = input.series && booking.seriesId
+        ? { seriesId: booking.seriesId, status: "pending" }
+        : { _id: booking._id };
+
+    const result = await Booking.updateMany(filter, {
+        $set: {
+            status,
+            decidedBy: user.userId,
+            decidedAt: new Date(),
+            decisionReason: input.reason,
+        },
+    });
+
+    const verdict = status === "confirmed" ? "approved" : "rejected";
+    const scope = result.modifiedCount > 1 ? ` (${result.modifiedCount} occurrences)` : "";
+    await notify({
+        title: `Booking ${verdict}`,
+        message: `Your booking "${booking.title}" for ${room.name}${scope} was ${verdict}`
+            + (input.reason ? `: ${input.reason}` : ""),
+        type: status === "confirmed" ? "success" : "warning",
+        targetUsers: [booking.organizer],
+        metadata: {
+            bookingId: booking._id.toString(),
+            seriesId: booking.seriesId?.toString(),
+            roomId: room._id.toString(),
+            reason: input.reason,
+        },
+    });
+
+    return { success: true, updated: result.modifiedCount };
+}
+
+async function requestApproval(
+    room: IRoom,
+    booking: Pick<IBooking, "_id" | "title" | "startTime" | "seriesId">,
+    occurrences = 1
+) {
+    await notify({
+        title: "Booking awaiting approval",
+        message: occurrences > 1
+            ? `"${booking.title}" requests ${room.name} for ${occurrences} occurrences starting ${booking.startTime.toISOString()}`
+            : `"${booking.title}" requests ${room.name} on ${booking.startTime.toISOString()}`,
+        targetUsers: await approverIds(room),
+        metadata: { bookingId: booking._id.toString(), seriesId: booking.seriesId?.toString(), roomId: room._id.toString() },
+    });
+}
+
+// Expands a booking series and checks every occurrence against the room's existing bookings
+async function planSeries(input: z.infer<typeof seriesSchema>) {
+    const room = await Room.findById(input.roomId);
+    if (!room) {
+        throw notFound("Room");
+    }
+
+    const start = new Date(input.startTime);
+    const duration = new Date(input.endTime).getTime() - start.getTime();
+    if (duration <= 0) {
+        throw invalid("End time must be after start time");
+    }
+    const starts = listOccurrences(input.recurrence, start, MAX_SERIES_OCCURRENCES + 1);
+
+    if (starts.length > MAX_SERIES_OCCURRENCES) {
+        throw invalid(`A recurring booking cannot have more than ${MAX_SERIES_OCCURRENCES} occurrences`);
+    }
+    if (starts.length === 0) {
+        throw invalid("Recurrence rule produces no occurrences");
+    }
+
+    const lastEnd = new Date(starts[starts.length - 1]!.getTime() + duration);
+    const existing = await Booking.find({
+        room: input.roomId,
+        status: { $nin: RELEASED_STATUSES },
+        startTime: { $lt: lastEnd },
+        endTime: { $gt: start },
+    }).select("title startTime endTime organizer");
+
+    const occurrences = starts.map((occurrenceStart) => {
+        const occurrenceEnd = new Date(occurrenceStart.getTime() + duration);
+        const conflict = existing.find(
+            (b) => b.startTime < occurrenceEnd && b.endTime > occurrenceStart
+        );
+
+        return {
+            startTime: occurrenceStart,
+            endTime: occurrenceEnd,
+            conflict: conflict
+                ? {
+                    id: conflict._id.toString(),
+                    title: conflict.title,
+                    startTime: conflict.startTime.toISOString(),
+                    endTime: conflict.endTime.toISOString(),
+                }
+                : undefined,
+        };
+    });
+
+    return { room, occurrences };
+}
 
 export const bookingsRouter = {
-    list: protectedProcedure
+    list: authorized("bookings:read")
         .input(
             z.object({
                 roomId: z.string().optional(),
@@ -21,14 +191,16 @@ export const bookingsRouter = {
                 if (input.endDate) (query.startTime as any).$lte = new Date(input.endDate);
             }
 
+            // Past bookings keep showing rooms that have been deleted since
             return await Booking.find(query)
-                .populate("room")
+                .populate({ path: "room", options: { withTrashed: true } })
                 .populate("organizer", "name email")
                 .populate("attendees", "name email")
                 .sort({ startTime: 1 });
         }),
 
-    create: protectedProcedure
+    create: authorized("bookings:create")
+        .use(audit(Booking))
         .input(
             z.object({
                 title: z.string(),
@@ -46,32 +218,159 @@ export const bookingsRouter = {
             // Check if room exists
             const room = await Room.findById(input.roomId);
             if (!room) {
-                throw new Error("Room not found");
+                throw notFound("Room");
             }
 
             // Check for overlaps
             const overlap = await Booking.findOne({
                 room: input.roomId,
-                status: { $ne: "cancelled" },
+                status: { $nin: RELEASED_STATUSES },
                 $or: [
                     { startTime: { $lt: end }, endTime: { $gt: start } },
                 ],
             });
 
             if (overlap) {
-                throw new Error("Room is already booked for this time slot");
+                throw conflict("Room is already booked for this time slot", [{
+                    id: overlap._id.toString(),
+                    title: overlap.title,
+                    startTime: overlap.startTime.toISOString(),
+                    endTime: overlap.endTime.toISOString(),
+                }]);
             }
 
-            const booking = await Booking.create({
-                ...input,
+            const newBooking = new Booking({
+                title: input.title,
+                description: input.description,
+                room: input.roomId,
+                attendees: input.attendees,
+                startTime: start,
+                endTime: end,
                 organizer: context.user.userId,
-                status: "confirmed",
+                status: room.requiresApproval ? "pending" : "confirmed",
             });
 
+            const booking = await newBooking.save();
+
+            if (booking.status === "pending") {
+                await requestApproval(room, booking);
+            }
+
             return booking;
         }),
 
-    cancel: protectedProcedure
+    // Preview a recurring booking: every occurrence with the booking it clashes with, if any
+    checkSeries: authorized("bookings:create")
+        .input(seriesSchema)
+        .handler(async ({ input }) => {
+            const { occurrences } = await planSeries(input);
+
+            return {
+                total: occurrences.length,
+                conflictCount: occurrences.filter((o) => o.conflict).length,
+                occurrences: occurrences.map((o) => ({
+                    startTime: o.startTime.toISOString(),
+                    endTime: o.endTime.toISOString(),
+                    conflict: o.conflict,
+                })),
+            };
+        }),
+
+    createSeries: authorized("bookings:create")
+        .use(audit(undefined, "seriesId"))
+        .input(
+            seriesSchema.extend({
+                title: z.string(),
+                description: z.string().optional(),
+                attendees: z.array(z.string()).optional(),
+                // Book only the free occurrences instead of rejecting the whole series
+                skipConflicts: z.boolean().default(false),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const { room, occurrences } = await planSeries(input);
+            const conflicts = occurrences.filter((o) => o.conflict);
+            const free = occurrences.filter((o) => !o.conflict);
+
+            if (conflicts.length > 0 && !input.skipConflicts) {
+                const dates = conflicts.map((o) => o.startTime.toISOString()).join(", ");
+                throw conflict(
+                    `Room is already booked on ${conflicts.length} occurrence(s): ${dates}`,
+                    conflicts.map((o) => o.conflict!)
+                );
+            }
+
+            if (free.length === 0) {
+                throw conflict(
+                    "Every occurrence of this series conflicts with an existing booking",
+                    conflicts.map((o) => o.conflict!)
+                );
+            }
+
+            const seriesId = new Types.ObjectId();
+            const bookings = await Booking.insertMany(
+                free.map((o) => ({
+                    title: input.title,
+                    description: input.description,
+                    room: input.roomId,
+                    attendees: input.attendees,
+                    startTime: o.startTime,
+                    endTime: o.endTime,
+                    organizer: context.user.userId,
+                    status: room.requiresApproval ? "pending" : "confirmed",
+                    seriesId,
+                    recurrence: input.recurrence,
+                }))
+            );
+
+            if (room.requiresApproval) {
+                await requestApproval(room, bookings[0]!, bookings.length);
+            }
+
+            return {
+                seriesId: seriesId.toString(),
+                status: room.requiresApproval ? "pending" : "confirmed",
+                created: bookings.map((b) => ({
+                    id: b._id.toString(),
+                    startTime: b.startTime.toISOString(),
+                    endTime: b.endTime.toISOString(),
+                })),
+                skipped: conflicts.map((o) => ({
+                    startTime: o.startTime.toISOString(),
+                    endTime: o.endTime.toISOString(),
+                    conflict: o.conflict,
+                })),
+            };
+        }),
+
+    // Pending bookings on rooms the current user approves (every room with "bookings:approve")
+    pendingApprovals: accessProcedure.handler(async ({ context }) => {
+        const query: Record<string, unknown> = { status: "pending" };
+
+        if (!context.access.can("bookings:approve")) {
+            const rooms = await Room.find({ approvers: context.user.userId }).select("_id");
+            query["room"] = { $in: rooms.map((r) => r._id) };
+        }
+
+        return await Booking.find(query)
+            .populate("room")
+            .populate("organizer", "name email")
+            .populate("attendees", "name email")
+            .sort({ startTime: 1 });
+    }),
+
+    approve: accessProcedure
+        .use(audit(Booking))
+        .input(decisionSchema)
+        .handler(async ({ input, context }) => decide(input, context.user, context.access, "confirmed")),
+
+    reject: accessProcedure
+        .use(audit(Booking))
+        .input(decisionSchema.extend({ reason: z.string().min(1) }))
+        .handler(async ({ input, context }) => decide(input, context.user, context.access, "rejected")),
+
+    cancel: authorized("bookings:cancel")
+        .use(audit(Booking))
         .input(z.object({ id: z.string() }))
         .handler(async ({ input, context }) => {
             const booking = await Booking.findOne({
@@ -80,11 +379,33 @@ export const bookingsRouter = {
             });
 
             if (!booking) {
-                throw new Error("Booking not found or authorized");
+                throw notFound("Booking", input.id);
             }
 
             booking.status = "cancelled";
             await booking.save();
             return { success: true };
         }),
+
+    cancelSeries: authorized("bookings:cancel")
+        .use(audit(undefined, "seriesId"))
+        .input(z.object({ seriesId: z.string() }))
+        .handler(async ({ input, context }) => {
+            const series = { seriesId: input.seriesId, organizer: context.user.userId };
+            if (!await Booking.exists(series)) {
+                throw notFound("Booking series", input.seriesId);
+            }
+
+            // Past occurrences stay on record, only upcoming ones are called off
+            const result = await Booking.updateMany(
+                {
+                    ...series,
+                    status: { $in: ["pending", "confirmed"] },
+                    startTime: { $gt: new Date() },
+                },
+                { $set: { status: "cancelled" } }
+            );
+
+            return { success: true, cancelled: result.modifiedCount };
+        }),
 };
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { Types } from "mongoose";
+import { accessProcedure, audit } from "../orpc.js";
+import { Comment, type IComment } from "../models/index.js";
+import { forbidden, notFound } from "../lib/errors.js";
+import {
+    assertAuthor,
+    canModerate,
+    commentView,
+    loadTarget,
+    notifyMentions,
+    resolveMentions,
+} from "../lib/comments.js";
+
+const targetSchema = z.object({
+    targetType: z.enum(["task", "event", "booking"]),
+    targetId: z.string(),
+});
+
+const bodySchema = z.string().trim().min(1).max(10000);
+
+async function findComment(id: string) {
+    const comment = await Comment.findById(id);
+    if (!comment || comment.deletedAt) {
+        throw notFound("Comment", id);
+    }
+    return comment;
+}
+
+export const commentsRouter = {
+    // Oldest first, deleted comments included as placeholders
+    list: accessProcedure
+        .input(targetSchema)
+        .handler(async ({ input, context }) => {
+            const target = await loadTarget(context.access, input.targetType, input.targetId);
+            const comments = await Comment.find({ targetType: input.targetType, target: target._id })
+                .populate("author", "name email avatar")
+                .sort({ createdAt: 1 });
+            return comments.map(commentView);
+        }),
+
+    // Mentioned members ("@ada" or "@ada@example.com") get an alert
+    create: accessProcedure
+        .use(audit(Comment))
+        .input(targetSchema.extend({ body: bodySchema }))
+        .handler(async ({ input, context }) => {
+            const target = await loadTarget(context.access, input.targetType, input.targetId);
+            const mentioned = await resolveMentions(input.body, input.targetType, target);
+
+            const comment = await new Comment({
+                targetType: input.targetType,
+                target: target._id,
+                author: context.user.userId,
+                body: input.body,
+                mentions: mentioned.map((u) => u._id),
+            }).save();
+
+            await notifyMentions(comment, target, context.user, mentioned);
+            await comment.populate("author", "name email avatar");
+            return commentView(comment);
+        }),
+
+    // Keeps the previous body in the history; only members mentioned for the first time are alerted
+    update: accessProcedure
+        .use(audit(Comment))
+        .input(z.object({ id: z.string(), body: bodySchema }))
+        .handler(async ({ input, context }) => {
+            const comment = await findComment(input.id);
+            assertAuthor(context.user, comment);
+            const target = await loadTarget(context.access, comment.targetType, comment.target.toString());
+
+            if (comment.body === input.body) {
+                await comment.populate("author", "name email avatar");
+                return commentView(comment);
+            }
+
+            const previousMentions = comment.mentions;
+            const mentioned = await resolveMentions(input.body, comment.targetType, target);
+
+            const now = new Date();
+            comment.history.push({ body: comment.body, replacedAt: now });
+            comment.body = input.body;
+            comment.mentions = mentioned.map((u) => u._id);
+            comment.editedAt = now;
+            await comment.save();
+
+            await notifyMentions(comment, target, context.user, mentioned, previousMentions);
+            await comment.populate("author", "name email avatar");
+            return commentView(comment);
+        }),
+
+    // The author, or whoever moderates the target, can delete a comment; its text stays in the history
+    delete: accessProcedure
+        .use(audit(Comment))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input, context }) => {
+            const comment = await findComment(input.id);
+            const target = await loadTarget(context.access, comment.targetType, comment.target.toString());
+            if (!comment.author.equals(context.user.userId) && !canModerate(context.access, comment.targetType, target)) {
+                throw forbidden("Only the comment's author or a manager can delete it");
+            }
+
+            const now = new Date();
+            comment.history.push({ body: comment.body, replacedAt: now });
+            comment.body = "";
+            comment.mentions = [];
+            comment.deletedAt = now;
+            comment.deletedBy = new Types.ObjectId(context.user.userId);
+            await comment.save();
+
+            return { success: true };
+        }),
+
+    // Earlier versions of a comment, oldest first
+    history: accessProcedure
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input, context }) => {
+            const comment = await Comment.findById(input.id);
+            if (!comment) {
+                throw notFound("Comment", input.id);
+            }
+            const target = await loadTarget(context.access, comment.targetType, comment.target.toString());
+            // What a deleted comment said stays between its author and the moderators
+            if (
+                comment.deletedAt
+                && !comment.author.equals(context.user.userId)
+                && !canModerate(context.access, comment.targetType, target)
+            ) {
+                throw forbidden("Only the comment's author or a manager can see what a deleted comment said");
+            }
+
+            return comment.history.map((revision) => ({
+                body: revision.body,
+                replacedAt: revision.replacedAt.toISOString(),
+            }));
+        }),
+};
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Event, type IEvent } from "../models/index.js";
+import { BUILT_IN_ROLES, loadAccess } from "../lib/permissions.js";
+import { accessWith, contextFor, member, objectId, query } from "../test/helpers.js";
+import { eventsRouter } from "./events.js";
+
+vi.mock("../lib/permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../lib/permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+const user = member();
+const context = contextFor(user);
+
+// The third occurrence of both daily series
+const occurrenceStart = "2026-01-07T09:00:00.000Z";
+
+// Rebuilt for every test, as splitting and detaching change them in place
+let othersSeries: IEvent;
+let ownSeries: IEvent;
+
+function dailySeries(createdBy: unknown): IEvent {
+    return new Event({
+        title: "Stand-up",
+        start: new Date("2026-01-05T09:00:00Z"),
+        end: new Date("2026-01-05T09:15:00Z"),
+        recurrence: "FREQ=DAILY",
+        createdBy,
+    });
+}
+
+const idOf = (event: IEvent) => event._id.toString();
+
+describe("events router ownership", () => {
+    beforeEach(() => {
+        othersSeries = dailySeries(objectId());
+        ownSeries = dailySeries(user.userId);
+        const events = [othersSeries, ownSeries];
+
+        vi.mocked(loadAccess).mockResolvedValue(accessWith(BUILT_IN_ROLES.member));
+        vi.spyOn(Event, "findById").mockImplementation(((id: string) =>
+            query(events.find((e) => e._id.equals(id)) ?? null)) as never);
+        vi.spyOn(Event, "findByIdAndUpdate").mockImplementation(((id: string) =>
+            query(events.find((e) => e._id.equals(id)) ?? null)) as never);
+        vi.spyOn(Event, "find").mockReturnValue(query([]) as never);
+        vi.spyOn(Event, "updateMany").mockReturnValue(query({ modifiedCount: 0 }) as never);
+        vi.spyOn(Event, "create").mockImplementation((async (doc: object) => new Event(doc)) as never);
+        vi.spyOn(Event.prototype, "save").mockImplementation(async function (this: IEvent) {
+            return this;
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    for (const scope of ["series", "occurrence", "following"] as const) {
+        describe(`with scope "${scope}"`, () => {
+            it("refuses to update someone else's event", async () => {
+                await expect(call(eventsRouter.update, {
+                    id: idOf(othersSeries), data: { title: "Mine now" }, scope, occurrenceStart,
+                }, { context })).rejects.toMatchObject({ code: "FORBIDDEN" });
+                expect(Event.findByIdAndUpdate).not.toHaveBeenCalled();
+                expect(Event.create).not.toHaveBeenCalled();
+                expect(othersSeries.save).not.toHaveBeenCalled();
+            });
+
+            it("refuses to delete someone else's event", async () => {
+                await expect(call(eventsRouter.delete, { id: idOf(othersSeries), scope, occurrenceStart }, { context }))
+                    .rejects.toMatchObject({ code: "FORBIDDEN" });
+                expect(Event.updateMany).not.toHaveBeenCalled();
+                expect(othersSeries.save).not.toHaveBeenCalled();
+            });
+
+            it("lets the creator update their event", async () => {
+                await expect(call(eventsRouter.update, {
+                    id: idOf(ownSeries), data: { title: "Retro" }, scope, occurrenceStart,
+                }, { context })).resolves.toHaveProperty("id");
+                expect(Event.findByIdAndUpdate).toHaveBeenCalledTimes(scope === "series" ? 1 : 0);
+                expect(Event.create).toHaveBeenCalledTimes(scope === "series" ? 0 : 1);
+            });
+
+            it("lets the creator delete their event", async () => {
+                await expect(call(eventsRouter.delete, { id: idOf(ownSeries), scope, occurrenceStart }, { context }))
+                    .resolves.toEqual({ success: true });
+            });
+        });
+    }
+
+    it("detaches the occurrence the creator edits", async () => {
+        await call(eventsRouter.update, {
+            id: idOf(ownSeries), data: { title: "Retro" }, scope: "occurrence", occurrenceStart,
+        }, { context });
+        expect(ownSeries.exdates.map((d) => d.toISOString())).toEqual([occurrenceStart]);
+        expect(Event.create).toHaveBeenCalledWith(expect.objectContaining({
+            title: "Retro",
+            seriesId: ownSeries._id,
+            originalStart: new Date(occurrenceStart),
+        }));
+    });
+
+    it("ends the series before the occurrence the creator deletes from", async () => {
+        await call(eventsRouter.delete, { id: idOf(ownSeries), scope: "following", occurrenceStart }, { context });
+        expect(ownSeries.recurrence).toContain("UNTIL=");
+        expect(ownSeries.save).toHaveBeenCalled();
+    });
+
+    it("lets holders of events:manage change anyone's event", async () => {
+        vi.mocked(loadAccess).mockResolvedValue(accessWith([...BUILT_IN_ROLES.member, "events:manage"]));
+        await expect(call(eventsRouter.update, {
+            id: idOf(othersSeries), data: { title: "Renamed" }, scope: "occurrence", occurrenceStart,
+        }, { context })).resolves.toMatchObject({ title: "Renamed" });
+        await expect(call(eventsRouter.delete, { id: idOf(othersSeries), scope: "series" }, { context }))
+            .resolves.toEqual({ success: true });
+    });
+});
@@ -1,6 +1,23 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
+import { audit, authorized } from "../orpc.js";
 import { Event, type IEvent } from "../models/index.js";
+import { invalid, notFound } from "../lib/errors.js";
+import {
+    continueRecurrence,
+    expandOccurrences,
+    isOccurrence,
+    isValidRecurrence,
+    MAX_WINDOW_MS,
+    normalizeRecurrence,
+    truncateRecurrence,
+} from "../lib/recurrence.js";
+import { assertAllowed, canModifyEvent, type Actor } from "../lib/ownership.js";
+import { moveToTrash } from "../lib/trash.js";
+
+const recurrenceSchema = z
+    .string()
+    .refine(isValidRecurrence, { message: "Invalid RFC 5545 recurrence rule" })
+    .transform(normalizeRecurrence);
 
 const eventSchema = z.object({
     title: z.string().min(1),
@@ -12,10 +29,108 @@ const eventSchema = z.object({
     status: z.enum(["scheduled", "in-progress", "completed", "cancelled"]).optional(),
     color: z.string().optional(),
     reminders: z.array(z.string().datetime()).optional(),
+    recurrence: recurrenceSchema.nullable().optional(),
+    exdates: z.array(z.string().datetime()).optional(),
 });
 
+const scopeSchema = z.enum(["occurrence", "following", "series"]).default("series");
+
+function serializeEvent(event: IEvent, occurrenceStart?: Date) {
+    const duration = event.end.getTime() - event.start.getTime();
+    const start = occurrenceStart ?? event.start;
+
+    return {
+        id: event._id.toString(),
+        title: event.title,
+        description: event.description,
+        start: start.toISOString(),
+        end: new Date(start.getTime() + duration).toISOString(),
+        location: event.location,
+        createdBy: event.createdBy,
+        attendees: event.attendees,
+        status: event.status,
+        color: event.color,
+        reminders: event.reminders?.map((r) => r.toISOString()),
+        recurrence: event.recurrence,
+        exdates: event.exdates?.map((d) => d.toISOString()),
+        seriesId: event.seriesId?.toString(),
+        originalStart: event.originalStart?.toISOString(),
+        occurrenceStart: occurrenceStart?.toISOString(),
+    };
+}
+
+// Expands every recurring series into the occurrences that overlap [start, end)
+async function findOccurrences(start: Date, end: Date, query: Record<string, unknown> = {}) {
+    const series = await Event.find({
+        ...query,
+        recurrence: { $nin: [null, ""] },
+        start: { $lt: end },
+    })
+        .populate("createdBy", "name email")
+        .populate("attendees", "name email");
+
+    return series.flatMap((event) => {
+        const duration = event.end.getTime() - event.start.getTime();
+        return expandOccurrences(event.recurrence!, event.start, duration, event.exdates, start, end)
+            .map((occurrenceStart) => ({ event, occurrenceStart }));
+    });
+}
+
+function windowOf(input: { start: string; end: string }) {
+    const start = new Date(input.start);
+    const end = new Date(input.end);
+    if (end < start) {
+        throw invalid("The end of the range must not be before its start");
+    }
+    if (end.getTime() - start.getTime() > MAX_WINDOW_MS) {
+        throw invalid(`The range can span at most ${MAX_WINDOW_MS / (24 * 60 * 60 * 1000)} days`);
+    }
+    return { start, end };
+}
+
+async function findSeriesOccurrence(id: string, occurrenceStart?: string) {
+    const event = await Event.findById(id);
+    if (!event) {
+        throw notFound("Event");
+    }
+    if (!event.recurrence) {
+        throw invalid("Event is not part of a recurring series");
+    }
+    if (!occurrenceStart) {
+        throw invalid("occurrenceStart is required for this scope");
+    }
+
+    const at = new Date(occurrenceStart);
+    if (!isOccurrence(event.recurrence, event.start, event.exdates, at)) {
+        throw invalid("No occurrence of this event starts at the given time");
+    }
+
+    return { event, at };
+}
+
+function buildUpdateData(data: Partial<z.infer<typeof eventSchema>>) {
+    const updateData: Record<string, unknown> = { ...data };
+    if (data.start) updateData["start"] = new Date(data.start);
+    if (data.end) updateData["end"] = new Date(data.end);
+    if (data.reminders) {
+        updateData["reminders"] = data.reminders.map((r) => new Date(r));
+    }
+    if (data.exdates) {
+        updateData["exdates"] = data.exdates.map((d) => new Date(d));
+    }
+    return updateData;
+}
+
+async function assertCanModify(actor: Actor, id: string) {
+    const event = await Event.findById(id).select("createdBy");
+    if (!event) {
+        throw notFound("Event");
+    }
+    assertAllowed(canModifyEvent(actor, event), "Only the event's creator can change it");
+}
+
 export const eventsRouter = {
-    list: protectedProcedure
+    list: authorized("events:read")
         .input(
             z.object({
                 start: z.string().datetime().optional(),
@@ -26,39 +141,42 @@ export const eventsRouter = {
         .handler(async ({ input }) => {
             const query: Record<string, unknown> = {};
 
-            if (input?.start && input?.end) {
-                query["$or"] = [
-                    { start: { $gte: new Date(input.start), $lte: new Date(input.end) } },
-                    { end: { $gte: new Date(input.start), $lte: new Date(input.end) } },
-                    { start: { $lte: new Date(input.start) }, end: { $gte: new Date(input.end) } },
-                ];
-            }
-
             if (input?.status) {
                 query["status"] = input.status;
             }
 
-            const events = await Event.find(query)
+            if (!(input?.start && input?.end)) {
+                const events = await Event.find(query)
+                    .populate("createdBy", "name email")
+                    .populate("attendees", "name email")
+                    .sort({ start: 1 });
+
+                return events.map((event) => serializeEvent(event));
+            }
+
+            const { start, end } = windowOf({ start: input.start, end: input.end });
+
+            const single = await Event.find({
+                ...query,
+                recurrence: { $in: [null, ""] },
+                $or: [
+                    { start: { $gte: start, $lte: end } },
+                    { end: { $gte: start, $lte: end } },
+                    { start: { $lte: start }, end: { $gte: end } },
+                ],
+            })
                 .populate("createdBy", "name email")
-                .populate("attendees", "name email")
-                .sort({ start: 1 });
+                .populate("attendees", "name email");
 
-            return events.map((event) => ({
-                id: event._id.toString(),
-                title: event.title,
-                description: event.description,
-                start: event.start.toISOString(),
-                end: event.end.toISOString(),
-                location: event.location,
-                createdBy: event.createdBy,
-                attendees: event.attendees,
-                status: event.status,
-                color: event.color,
-                reminders: event.reminders?.map((r) => r.toISOString()),
-            }));
+            const occurrences = await findOccurrences(start, end, query);
+
+            return [
+                ...single.map((event) => serializeEvent(event)),
+                ...occurrences.map(({ event, occurrenceStart }) => serializeEvent(event, occurrenceStart)),
+            ].sort((a, b) => a.start.localeCompare(b.start));
         }),
 
-    get: protectedProcedure
+    get: authorized("events:read")
         .input(z.object({ id: z.string() }))
         .handler(async ({ input }) => {
             const event = await Event.findById(input.id)
@@ -66,25 +184,14 @@ export const eventsRouter = {
                 .populate("attendees", "name email");
 
             if (!event) {
-                throw new Error("Event not found");
+                throw notFound("Event");
             }
 
-            return {
-                id: event._id.toString(),
-                title: event.title,
-                description: event.description,
-                start: event.start.toISOString(),
-                end: event.end.toISOString(),
-                location: event.location,
-                createdBy: event.createdBy,
-                attendees: event.attendees,
-                status: event.status,
-                color: event.color,
-                reminders: event.reminders?.map((r) => r.toISOString()),
-            };
+            return serializeEvent(event);
         }),
 
-    create: protectedProcedure
+    create: authorized("events:create")
+        .use(audit(Event))
         .input(eventSchema)
         .handler(async ({ input, context }) => {
             const newEvent = new Event({
@@ -97,6 +204,8 @@ export const eventsRouter = {
                 status: input.status || "scheduled",
                 color: input.color,
                 reminders: input.reminders?.map((r) => new Date(r)),
+                recurrence: input.recurrence || undefined,
+                exdates: input.exdates?.map((d) => new Date(d)),
                 createdBy: context.user.userId,
             });
 
@@ -108,50 +217,167 @@ export const eventsRouter = {
                 start: event.start.toISOString(),
                 end: event.end.toISOString(),
                 status: event.status,
+                recurrence: event.recurrence,
             };
         }),
 
-    update: protectedProcedure
+    update: authorized("events:update")
+        .use(audit(Event))
         .input(
             z.object({
                 id: z.string(),
                 data: eventSchema.partial(),
+                scope: scopeSchema,
+                occurrenceStart: z.string().datetime().optional(),
             })
         )
-        .handler(async ({ input }) => {
-            const updateData: Record<string, unknown> = { ...input.data };
-            if (input.data.start) updateData["start"] = new Date(input.data.start);
-            if (input.data.end) updateData["end"] = new Date(input.data.end);
-            if (input.data.reminders) {
-                updateData["reminders"] = input.data.reminders.map((r) => new Date(r));
+        .handler(async ({ input, context }) => {
+            await assertCanModify(context, input.id);
+            const updateData = buildUpdateData(input.data);
+
+            if (input.scope === "series") {
+                const update: Record<string, unknown> = { $set: updateData };
+                if (input.data.recurrence === null) {
+                    delete updateData["recurrence"];
+                    update["$unset"] = { recurrence: 1 };
+                }
+
+                const event = await Event.findByIdAndUpdate(input.id, update, { new: true });
+
+                if (!event) {
+                    throw notFound("Event");
+                }
+
+                return {
+                    id: event._id.toString(),
+                    title: event.title,
+                    start: event.start.toISOString(),
+                    end: event.end.toISOString(),
+                    status: event.status,
+                    recurrence: event.recurrence,
+                };
             }
 
-            const event = await Event.findByIdAndUpdate(input.id, { $set: updateData }, { new: true });
+            const { event: series, at } = await findSeriesOccurrence(input.id, input.occurrenceStart);
+            const duration = series.end.getTime() - series.start.getTime();
+            const start = (updateData["start"] as Date | undefined) ?? at;
+            const end = (updateData["end"] as Date | undefined) ?? new Date(start.getTime() + duration);
 
-            if (!event) {
-                throw new Error("Event not found");
+            const base = {
+                title: series.title,
+                description: series.description,
+                location: series.location,
+                attendees: series.attendees,
+                status: series.status,
+                color: series.color,
+                createdBy: series.createdBy,
+                // Reminders keep their lead time before the new start
+                reminders: series.reminders.map((r) => new Date(r.getTime() - series.start.getTime() + start.getTime())),
+                remindersSent: series.remindersSent,
+            };
+
+            let created: IEvent;
+
+            if (input.scope === "occurrence") {
+                // Detach this occurrence: exclude it from the series and store it as its own event
+                series.exdates.push(at);
+                await series.save();
+
+                created = await Event.create({
+                    ...base,
+                    ...updateData,
+                    start,
+                    end,
+                    recurrence: undefined,
+                    exdates: [],
+                    seriesId: series._id,
+                    originalStart: at,
+                });
+            } else {
+                if (at.getTime() === series.start.getTime()) {
+                    throw invalid("Use scope \"series\" to edit from the first occurrence");
+                }
+
+                // Split the series: the original ends before `at`, a new series carries on from it
+                const recurrence = (updateData["recurrence"] as string | undefined)
+                    ?? continueRecurrence(series.recurrence!, series.start, at);
+
+                created = await Event.create({
+                    ...base,
+                    ...updateData,
+                    start,
+                    end,
+                    recurrence,
+                    exdates: series.exdates.filter((d) => d >= at),
+                });
+
+                series.recurrence = truncateRecurrence(series.recurrence!, series.start, at);
+                series.exdates = series.exdates.filter((d) => d < at);
+                await series.save();
+
+                await Event.updateMany(
+                    { seriesId: series._id, originalStart: { $gte: at } },
+                    { $set: { seriesId: created._id } }
+                );
             }
 
             return {
-                id: event._id.toString(),
-                title: event.title,
-                start: event.start.toISOString(),
-                end: event.end.toISOString(),
-                status: event.status,
+                id: created._id.toString(),
+                title: created.title,
+                start: created.start.toISOString(),
+                end: created.end.toISOString(),
+                status: created.status,
+                recurrence: created.recurrence,
             };
         }),
 
-    delete: protectedProcedure
-        .input(z.object({ id: z.string() }))
-        .handler(async ({ input }) => {
-            const event = await Event.findByIdAndDelete(input.id);
-            if (!event) {
-                throw new Error("Event not found");
+    delete: authorized("events:delete")
+        .use(audit(Event))
+        .input(
+            z.object({
+                id: z.string(),
+                scope: scopeSchema,
+                occurrenceStart: z.string().datetime().optional(),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            await assertCanModify(context, input.id);
+
+            if (input.scope === "series") {
+                const event = await Event.findById(input.id);
+                if (!event) {
+                    throw notFound("Event");
+                }
+                await moveToTrash("events", event, context.user.userId);
+                return { success: true };
             }
+
+            const { event: series, at } = await findSeriesOccurrence(input.id, input.occurrenceStart);
+
+            if (input.scope === "occurrence") {
+                series.exdates.push(at);
+                await series.save();
+                return { success: true };
+            }
+
+            if (at.getTime() === series.start.getTime()) {
+                await moveToTrash("events", series, context.user.userId);
+                return { success: true };
+            }
+
+            series.recurrence = truncateRecurrence(series.recurrence!, series.start, at);
+            series.exdates = series.exdates.filter((d) => d < at);
+            await series.save();
+
+            const detached = await Event.find({ seriesId: series._id, originalStart: { $gte: at } });
+            for (const occurrence of detached) {
+                await moveToTrash("events", occurrence, context.user.userId);
+            }
+
             return { success: true };
         }),
 
-    checkConflicts: protectedProcedure
+    checkConflicts: authorized("events:read")
         .input(
             z.object({
                 start: z.string().datetime(),
@@ -160,24 +386,41 @@ export const eventsRouter = {
             })
         )
         .handler(async ({ input }) => {
+            const { start, end } = windowOf(input);
+
             const query: Record<string, unknown> = {
+                recurrence: { $in: [null, ""] },
                 $or: [
-                    { start: { $lt: new Date(input.end), $gte: new Date(input.start) } },
-                    { end: { $gt: new Date(input.start), $lte: new Date(input.end) } },
-                    { start: { $lte: new Date(input.start) }, end: { $gte: new Date(input.end) } },
+                    { start: { $lt: end, $gte: start } },
+                    { end: { $gt: start, $lte: end } },
+                    { start: { $lte: start }, end: { $gte: end } },
                 ],
             };
 
+            const excluded: Record<string, unknown> = {};
             if (input.excludeId) {
                 query["_id"] = { $ne: input.excludeId };
+                excluded["_id"] = { $ne: input.excludeId };
             }
 
             const conflicts = await Event.find(query).select("title start end");
-            return conflicts.map((e) => ({
-                id: e._id.toString(),
-                title: e.title,
-                start: e.start.toISOString(),
-                end: e.end.toISOString(),
-            }));
+            const occurrences = await findOccurrences(start, end, excluded);
+
+            return [
+                ...conflicts.map((e) => ({
+                    id: e._id.toString(),
+                    title: e.title,
+                    start: e.start.toISOString(),
+                    end: e.end.toISOString(),
+                })),
+                ...occurrences.map(({ event, occurrenceStart }) => ({
+                    id: event._id.toString(),
+                    title: event.title,
+                    start: occurrenceStart.toISOString(),
+                    end: new Date(
+                        occurrenceStart.getTime() + event.end.getTime() - event.start.getTime()
+                    ).toISOString(),
+                })),
+            ];
         }),
 };
@@ -7,6 +7,14 @@ import { analyticsRouter } from "./analytics.js";
 import { assetsRouter } from "./assets.js";
 import { roomsRouter } from "./rooms.js";
 import { bookingsRouter } from "./bookings.js";
+import { iotRouter } from "./iot.js";
+import { rolesRouter } from "./roles.js";
+import { apiTokensRouter } from "./api-tokens.js";
+import { usersRouter } from "./users.js";
+import { organizationsRouter } from "./organizations.js";
+import { auditRouter } from "./audit.js";
+import { trashRouter } from "./trash.js";
+import { commentsRouter } from "./comments.js";
 
 export const router = {
     auth: authRouter,
@@ -18,6 +26,14 @@ export const router = {
     assets: assetsRouter,
     rooms: roomsRouter,
     bookings: bookingsRouter,
+    iot: iotRouter,
+    roles: rolesRouter,
+    apiTokens: apiTokensRouter,
+    users: usersRouter,
+    organizations: organizationsRouter,
+    audit: auditRouter,
+    trash: trashRouter,
+    comments: commentsRouter,
 };
 
 export type Router = typeof router;
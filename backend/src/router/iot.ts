@@ -0,0 +1,254 @@
+import { z } from "zod";
+import { audit, authorized, deviceProcedure } from "../orpc.js";
+import { AlertRule, Device, SensorReading } from "../models/index.js";
+import { notFound } from "../lib/errors.js";
+import { generateDeviceKey } from "../middleware/device-auth.js";
+import { ingestReadings } from "../lib/iot.js";
+
+// Upper bound on readings accepted in a single ingest call
+const MAX_BATCH_SIZE = 500;
+
+const readingSchema = z.object({
+    metric: z.string().min(1),
+    value: z.number(),
+    recordedAt: z.string().datetime().optional(),
+});
+
+const deviceSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    location: z.string().min(1),
+    room: z.string().nullable().optional(),
+    isActive: z.boolean().optional(),
+});
+
+const ruleSchema = z.object({
+    name: z.string().min(1),
+    metric: z.string().min(1),
+    comparator: z.enum(["gt", "gte", "lt", "lte", "eq", "neq"]),
+    threshold: z.number(),
+    durationSeconds: z.number().min(0).optional(),
+    priority: z.enum(["low", "medium", "high", "critical"]).optional(),
+    type: z.enum(["info", "warning", "error", "success"]).optional(),
+    device: z.string().nullable().optional(),
+    enabled: z.boolean().optional(),
+});
+
+export const iotRouter = {
+    // Called by devices themselves, authenticated with their API key
+    ingest: deviceProcedure
+        .input(z.object({ readings: z.array(readingSchema).min(1).max(MAX_BATCH_SIZE) }))
+        .handler(async ({ input, context }) => {
+            return ingestReadings(
+                context.device,
+                input.readings.map((r) => ({
+                    metric: r.metric,
+                    value: r.value,
+                    recordedAt: r.recordedAt ? new Date(r.recordedAt) : undefined,
+                }))
+            );
+        }),
+
+    readings: authorized("iot:read")
+        .input(
+            z.object({
+                deviceId: z.string(),
+                metric: z.string().optional(),
+                from: z.string().datetime().optional(),
+                to: z.string().datetime().optional(),
+                limit: z.number().min(1).max(1000).optional(),
+            })
+        )
+        .handler(async ({ input }) => {
+            const query: Record<string, unknown> = { device: input.deviceId };
+            if (input.metric) query["metric"] = input.metric;
+
+            if (input.from || input.to) {
+                const range: Record<string, Date> = {};
+                if (input.from) range["$gte"] = new Date(input.from);
+                if (input.to) range["$lte"] = new Date(input.to);
+                query["recordedAt"] = range;
+            }
+
+            const readings = await SensorReading.find(query)
+                .sort({ recordedAt: -1 })
+                .limit(input.limit ?? 100);
+
+            return readings.map((r) => ({
+                metric: r.metric,
+                value: r.value,
+                recordedAt: r.recordedAt.toISOString(),
+            }));
+        }),
+
+    listDevices: authorized("iot:manage").handler(async () => {
+        const devices = await Device.find()
+            .populate("room", "name location")
+            .sort({ name: 1 });
+
+        return devices.map((device) => ({
+            id: device._id.toString(),
+            name: device.name,
+            description: device.description,
+            location: device.location,
+            room: device.room,
+            apiKeyPrefix: device.apiKeyPrefix,
+            isActive: device.isActive,
+            lastSeenAt: device.lastSeenAt?.toISOString(),
+            createdAt: device.createdAt.toISOString(),
+        }));
+    }),
+
+    // The returned apiKey is only ever shown here - store it on the device
+    createDevice: authorized("iot:manage")
+        .use(audit(Device))
+        .input(deviceSchema)
+        .handler(async ({ input, context }) => {
+            const { key, hash, prefix } = generateDeviceKey();
+
+            const newDevice = new Device({
+                name: input.name,
+                description: input.description,
+                location: input.location,
+                room: input.room || undefined,
+                isActive: input.isActive ?? true,
+                apiKeyHash: hash,
+                apiKeyPrefix: prefix,
+                createdBy: context.user.userId,
+            });
+
+            const device = await newDevice.save();
+
+            return {
+                id: device._id.toString(),
+                name: device.name,
+                apiKey: key,
+            };
+        }),
+
+    updateDevice: authorized("iot:manage")
+        .use(audit(Device))
+        .input(
+            z.object({
+                id: z.string(),
+                data: deviceSchema.partial(),
+            })
+        )
+        .handler(async ({ input }) => {
+            const update: Record<string, unknown> = { $set: { ...input.data } };
+            if (input.data.room === null) {
+                delete (update["$set"] as Record<string, unknown>)["room"];
+                update["$unset"] = { room: 1 };
+            }
+
+            const device = await Device.findByIdAndUpdate(input.id, update, { new: true });
+            if (!device) throw notFound("Device");
+
+            return {
+                id: device._id.toString(),
+                name: device.name,
+                isActive: device.isActive,
+            };
+        }),
+
+    rotateDeviceKey: authorized("iot:manage")
+        .use(audit(Device))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            const { key, hash, prefix } = generateDeviceKey();
+
+            const device = await Device.findByIdAndUpdate(
+                input.id,
+                { $set: { apiKeyHash: hash, apiKeyPrefix: prefix } },
+                { new: true }
+            );
+            if (!device) throw notFound("Device");
+
+            return {
+                id: device._id.toString(),
+                apiKey: key,
+            };
+        }),
+
+    deleteDevice: authorized("iot:manage")
+        .use(audit(Device))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            const device = await Device.findByIdAndDelete(input.id);
+            if (!device) throw notFound("Device");
+
+            await AlertRule.deleteMany({ device: device._id });
+            return { success: true };
+        }),
+
+    listRules: authorized("iot:manage").handler(async () => {
+        const rules = await AlertRule.find()
+            .populate("device", "name location")
+            .sort({ metric: 1, name: 1 });
+
+        return rules.map((rule) => ({
+            id: rule._id.toString(),
+            name: rule.name,
+            metric: rule.metric,
+            comparator: rule.comparator,
+            threshold: rule.threshold,
+            durationSeconds: rule.durationSeconds,
+            priority: rule.priority,
+            type: rule.type,
+            device: rule.device,
+            enabled: rule.enabled,
+        }));
+    }),
+
+    createRule: authorized("iot:manage")
+        .use(audit(AlertRule))
+        .input(ruleSchema)
+        .handler(async ({ input, context }) => {
+            const newRule = new AlertRule({
+                ...input,
+                device: input.device || undefined,
+                createdBy: context.user.userId,
+            });
+
+            const rule = await newRule.save();
+
+            return {
+                id: rule._id.toString(),
+                name: rule.name,
+            };
+        }),
+
+    updateRule: authorized("iot:manage")
+        .use(audit(AlertRule))
+        .input(
+            z.object({
+                id: z.string(),
+                data: ruleSchema.partial(),
+            })
+        )
+        .handler(async ({ input }) => {
+            const update: Record<string, unknown> = { $set: { ...input.data } };
+            if (input.data.device === null) {
+                delete (update["$set"] as Record<string, unknown>)["device"];
+                update["$unset"] = { device: 1 };
+            }
+
+            const rule = await AlertRule.findByIdAndUpdate(input.id, update, { new: true });
+            if (!rule) throw notFound("Alert rule");
+
+            return {
+                id: rule._id.toString(),
+                name: rule.name,
+                enabled: rule.enabled,
+            };
+        }),
+
+    deleteRule: authorized("iot:manage")
+        .use(audit(AlertRule))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            const rule = await AlertRule.findByIdAndDelete(input.id);
+            if (!rule) throw notFound("Alert rule");
+            return { success: true };
+        }),
+};
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { adminProcedure, audit, protectedProcedure } from "../orpc.js";
+import { Organization, User } from "../models/index.js";
+import { conflict, forbidden, notFound } from "../lib/errors.js";
+import { activeOrganization, organizationsOf, removeMemberWithItems } from "../lib/organizations.js";
+import { runInOrganization } from "../db/tenancy.js";
+
+export const organizationsRouter = {
+    // Organizations the user can switch to; `current` marks the one the session works in
+    mine: protectedProcedure.handler(async ({ context }) => {
+        const user = await User.findById(context.user.userId);
+        if (!user) {
+            throw notFound("User");
+        }
+
+        const organizations = await organizationsOf(user);
+        return organizations.map((organization) => ({
+            ...organization,
+            current: organization.id === context.user.organizationId,
+        }));
+    }),
+
+    // Anyone with a verified address can start an organization and becomes its admin; switch to it
+    // with `auth.switchOrganization`
+    create: protectedProcedure
+        .use(audit(Organization))
+        .input(z.object({ name: z.string().min(2).max(100) }))
+        .handler(async ({ input, context }) => {
+            const user = await User.findById(context.user.userId);
+            if (!user) {
+                throw notFound("User");
+            }
+            if (!user.emailVerified) {
+                throw forbidden("Verify your email address before creating an organization");
+            }
+
+            const organization = await new Organization({
+                name: input.name,
+                createdBy: context.user.userId,
+                members: [{ user: context.user.userId, role: "admin", joinedAt: new Date() }],
+            }).save();
+
+            return {
+                id: organization._id.toString(),
+                name: organization.name,
+            };
+        }),
+
+    // Renames the active organization
+    update: adminProcedure
+        .use(audit())
+        .input(z.object({ name: z.string().min(2).max(100) }))
+        .handler(async ({ input }) => {
+            const organization = await activeOrganization();
+            organization.name = input.name;
+            await organization.save();
+
+            return {
+                id: organization._id.toString(),
+                name: organization.name,
+            };
+        }),
+
+    // Leaves an organization; the session moves to another one on its next refresh.
+    // The leaver's items are handled by `policy` like in `users.remove`, with owned teams going to
+    // an admin unless reassigned.
+    leave: protectedProcedure
+        .use(audit(Organization))
+        .input(
+            z.object({
+                id: z.string(),
+                policy: z.enum(["block", "reassign", "cascade"]).default("block"),
+                reassignTo: z.string().optional(),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const organization = await Organization.findOne({ _id: input.id, "members.user": context.user.userId });
+            if (!organization) {
+                throw notFound("Organization", input.id);
+            }
+
+            const otherAdmin = organization.members.find((m) => m.role === "admin" && !m.user.equals(context.user.userId));
+            if (!otherAdmin) {
+                throw conflict("Make someone else an admin before leaving the organization");
+            }
+
+            await runInOrganization(organization._id, () =>
+                removeMemberWithItems(organization, context.user.userId, input.policy, {
+                    reassignTo: input.reassignTo,
+                    teamsTo: otherAdmin.user.toString(),
+                })
+            );
+            return { success: true };
+        }),
+};
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { Types } from "mongoose";
+import { accessProcedure, audit, authorized, protectedProcedure } from "../orpc.js";
+import { Role, Team, User } from "../models/index.js";
+import { conflict, notFound } from "../lib/errors.js";
+import { isMember } from "../lib/organizations.js";
+import { ALL_PERMISSIONS, BUILT_IN_ROLES, PERMISSIONS, isPermission } from "../lib/permissions.js";
+
+const roleSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    permissions: z
+        .array(z.string())
+        .refine((permissions) => permissions.every(isPermission), { message: "Unknown permission" }),
+});
+
+export const rolesRouter = {
+    // The permission catalogue and what the built-in roles grant
+    permissions: protectedProcedure.handler(async () => {
+        return {
+            resources: Object.entries(PERMISSIONS).map(([resource, actions]) => ({
+                resource,
+                actions: [...actions],
+            })),
+            all: ALL_PERMISSIONS,
+            builtIn: BUILT_IN_ROLES,
+        };
+    }),
+
+    // The current user's effective permissions, globally and per team
+    mine: accessProcedure.handler(async ({ context }) => {
+        return {
+            permissions: [...context.access.permissions],
+            teams: Object.fromEntries(
+                [...context.access.teams].map(([teamId, permissions]) => [teamId, [...permissions]])
+            ),
+        };
+    }),
+
+    list: authorized("roles:manage").handler(async () => {
+        const roles = await Role.find().sort({ name: 1 });
+
+        return roles.map((role) => ({
+            id: role._id.toString(),
+            name: role.name,
+            description: role.description,
+            permissions: role.permissions,
+            createdAt: role.createdAt.toISOString(),
+        }));
+    }),
+
+    create: authorized("roles:manage")
+        .use(audit(Role))
+        .input(roleSchema)
+        .handler(async ({ input, context }) => {
+            if (await Role.exists({ name: input.name })) {
+                throw conflict("A role with this name already exists");
+            }
+
+            const newRole = new Role({
+                name: input.name,
+                description: input.description,
+                permissions: input.permissions,
+                createdBy: context.user.userId,
+            });
+
+            const role = await newRole.save();
+
+            return {
+                id: role._id.toString(),
+                name: role.name,
+                permissions: role.permissions,
+            };
+        }),
+
+    update: authorized("roles:manage")
+        .use(audit(Role))
+        .input(
+            z.object({
+                id: z.string(),
+                data: roleSchema.partial(),
+            })
+        )
+        .handler(async ({ input }) => {
+            const role = await Role.findByIdAndUpdate(input.id, { $set: input.data }, { new: true });
+            if (!role) throw notFound("Role");
+
+            return {
+                id: role._id.toString(),
+                name: role.name,
+                permissions: role.permissions,
+            };
+        }),
+
+    delete: authorized("roles:manage")
+        .use(audit(Role))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            const role = await Role.findByIdAndDelete(input.id);
+            if (!role) throw notFound("Role");
+
+            await User.updateMany({ roles: role._id }, { $pull: { roles: role._id } });
+            await Team.updateMany({ "memberRoles.role": role._id }, { $pull: { memberRoles: { role: role._id } } });
+            return { success: true };
+        }),
+
+    // Replaces the custom roles a user holds across the organization; roles from other organizations are kept
+    assign: authorized("roles:manage")
+        .use(audit(User, "userId"))
+        .input(z.object({ userId: z.string(), roleIds: z.array(z.string()) }))
+        .handler(async ({ input }) => {
+            const found = await Role.countDocuments({ _id: { $in: input.roleIds } });
+            if (found !== new Set(input.roleIds).size) {
+                throw notFound("Role");
+            }
+
+            const user = await User.findById(input.userId);
+            if (!user || !(await isMember(user._id))) throw notFound("User");
+
+            const current = await Role.find({ _id: { $in: user.roles } }).select("_id");
+            user.roles = [
+                ...user.roles.filter((r) => !current.some((c) => c._id.equals(r))),
+                ...input.roleIds.map((id) => new Types.ObjectId(id)),
+            ];
+            await user.save();
+
+            return {
+                id: user._id.toString(),
+                roles: input.roleIds,
+            };
+        }),
+};
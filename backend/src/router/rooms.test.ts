@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Organization, Room } from "../models/index.js";
+import { BUILT_IN_ROLES, loadAccess } from "../lib/permissions.js";
+import { accessWith, contextFor, member, objectId, query } from "../test/helpers.js";
+import { roomsRouter } from "./rooms.js";
+
+vi.mock("../lib/permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../lib/permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+const user = member();
+const context = contextFor(user);
+const colleague = objectId();
+const organization = new Organization({
+    name: "Acme",
+    members: [{ user: user.userId, role: "admin" }, { user: colleague, role: "member" }],
+});
+const room = new Room({ name: "Board room", capacity: 8, location: "2nd floor" });
+
+describe("room approvers", () => {
+    beforeEach(() => {
+        vi.mocked(loadAccess).mockResolvedValue(accessWith([...BUILT_IN_ROLES.member, "rooms:create", "rooms:update"]));
+        vi.spyOn(Organization, "findById").mockReturnValue(query(organization) as never);
+        vi.spyOn(Room, "findById").mockReturnValue(query(room) as never);
+        vi.spyOn(Room, "findByIdAndUpdate").mockReturnValue(query(room) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("refuses approvers from outside the organization", async () => {
+        const approvers = [colleague.toString(), objectId().toString()];
+        await expect(call(roomsRouter.update, { id: room._id.toString(), approvers }, { context }))
+            .rejects.toMatchObject({ code: "VALIDATION" });
+        expect(Room.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("accepts members as approvers", async () => {
+        await expect(call(roomsRouter.update, { id: room._id.toString(), approvers: [colleague.toString()] }, { context }))
+            .resolves.toBe(room);
+    });
+});
@@ -1,9 +1,24 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
-import { Room } from "../models/index.js";
+import { audit, authorized } from "../orpc.js";
+import { Booking, Room } from "../models/index.js";
+import { hasDependents, invalid, notFound } from "../lib/errors.js";
+import { moveToTrash } from "../lib/trash.js";
+import { notify } from "../lib/alerts.js";
+import { memberIds } from "../lib/organizations.js";
+import { inTransaction } from "../db/transaction.js";
+
+// Approvers get the room's booking requests, so they have to be members of the organization
+async function assertValidApprovers(approvers: string[] | undefined) {
+    if (!approvers) return;
+    const members = await memberIds();
+    const unknown = approvers.find((id) => !members.some((m) => m.equals(id)));
+    if (unknown) {
+        throw invalid(`${unknown} is not a member of this organization and can't approve bookings`);
+    }
+}
 
 export const roomsRouter = {
-    list: protectedProcedure
+    list: authorized("rooms:read")
         .input(
             z.object({
                 search: z.string().optional(),
@@ -25,17 +40,18 @@ export const roomsRouter = {
             return await Room.find(query).sort({ name: 1 });
         }),
 
-    get: protectedProcedure
+    get: authorized("rooms:read")
         .input(z.object({ id: z.string() }))
         .handler(async ({ input }) => {
             const room = await Room.findById(input.id);
             if (!room) {
-                throw new Error("Room not found");
+                throw notFound("Room");
             }
             return room;
         }),
 
-    create: protectedProcedure
+    create: authorized("rooms:create")
+        .use(audit(Room))
         .input(
             z.object({
                 name: z.string(),
@@ -44,14 +60,22 @@ export const roomsRouter = {
                 amenities: z.array(z.string()).optional(),
                 status: z.enum(["available", "maintenance", "occupied"]).optional(),
                 images: z.array(z.string()).optional(),
+                requiresApproval: z.boolean().optional(),
+                approvers: z.array(z.string()).optional(),
             })
         )
-        .handler(async ({ input }) => {
-            const room = await Room.create(input);
+        .handler(async ({ input, context }) => {
+            await assertValidApprovers(input.approvers);
+            const newRoom = new Room({
+                ...input,
+                approvers: input.approvers ?? [context.user.userId],
+            });
+            const room = await newRoom.save();
             return room;
         }),
 
-    update: protectedProcedure
+    update: authorized("rooms:update")
+        .use(audit(Room))
         .input(
             z.object({
                 id: z.string(),
@@ -61,27 +85,81 @@ export const roomsRouter = {
                 amenities: z.array(z.string()).optional(),
                 status: z.enum(["available", "maintenance", "occupied"]).optional(),
                 images: z.array(z.string()).optional(),
+                requiresApproval: z.boolean().optional(),
+                approvers: z.array(z.string()).optional(),
             })
         )
         .handler(async ({ input }) => {
+            await assertValidApprovers(input.approvers);
             const room = await Room.findByIdAndUpdate(
                 input.id,
                 { $set: input },
                 { new: true }
             );
             if (!room) {
-                throw new Error("Room not found");
+                throw notFound("Room");
             }
             return room;
         }),
 
-    delete: protectedProcedure
-        .input(z.object({ id: z.string() }))
-        .handler(async ({ input }) => {
-            const room = await Room.findByIdAndDelete(input.id);
+    // Upcoming bookings block the delete unless `policy` is "cascade", which cancels them and tells their organizers
+    delete: authorized("rooms:delete")
+        .use(audit(Room))
+        .input(
+            z.object({
+                id: z.string(),
+                policy: z.enum(["block", "cascade"]).default("block"),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const room = await Room.findById(input.id);
             if (!room) {
-                throw new Error("Room not found");
+                throw notFound("Room");
+            }
+
+            const bookings = await Booking.find({
+                room: room._id,
+                status: { $in: ["pending", "confirmed"] },
+                endTime: { $gt: new Date() },
+            }).sort({ startTime: 1 });
+
+            if (bookings.length > 0 && input.policy === "block") {
+                throw hasDependents(
+                    `${room.name} has ${bookings.length} upcoming booking(s)`,
+                    bookings.map((b) => ({
+                        kind: "booking",
+                        id: b._id.toString(),
+                        title: b.title,
+                        startTime: b.startTime.toISOString(),
+                    }))
+                );
             }
-            return { success: true };
+
+            await inTransaction(async () => {
+                await Booking.updateMany(
+                    { _id: { $in: bookings.map((b) => b._id) } },
+                    { $set: { status: "cancelled", cancellationReason: `${room.name} was removed` } }
+                );
+                await moveToTrash("rooms", room, context.user.userId);
+            });
+
+            const organizers = new Set(bookings.map((b) => b.organizer.toString()));
+            for (const organizer of organizers) {
+                const cancelled = bookings.filter((b) => b.organizer.toString() === organizer);
+                await notify({
+                    title: "Bookings cancelled",
+                    message: cancelled.length === 1
+                        ? `Your booking "${cancelled[0]!.title}" was cancelled because ${room.name} was removed`
+                        : `${cancelled.length} of your bookings were cancelled because ${room.name} was removed`,
+                    type: "warning",
+                    targetUsers: [organizer],
+                    metadata: {
+                        roomId: room._id.toString(),
+                        bookingIds: cancelled.map((b) => b._id.toString()),
+                    },
+                });
+            }
+
+            return { success: true, cancelled: bookings.length };
         }),
 };
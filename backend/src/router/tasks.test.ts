@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Task, Team, type ITask } from "../models/index.js";
+import { BUILT_IN_ROLES, loadAccess } from "../lib/permissions.js";
+import { accessWith, contextFor, member, objectId, query } from "../test/helpers.js";
+import { tasksRouter } from "./tasks.js";
+
+vi.mock("../lib/permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../lib/permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+const user = member();
+const context = contextFor(user);
+const teamId = objectId();
+
+// Rebuilt for every test, as the checklist procedures change them in place
+let othersTask: ITask;
+let ownTask: ITask;
+let assignedTask: ITask;
+let teamTask: ITask;
+
+function newTask(fields: Partial<Record<keyof ITask, unknown>>): ITask {
+    return new Task({
+        status: "todo",
+        createdBy: objectId(),
+        checklist: [{ text: "First", done: false }],
+        ...fields,
+    });
+}
+
+const idOf = (task: ITask) => task._id.toString();
+const itemOf = (task: ITask) => task.checklist[0]!._id.toString();
+
+describe("tasks router ownership", () => {
+    beforeEach(() => {
+        // A member's task that `user` neither created nor is assigned to
+        othersTask = newTask({ title: "Not mine", assignee: objectId() });
+        ownTask = newTask({ title: "Mine", createdBy: user.userId });
+        assignedTask = newTask({ title: "Given to me", assignee: user.userId });
+        teamTask = newTask({ title: "The team's", team: teamId });
+        const tasks = [othersTask, ownTask, assignedTask, teamTask];
+
+        vi.mocked(loadAccess).mockResolvedValue(accessWith(BUILT_IN_ROLES.member));
+        vi.spyOn(Task, "findById").mockImplementation(((id: string) =>
+            query(tasks.find((t) => t._id.equals(id)) ?? null)) as never);
+        vi.spyOn(Task, "find").mockReturnValue(query(tasks) as never);
+        vi.spyOn(Task, "findByIdAndUpdate").mockImplementation(((id: string) =>
+            query(tasks.find((t) => t._id.equals(id)) ?? null)) as never);
+        vi.spyOn(Task, "updateMany").mockReturnValue(query({ modifiedCount: 0 }) as never);
+        vi.spyOn(Task.prototype, "save").mockImplementation(async function (this: ITask) {
+            return this;
+        });
+        vi.spyOn(Team, "findById").mockReturnValue(query(null) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe("update", () => {
+        it("refuses someone else's task", async () => {
+            await expect(call(tasksRouter.update, { id: idOf(othersTask), data: { title: "Mine now" } }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+            expect(Task.findByIdAndUpdate).not.toHaveBeenCalled();
+        });
+
+        it("lets the creator, the assignee and the team's owner update", async () => {
+            vi.mocked(loadAccess).mockResolvedValue(accessWith(BUILT_IN_ROLES.member, {
+                [teamId.toString()]: ["tasks:update", "tasks:manage"],
+            }));
+            for (const task of [ownTask, assignedTask, teamTask]) {
+                await expect(call(tasksRouter.update, { id: idOf(task), data: { title: "Renamed" } }, { context }))
+                    .resolves.toMatchObject({ id: idOf(task) });
+            }
+            expect(Task.findByIdAndUpdate).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe("update to another team", () => {
+        // A board where "done" is only waiting for sign-off, and "shipped" finishes tasks
+        const board = new Team({
+            name: "Releases",
+            owner: objectId(),
+            workflow: [
+                { key: "done", name: "Done", color: "#6b7280", done: false, next: [] },
+                { key: "shipped", name: "Shipped", color: "#10b981", done: true, next: [] },
+            ],
+        });
+
+        it("recomputes completion against the new board when the status key carries over", async () => {
+            const finished = new Date("2026-01-10T12:00:00Z");
+            Object.assign(ownTask, { status: "done", completedAt: finished });
+            vi.mocked(Team.findById).mockReturnValue(query(board) as never);
+
+            await call(tasksRouter.update, { id: idOf(ownTask), data: { team: board._id.toString() } }, { context });
+            expect(Task.findByIdAndUpdate).toHaveBeenCalledWith(
+                idOf(ownTask),
+                { $set: expect.objectContaining({ team: board._id.toString(), status: "done", completedAt: null }) },
+                { new: true }
+            );
+        });
+    });
+
+    describe("updateStatus", () => {
+        it("refuses someone else's task", async () => {
+            await expect(call(tasksRouter.updateStatus, { id: idOf(othersTask), status: "in-progress", order: 1 }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+            expect(Task.findByIdAndUpdate).not.toHaveBeenCalled();
+        });
+
+        it("lets the assignee move the task", async () => {
+            await expect(call(tasksRouter.updateStatus, { id: idOf(assignedTask), status: "in-progress", order: 1 }, { context }))
+                .resolves.toMatchObject({ id: idOf(assignedTask) });
+            expect(Task.findByIdAndUpdate).toHaveBeenCalledWith(
+                idOf(assignedTask),
+                { $set: { status: "in-progress", completedAt: null, order: 1 } },
+                { new: true }
+            );
+        });
+
+        it("lets the team's owner move the team's tasks", async () => {
+            vi.mocked(loadAccess).mockResolvedValue(accessWith(BUILT_IN_ROLES.member, {
+                [teamId.toString()]: ["tasks:update", "tasks:manage"],
+            }));
+            await expect(call(tasksRouter.updateStatus, { id: idOf(teamTask), status: "in-progress", order: 1 }, { context }))
+                .resolves.toMatchObject({ id: idOf(teamTask) });
+        });
+    });
+
+    describe("checklist", () => {
+        it("refuses to change the checklist of someone else's task", async () => {
+            const id = idOf(othersTask);
+            const itemId = itemOf(othersTask);
+            await expect(call(tasksRouter.addChecklistItem, { id, text: "Sneaky" }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+            await expect(call(tasksRouter.updateChecklistItem, { id, itemId, done: true }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+            await expect(call(tasksRouter.removeChecklistItem, { id, itemId }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+            expect(othersTask.save).not.toHaveBeenCalled();
+            expect(othersTask.checklist).toHaveLength(1);
+        });
+
+        it("lets the creator add, check and remove items", async () => {
+            const id = idOf(ownTask);
+            const added = await call(tasksRouter.addChecklistItem, { id, text: "Second" }, { context });
+            expect(added.map((i) => i.text)).toEqual(["First", "Second"]);
+
+            const checked = await call(tasksRouter.updateChecklistItem, { id, itemId: itemOf(ownTask), done: true }, { context });
+            expect(checked[0]).toMatchObject({ text: "First", done: true });
+
+            const removed = await call(tasksRouter.removeChecklistItem, { id, itemId: itemOf(ownTask) }, { context });
+            expect(removed.map((i) => i.text)).toEqual(["Second"]);
+        });
+
+        it("lets the assignee check items", async () => {
+            await expect(call(tasksRouter.updateChecklistItem, { id: idOf(assignedTask), itemId: itemOf(assignedTask), done: true }, { context }))
+                .resolves.toMatchObject([{ done: true }]);
+        });
+    });
+
+    describe("delete", () => {
+        it("refuses someone else's task, and the assignee", async () => {
+            for (const task of [othersTask, assignedTask]) {
+                await expect(call(tasksRouter.delete, { id: idOf(task) }, { context }))
+                    .rejects.toMatchObject({ code: "FORBIDDEN" });
+            }
+            expect(Task.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("lets the creator and the team's owner delete", async () => {
+            vi.mocked(loadAccess).mockResolvedValue(accessWith(BUILT_IN_ROLES.member, {
+                [teamId.toString()]: ["tasks:delete", "tasks:manage"],
+            }));
+            for (const task of [ownTask, teamTask]) {
+                await expect(call(tasksRouter.delete, { id: idOf(task) }, { context }))
+                    .resolves.toEqual({ success: true });
+            }
+            expect(Task.updateMany).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("reorder", () => {
+        it("refuses when any task belongs to someone else", async () => {
+            const tasks = [{ id: idOf(ownTask), order: 0 }, { id: idOf(othersTask), order: 1 }];
+            await expect(call(tasksRouter.reorder, { tasks }, { context }))
+                .rejects.toMatchObject({ code: "FORBIDDEN" });
+            expect(Task.findByIdAndUpdate).not.toHaveBeenCalled();
+        });
+
+        it("reorders the caller's own tasks", async () => {
+            await expect(call(tasksRouter.reorder, { tasks: [{ id: idOf(ownTask), order: 3 }] }, { context }))
+                .resolves.toEqual({ success: true });
+            expect(Task.findByIdAndUpdate).toHaveBeenCalledWith(idOf(ownTask), { $set: { order: 3 } });
+        });
+    });
+});
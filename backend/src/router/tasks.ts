@@ -1,25 +1,73 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
-import { Task } from "../models/index.js";
-
-type TaskStatus = "todo" | "in-progress" | "review" | "done";
+import { Types } from "mongoose";
+import { audit, authorized, inputField } from "../orpc.js";
+import { AuditLog, Comment, Task, Team, User, type ITask } from "../models/index.js";
+import { notFound } from "../lib/errors.js";
+import { assertAllowed, canDeleteTask, canUpdateTask, type Actor } from "../lib/ownership.js";
+import { moveToTrash } from "../lib/trash.js";
+import { commentView } from "../lib/comments.js";
+import {
+    assertUnblocked,
+    assertValidBlockers,
+    assertValidParent,
+    openBlockersOf,
+    progressOf,
+} from "../lib/tasks.js";
+import {
+    assertTransition,
+    initialStatus,
+    statusFields,
+    workflowForTeam,
+} from "../lib/workflows.js";
 
 const taskSchema = z.object({
     title: z.string().min(1),
     description: z.string().optional(),
-    status: z.enum(["todo", "in-progress", "review", "done"]).optional(),
+    // A status of the team's workflow; new tasks start in its first open status
+    status: z.string().min(1).optional(),
     priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
     assignee: z.string().nullable().optional(),
     dueDate: z.string().datetime().nullable().optional(),
     team: z.string().nullable().optional(),
     labels: z.array(z.string()).optional(),
+    parent: z.string().nullable().optional(),
+    blockedBy: z.array(z.string()).optional(),
 });
 
+// Task fields whose changes show up in the activity timeline
+const TRACKED_FIELDS = ["status", "assignee"];
+
+// Team of the task referenced by `input.id`, so team-scoped roles apply to it
+async function taskTeam(input: unknown) {
+    const id = inputField(input, "id");
+    if (!id || !Types.ObjectId.isValid(id)) return undefined;
+
+    const task = await Task.findById(id).select("team");
+    return task?.team?.toString();
+}
+
+// Loads a task its caller may edit, for the checklist procedures
+async function editableTask(id: string, context: Actor) {
+    const task = await Task.findById(id);
+    if (!task) throw notFound("Task");
+    assertAllowed(canUpdateTask(context, task), "Only the task's creator, assignee or team owner can update it");
+    return task;
+}
+
+function checklistView(task: ITask) {
+    return task.checklist.map((item) => ({
+        id: item._id.toString(),
+        text: item.text,
+        done: item.done,
+        doneAt: item.doneAt?.toISOString(),
+    }));
+}
+
 export const tasksRouter = {
-    list: protectedProcedure
+    list: authorized("tasks:read")
         .input(
             z.object({
-                status: z.enum(["todo", "in-progress", "review", "done"]).optional(),
+                status: z.string().optional(),
                 assignee: z.string().optional(),
                 team: z.string().optional(),
                 priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
@@ -38,6 +86,7 @@ export const tasksRouter = {
                 .populate("createdBy", "name email")
                 .populate("team", "name color")
                 .sort({ status: 1, order: 1, createdAt: -1 });
+            const [blockers, progress] = await Promise.all([openBlockersOf(tasks), progressOf(tasks)]);
 
             return tasks.map((task) => ({
                 id: task._id.toString(),
@@ -51,19 +100,41 @@ export const tasksRouter = {
                 team: task.team,
                 labels: task.labels,
                 order: task.order,
+                completedAt: task.completedAt?.toISOString(),
+                parent: task.parent?.toString(),
+                blockers: blockers.get(task._id.toString()) ?? [],
+                progress: progress.get(task._id.toString())!,
                 createdAt: task.createdAt.toISOString(),
             }));
         }),
 
-    get: protectedProcedure
+    get: authorized("tasks:read")
         .input(z.object({ id: z.string() }))
         .handler(async ({ input }) => {
             const task = await Task.findById(input.id)
                 .populate("assignee", "name email avatar")
                 .populate("createdBy", "name email")
-                .populate("team", "name color");
+                .populate("team", "name color")
+                .populate("parent", "title status completedAt")
+                .populate("blockedBy", "title status completedAt");
 
-            if (!task) throw new Error("Task not found");
+            if (!task) throw notFound("Task");
+
+            const [subtasks, blocking, progress, workflow] = await Promise.all([
+                Task.find({ parent: task._id })
+                    .populate("assignee", "name email avatar")
+                    .sort({ createdAt: 1 }),
+                Task.find({ blockedBy: task._id }).select("title status completedAt"),
+                progressOf([task]),
+                workflowForTeam(task.team?._id),
+            ]);
+            const related = (t: ITask) => ({
+                id: t._id.toString(),
+                title: t.title,
+                status: t.status,
+                done: Boolean(t.completedAt),
+            });
+            const parent = task.parent as unknown as ITask | null | undefined;
 
             return {
                 id: task._id.toString(),
@@ -77,14 +148,93 @@ export const tasksRouter = {
                 team: task.team,
                 labels: task.labels,
                 order: task.order,
+                completedAt: task.completedAt?.toISOString(),
+                // Statuses the task can be in, for naming them and offering moves
+                workflow,
+                parent: parent ? related(parent) : undefined,
+                subtasks: subtasks.map((s) => ({ ...related(s), assignee: s.assignee })),
+                checklist: checklistView(task),
+                // Populated blockers that were trashed come back as null
+                blockedBy: (task.blockedBy as unknown as (ITask | null)[]).filter((b) => b !== null).map(related),
+                blocking: blocking.map(related),
+                progress: progress.get(task._id.toString())!,
                 createdAt: task.createdAt.toISOString(),
             };
         }),
 
-    create: protectedProcedure
+    // Comments merged with status and assignee changes (from the audit log), oldest first
+    activity: authorized("tasks:read", taskTeam)
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            const task = await Task.findById(input.id).populate("createdBy", "name email avatar");
+            if (!task) throw notFound("Task");
+
+            const [comments, entries] = await Promise.all([
+                Comment.find({ targetType: "task", target: task._id })
+                    .populate("author", "name email avatar")
+                    .sort({ createdAt: 1 }),
+                AuditLog.find({ targetId: input.id, path: { $in: ["tasks.update", "tasks.updateStatus"] } })
+                    .populate("actor", "name email avatar")
+                    .sort({ createdAt: 1 }),
+            ]);
+
+            const changes = entries.flatMap((entry) =>
+                entry.changes
+                    .filter((change) => TRACKED_FIELDS.includes(change.field))
+                    .map((change) => ({ entry, change }))
+            );
+
+            // Assignees are stored as ids in the audit log
+            const assigneeIds = changes
+                .filter(({ change }) => change.field === "assignee")
+                .flatMap(({ change }) => [change.before, change.after])
+                .filter((id): id is string => typeof id === "string" && Types.ObjectId.isValid(id));
+            const users = await User.find({ _id: { $in: assigneeIds } }).select("name");
+            const names = new Map(users.map((u) => [u._id.toString(), u.name]));
+            const display = (field: string, value: unknown) =>
+                field === "assignee" && typeof value === "string" ? names.get(value) ?? "Deleted user" : value ?? null;
+
+            const items = [
+                {
+                    type: "created" as const,
+                    id: task._id.toString(),
+                    at: task.createdAt.toISOString(),
+                    actor: task.createdBy,
+                },
+                ...comments.map((comment) => ({
+                    type: "comment" as const,
+                    id: comment._id.toString(),
+                    at: comment.createdAt.toISOString(),
+                    actor: comment.author,
+                    comment: commentView(comment),
+                })),
+                ...changes.map(({ entry, change }) => ({
+                    type: "change" as const,
+                    id: `${entry._id.toString()}-${change.field}`,
+                    at: entry.createdAt.toISOString(),
+                    actor: entry.actor,
+                    field: change.field,
+                    from: display(change.field, change.before),
+                    to: display(change.field, change.after),
+                })),
+            ];
+
+            return items.sort((a, b) => a.at.localeCompare(b.at));
+        }),
+
+    create: authorized("tasks:create", (input) => inputField(input, "team"))
+        .use(audit(Task))
         .input(taskSchema)
         .handler(async ({ input, context }) => {
-            const maxOrderTask = await Task.findOne({ status: input.status ?? "todo" })
+            const parent = input.parent ? await assertValidParent(undefined, input.parent) : undefined;
+            if (input.blockedBy) await assertValidBlockers(undefined, input.blockedBy);
+
+            // Subtasks stay with their parent's team unless given one
+            const team = input.team || parent?.team;
+            const workflow = await workflowForTeam(team);
+            const status = statusFields(workflow, input.status || initialStatus(workflow));
+
+            const maxOrderTask = await Task.findOne({ status: status.status })
                 .sort({ order: -1 })
                 .select("order");
             const order = (maxOrderTask?.order ?? 0) + 1;
@@ -92,15 +242,18 @@ export const tasksRouter = {
             const newTask = new Task({
                 title: input.title,
                 description: input.description,
-                status: input.status || "todo",
+                ...status,
                 priority: input.priority || "medium",
                 assignee: input.assignee || undefined,
                 dueDate: input.dueDate ? new Date(input.dueDate) : undefined,
-                team: input.team || undefined,
+                team,
                 labels: input.labels || [],
+                parent: parent?._id,
+                blockedBy: input.blockedBy || [],
                 createdBy: context.user.userId,
                 order,
             });
+            if (newTask.completedAt) await assertUnblocked(newTask);
 
             const task = await newTask.save();
 
@@ -113,21 +266,53 @@ export const tasksRouter = {
             };
         }),
 
-    update: protectedProcedure
+    update: authorized("tasks:update", taskTeam)
+        .use(audit(Task))
         .input(
             z.object({
                 id: z.string(),
                 data: taskSchema.partial(),
             })
         )
-        .handler(async ({ input }) => {
+        .handler(async ({ input, context }) => {
+            const existing = await Task.findById(input.id);
+            if (!existing) throw notFound("Task");
+            assertAllowed(canUpdateTask(context, existing), "Only the task's creator, assignee or team owner can update it");
+
+            if (input.data.parent) await assertValidParent(input.id, input.data.parent);
+            if (input.data.blockedBy) await assertValidBlockers(input.id, input.data.blockedBy);
+
+            // Moving to another team puts the task on that team's board: in the same status if the board has
+            // it, otherwise in its first (or, for finished tasks, done) status. Whether that status counts as
+            // done follows the new board.
+            const teamChanged = input.data.team !== undefined
+                && (input.data.team ?? undefined) !== existing.team?.toString();
+            const workflow = await workflowForTeam(teamChanged ? input.data.team : existing.team);
+            let status = input.data.status;
+            if (status) {
+                if (!teamChanged) assertTransition(workflow, existing.status, status);
+            } else if (teamChanged && workflow.some((s) => s.key === existing.status)) {
+                status = existing.status;
+            } else if (teamChanged) {
+                status = existing.completedAt ? workflow.find((s) => s.done)!.key : initialStatus(workflow);
+            }
+
             const updateData: Record<string, unknown> = { ...input.data };
+            if (status) {
+                Object.assign(updateData, statusFields(workflow, status, existing.completedAt));
+                if (updateData["completedAt"] && !existing.completedAt) {
+                    await assertUnblocked({
+                        _id: existing._id,
+                        blockedBy: input.data.blockedBy?.map((id) => new Types.ObjectId(id)) ?? existing.blockedBy,
+                    });
+                }
+            }
             if (input.data.dueDate !== undefined) {
                 updateData["dueDate"] = input.data.dueDate ? new Date(input.data.dueDate) : null;
             }
 
             const task = await Task.findByIdAndUpdate(input.id, { $set: updateData }, { new: true });
-            if (!task) throw new Error("Task not found");
+            if (!task) throw notFound("Task");
 
             return {
                 id: task._id.toString(),
@@ -137,21 +322,31 @@ export const tasksRouter = {
             };
         }),
 
-    updateStatus: protectedProcedure
+    updateStatus: authorized("tasks:update", taskTeam)
+        .use(audit(Task))
         .input(
             z.object({
                 id: z.string(),
-                status: z.enum(["todo", "in-progress", "review", "done"]),
+                status: z.string().min(1),
                 order: z.number(),
             })
         )
-        .handler(async ({ input }) => {
+        .handler(async ({ input, context }) => {
+            const existing = await Task.findById(input.id);
+            if (!existing) throw notFound("Task");
+            assertAllowed(canUpdateTask(context, existing), "Only the task's creator, assignee or team owner can move it");
+
+            const workflow = await workflowForTeam(existing.team);
+            assertTransition(workflow, existing.status, input.status);
+            const status = statusFields(workflow, input.status, existing.completedAt);
+            if (status.completedAt && !existing.completedAt) await assertUnblocked(existing);
+
             const task = await Task.findByIdAndUpdate(
                 input.id,
-                { $set: { status: input.status, order: input.order } },
+                { $set: { ...status, order: input.order } },
                 { new: true }
             );
-            if (!task) throw new Error("Task not found");
+            if (!task) throw notFound("Task");
 
             return {
                 id: task._id.toString(),
@@ -160,44 +355,100 @@ export const tasksRouter = {
             };
         }),
 
-    reorder: protectedProcedure
+    addChecklistItem: authorized("tasks:update", taskTeam)
+        .use(audit(Task))
+        .input(z.object({ id: z.string(), text: z.string().trim().min(1).max(500) }))
+        .handler(async ({ input, context }) => {
+            const task = await editableTask(input.id, context);
+            task.checklist.push({ text: input.text, done: false } as ITask["checklist"][number]);
+            await task.save();
+            return checklistView(task);
+        }),
+
+    updateChecklistItem: authorized("tasks:update", taskTeam)
+        .use(audit(Task))
+        .input(
+            z.object({
+                id: z.string(),
+                itemId: z.string(),
+                text: z.string().trim().min(1).max(500).optional(),
+                done: z.boolean().optional(),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const task = await editableTask(input.id, context);
+            const item = task.checklist.find((i) => i._id.equals(input.itemId));
+            if (!item) throw notFound("Checklist item", input.itemId);
+
+            if (input.text !== undefined) item.text = input.text;
+            if (input.done !== undefined && input.done !== item.done) {
+                item.done = input.done;
+                item.doneAt = input.done ? new Date() : undefined;
+                item.doneBy = input.done ? new Types.ObjectId(context.user.userId) : undefined;
+            }
+            await task.save();
+            return checklistView(task);
+        }),
+
+    removeChecklistItem: authorized("tasks:update", taskTeam)
+        .use(audit(Task))
+        .input(z.object({ id: z.string(), itemId: z.string() }))
+        .handler(async ({ input, context }) => {
+            const task = await editableTask(input.id, context);
+            task.checklist = task.checklist.filter((i) => !i._id.equals(input.itemId));
+            await task.save();
+            return checklistView(task);
+        }),
+
+    reorder: authorized("tasks:update")
+        .use(audit())
         .input(z.object({ tasks: z.array(z.object({ id: z.string(), order: z.number() })) }))
-        .handler(async ({ input }) => {
+        .handler(async ({ input, context }) => {
+            const ids = input.tasks.map((t) => t.id);
+            const tasks = ids.every((id) => Types.ObjectId.isValid(id)) ? await Task.find({ _id: { $in: ids } }) : [];
+            for (const id of ids) {
+                const task = tasks.find((t) => t._id.equals(id));
+                if (!task) throw notFound("Task", id);
+                assertAllowed(canUpdateTask(context, task), "Only the task's creator, assignee or team owner can move it");
+            }
+
             await Promise.all(
                 input.tasks.map((t) => Task.findByIdAndUpdate(t.id, { $set: { order: t.order } }))
             );
             return { success: true };
         }),
 
-    delete: protectedProcedure
+    delete: authorized("tasks:delete", taskTeam)
+        .use(audit(Task))
         .input(z.object({ id: z.string() }))
-        .handler(async ({ input }) => {
-            const task = await Task.findByIdAndDelete(input.id);
-            if (!task) throw new Error("Task not found");
+        .handler(async ({ input, context }) => {
+            const task = await Task.findById(input.id);
+            if (!task) throw notFound("Task");
+            assertAllowed(canDeleteTask(context, task), "Only the task's creator or team owner can delete it");
+
+            await moveToTrash("tasks", task, context.user.userId);
             return { success: true };
         }),
 
-    kanban: protectedProcedure
+    // Columns follow the team's workflow; without a team, the board holds the tasks on the default workflow
+    kanban: authorized("tasks:read")
         .input(z.object({ team: z.string().optional() }).optional())
         .handler(async ({ input }) => {
             const query: Record<string, unknown> = {};
-            if (input?.team) query["team"] = input.team;
+            if (input?.team) {
+                query["team"] = input.team;
+            } else {
+                const customized = await Team.find({ "workflow.0": { $exists: true } }).select("_id");
+                query["team"] = { $nin: customized.map((t) => t._id) };
+            }
+            const workflow = await workflowForTeam(input?.team);
 
             const tasks = await Task.find(query)
                 .populate("assignee", "name email avatar")
                 .populate("team", "name color")
+                .populate("parent", "title")
                 .sort({ order: 1 });
-
-            const grouped: Record<TaskStatus, typeof tasks> = {
-                "todo": [],
-                "in-progress": [],
-                "review": [],
-                "done": [],
-            };
-
-            for (const task of tasks) {
-                grouped[task.status as TaskStatus].push(task);
-            }
+            const [blockers, progress] = await Promise.all([openBlockersOf(tasks), progressOf(tasks)]);
 
             const mapTask = (t: (typeof tasks)[0]) => ({
                 id: t._id.toString(),
@@ -208,13 +459,21 @@ export const tasksRouter = {
                 dueDate: t.dueDate?.toISOString(),
                 labels: t.labels,
                 order: t.order,
+                done: Boolean(t.completedAt),
+                parent: t.parent,
+                // Open tasks this one waits on; it can't be moved to done while there are any
+                blockers: blockers.get(t._id.toString()) ?? [],
+                progress: progress.get(t._id.toString())!,
             });
 
-            return {
-                todo: grouped["todo"].map(mapTask),
-                "in-progress": grouped["in-progress"].map(mapTask),
-                review: grouped["review"].map(mapTask),
-                done: grouped["done"].map(mapTask),
-            };
+            const columns: Record<string, ReturnType<typeof mapTask>[]> = Object.fromEntries(
+                workflow.map((s) => [s.key, []])
+            );
+            for (const task of tasks) {
+                // Tasks left in a status the workflow no longer has wait in its first column
+                (columns[task.status] ?? columns[initialStatus(workflow)]!).push(mapTask(task));
+            }
+
+            return { workflow, columns };
         }),
 };
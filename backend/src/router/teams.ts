@@ -1,6 +1,11 @@
 import { z } from "zod";
-import { protectedProcedure } from "../orpc.js";
-import { Team, User } from "../models/index.js";
+import { audit, authorized, inputField } from "../orpc.js";
+import { Role, Task, Team, User } from "../models/index.js";
+import { conflict, forbidden, hasDependents, invalid, notFound } from "../lib/errors.js";
+import { isMember, memberIds } from "../lib/organizations.js";
+import { moveToTrash } from "../lib/trash.js";
+import { inTransaction } from "../db/transaction.js";
+import { fitTasksToWorkflow, validateWorkflow, workflowOf } from "../lib/workflows.js";
 
 const teamSchema = z.object({
     name: z.string().min(1),
@@ -8,8 +13,16 @@ const teamSchema = z.object({
     color: z.string().optional(),
 });
 
+const workflowStatusSchema = z.object({
+    key: z.string().trim().min(1).max(40).regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+    name: z.string().trim().min(1).max(60),
+    color: z.string().default("#6b7280"),
+    done: z.boolean().default(false),
+    next: z.array(z.string()).default([]),
+});
+
 export const teamsRouter = {
-    list: protectedProcedure.handler(async () => {
+    list: authorized("teams:read").handler(async () => {
         const teams = await Team.find()
             .populate("owner", "name email")
             .populate("members", "name email avatar")
@@ -27,7 +40,7 @@ export const teamsRouter = {
         }));
     }),
 
-    get: protectedProcedure
+    get: authorized("teams:read")
         .input(z.object({ id: z.string() }))
         .handler(async ({ input }) => {
             const team = await Team.findById(input.id)
@@ -35,7 +48,7 @@ export const teamsRouter = {
                 .populate("members", "name email avatar");
 
             if (!team) {
-                throw new Error("Team not found");
+                throw notFound("Team");
             }
 
             return {
@@ -45,11 +58,14 @@ export const teamsRouter = {
                 owner: team.owner,
                 members: team.members,
                 color: team.color,
+                workflow: workflowOf(team),
+                customWorkflow: team.workflow.length > 0,
                 createdAt: team.createdAt.toISOString(),
             };
         }),
 
-    create: protectedProcedure
+    create: authorized("teams:create")
+        .use(audit(Team))
         .input(teamSchema)
         .handler(async ({ input, context }) => {
             const newTeam = new Team({
@@ -69,23 +85,15 @@ export const teamsRouter = {
             };
         }),
 
-    update: protectedProcedure
+    update: authorized("teams:update", (input) => inputField(input, "id"))
+        .use(audit(Team))
         .input(
             z.object({
                 id: z.string(),
                 data: teamSchema.partial(),
             })
         )
-        .handler(async ({ input, context }) => {
-            const team = await Team.findById(input.id);
-            if (!team) {
-                throw new Error("Team not found");
-            }
-
-            if (team.owner.toString() !== context.user.userId) {
-                throw new Error("Only the team owner can update the team");
-            }
-
+        .handler(async ({ input }) => {
             const updated = await Team.findByIdAndUpdate(
                 input.id,
                 { $set: input.data },
@@ -93,7 +101,7 @@ export const teamsRouter = {
             );
 
             if (!updated) {
-                throw new Error("Failed to update team");
+                throw notFound("Team");
             }
 
             return {
@@ -103,57 +111,144 @@ export const teamsRouter = {
             };
         }),
 
-    addMember: protectedProcedure
+    addMember: authorized("teams:update", (input) => inputField(input, "teamId"))
+        .use(audit(Team, "teamId"))
         .input(z.object({ teamId: z.string(), userId: z.string() }))
-        .handler(async ({ input, context }) => {
+        .handler(async ({ input }) => {
             const team = await Team.findById(input.teamId);
-            if (!team) throw new Error("Team not found");
-            if (team.owner.toString() !== context.user.userId) {
-                throw new Error("Only the team owner can add members");
-            }
+            if (!team) throw notFound("Team");
 
             const user = await User.findById(input.userId);
-            if (!user) throw new Error("User not found");
+            if (!user || !(await isMember(user._id))) throw notFound("User");
 
             if (team.members.some((m) => m.toString() === input.userId)) {
-                throw new Error("User is already a team member");
+                throw conflict("User is already a team member");
             }
 
             await Team.findByIdAndUpdate(input.teamId, { $push: { members: input.userId } });
             return { success: true };
         }),
 
-    removeMember: protectedProcedure
+    removeMember: authorized("teams:update", (input) => inputField(input, "teamId"))
+        .use(audit(Team, "teamId"))
         .input(z.object({ teamId: z.string(), userId: z.string() }))
-        .handler(async ({ input, context }) => {
+        .handler(async ({ input }) => {
             const team = await Team.findById(input.teamId);
-            if (!team) throw new Error("Team not found");
-            if (team.owner.toString() !== context.user.userId) {
-                throw new Error("Only the team owner can remove members");
-            }
+            if (!team) throw notFound("Team");
             if (team.owner.toString() === input.userId) {
-                throw new Error("Cannot remove the team owner");
+                throw conflict("Cannot remove the team owner");
             }
 
-            await Team.findByIdAndUpdate(input.teamId, { $pull: { members: input.userId } });
+            await Team.findByIdAndUpdate(input.teamId, {
+                $pull: { members: input.userId, memberRoles: { user: input.userId } },
+            });
             return { success: true };
         }),
 
-    delete: protectedProcedure
-        .input(z.object({ id: z.string() }))
-        .handler(async ({ input, context }) => {
+    // Replaces the team's task statuses (an empty list goes back to the default workflow). Tasks in statuses
+    // that were removed move to `moveTo[status]`, or else to the first open status (first done one if finished).
+    updateWorkflow: authorized("teams:update", (input) => inputField(input, "id"))
+        .use(audit(Team))
+        .input(
+            z.object({
+                id: z.string(),
+                statuses: z.array(workflowStatusSchema).max(20),
+                moveTo: z.record(z.string(), z.string()).optional(),
+            })
+        )
+        .handler(async ({ input }) => {
+            validateWorkflow(input.statuses);
             const team = await Team.findById(input.id);
-            if (!team) throw new Error("Team not found");
-            if (team.owner.toString() !== context.user.userId) {
-                throw new Error("Only the team owner can delete the team");
+            if (!team) throw notFound("Team");
+
+            const moved = await inTransaction(async () => {
+                team.set("workflow", input.statuses);
+                await team.save();
+                return fitTasksToWorkflow({ team: team._id }, workflowOf(team), input.moveTo);
+            });
+
+            return { workflow: workflowOf(team), moved };
+        }),
+
+    // Grants a member a custom role that only applies within this team (null revokes it)
+    setMemberRole: authorized("roles:manage")
+        .use(audit(Team, "teamId"))
+        .input(z.object({ teamId: z.string(), userId: z.string(), roleId: z.string().nullable() }))
+        .handler(async ({ input }) => {
+            const team = await Team.findById(input.teamId);
+            if (!team) throw notFound("Team");
+
+            if (!team.members.some((m) => m.toString() === input.userId)) {
+                throw invalid("User is not a team member");
+            }
+
+            if (input.roleId && !(await Role.exists({ _id: input.roleId }))) {
+                throw notFound("Role");
+            }
+
+            await Team.findByIdAndUpdate(input.teamId, { $pull: { memberRoles: { user: input.userId } } });
+            if (input.roleId) {
+                await Team.findByIdAndUpdate(input.teamId, {
+                    $push: { memberRoles: { user: input.userId, role: input.roleId } },
+                });
             }
 
-            await Team.findByIdAndDelete(input.id);
             return { success: true };
         }),
 
-    availableUsers: protectedProcedure.handler(async () => {
-        const users = await User.find().select("name email avatar");
+    // The team's tasks block the delete unless `policy` moves them to the `reassignTo` team ("reassign")
+    // or takes them out of any team ("cascade")
+    delete: authorized("teams:delete", (input) => inputField(input, "id"))
+        .use(audit(Team))
+        .input(
+            z.object({
+                id: z.string(),
+                policy: z.enum(["block", "reassign", "cascade"]).default("block"),
+                reassignTo: z.string().optional(),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const team = await Team.findById(input.id);
+            if (!team) throw notFound("Team");
+
+            const tasks = await Task.find({ team: team._id }).select("title").sort({ createdAt: 1 });
+            if (tasks.length > 0 && input.policy === "block") {
+                throw hasDependents(
+                    `${team.name} still has ${tasks.length} task(s)`,
+                    tasks.map((t) => ({ kind: "task", id: t._id.toString(), title: t.title }))
+                );
+            }
+
+            let target = null;
+            if (tasks.length > 0 && input.policy === "reassign") {
+                if (!input.reassignTo || input.reassignTo === input.id) {
+                    throw invalid("Choose another team to move the tasks to");
+                }
+                target = await Team.findById(input.reassignTo);
+                if (!target) throw notFound("Team", input.reassignTo);
+                if (!context.access.can("tasks:update", target._id.toString())) {
+                    throw forbidden(`You cannot move tasks into ${target.name}`, "tasks:update");
+                }
+            }
+
+            await inTransaction(async () => {
+                if (tasks.length > 0) {
+                    await Task.updateMany(
+                        { team: team._id },
+                        target ? { $set: { team: target._id } } : { $unset: { team: 1 } }
+                    );
+                    // The tasks now follow the workflow of the team they moved to
+                    await fitTasksToWorkflow({ _id: { $in: tasks.map((t) => t._id) } }, workflowOf(target));
+                }
+                await moveToTrash("teams", team, context.user.userId);
+            });
+
+            return { success: true, moved: tasks.length };
+        }),
+
+    // Members of the organization, who can be added to its teams
+    availableUsers: authorized("teams:read").handler(async () => {
+        const users = await User.find({ _id: { $in: await memberIds() }, deletedAt: null }).select("name email avatar");
         return users.map((u) => ({
             id: u._id.toString(),
             name: u.name,
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { accessProcedure, audit } from "../orpc.js";
+import { forbidden } from "../lib/errors.js";
+import {
+    TRASH_KINDS,
+    TRASH_RETENTION_DAYS,
+    canPurge,
+    canRestore,
+    findTrashed,
+    listTrashed,
+    purgeDate,
+    purgeFromTrash,
+    restoreFromTrash,
+} from "../lib/trash.js";
+
+const kindSchema = z.enum(TRASH_KINDS);
+const itemSchema = z.object({ kind: kindSchema, id: z.string() });
+
+export const trashRouter = {
+    // Deleted items the caller may restore, newest first
+    list: accessProcedure
+        .input(z.object({ kind: kindSchema.optional() }))
+        .handler(async ({ input, context }) => {
+            const kinds = input.kind ? [input.kind] : TRASH_KINDS;
+            const items = [];
+
+            for (const kind of kinds) {
+                const docs = await listTrashed(kind);
+                for (const doc of docs) {
+                    if (!canRestore(context.access, context.user, kind, doc)) continue;
+
+                    items.push({
+                        kind,
+                        id: doc._id.toString(),
+                        title: doc.title ?? doc.name ?? "",
+                        deletedBy: doc.deletedBy,
+                        deletedAt: doc.deletedAt!.toISOString(),
+                        purgeAt: purgeDate(doc.deletedAt!).toISOString(),
+                        canPurge: canPurge(context.access, kind, doc),
+                    });
+                }
+            }
+
+            items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+            return { items, retentionDays: TRASH_RETENTION_DAYS };
+        }),
+
+    restore: accessProcedure
+        .use(audit())
+        .input(itemSchema)
+        .handler(async ({ input, context }) => {
+            const doc = await findTrashed(input.kind, input.id);
+            if (!canRestore(context.access, context.user, input.kind, doc)) {
+                throw forbidden("Only whoever deleted this item or a manager can restore it");
+            }
+
+            await restoreFromTrash(input.kind, doc);
+            return { success: true };
+        }),
+
+    // Deletes the item for good instead of waiting for the retention period
+    purge: accessProcedure
+        .use(audit())
+        .input(itemSchema)
+        .handler(async ({ input, context }) => {
+            const doc = await findTrashed(input.kind, input.id);
+            if (!canPurge(context.access, input.kind, doc)) {
+                throw forbidden("Only managers can permanently delete items");
+            }
+
+            await purgeFromTrash(input.kind, doc);
+            return { success: true };
+        }),
+};
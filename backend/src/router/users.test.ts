@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { call } from "@orpc/server";
+import { Organization, User } from "../models/index.js";
+import { BUILT_IN_ROLES, loadAccess } from "../lib/permissions.js";
+import { accessWith, contextFor, member, objectId, query } from "../test/helpers.js";
+import { authRouter } from "./auth.js";
+import { usersRouter } from "./users.js";
+
+vi.mock("../lib/permissions.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../lib/permissions.js")>(),
+    loadAccess: vi.fn(),
+}));
+
+// Admin of the organization the session works in, but not of the deployment
+const orgAdmin = { ...member(), role: "admin" as const };
+const context = contextFor(orgAdmin);
+
+describe("deployment-wide account operations", () => {
+    beforeEach(() => {
+        vi.spyOn(User, "findById").mockReturnValue(query(new User({ email: orgAdmin.email, role: "member" })) as never);
+        vi.spyOn(User, "findOne").mockReturnValue(query(null) as never);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("are refused to organization admins", async () => {
+        const id = objectId().toString();
+        await expect(call(usersRouter.deactivate, { id }, { context })).rejects.toMatchObject({ code: "FORBIDDEN" });
+        await expect(call(usersRouter.reactivate, { id }, { context })).rejects.toMatchObject({ code: "FORBIDDEN" });
+        await expect(call(authRouter.lockouts, undefined, { context })).rejects.toMatchObject({ code: "FORBIDDEN" });
+        await expect(call(authRouter.unlockLogin, { subject: "someone@example.com" }, { context }))
+            .rejects.toMatchObject({ code: "FORBIDDEN" });
+        expect(User.findOne).not.toHaveBeenCalled();
+    });
+});
+
+describe("users.setRole", () => {
+    // A member holding "users:manage" through a custom role
+    const manager = member();
+    const peer = objectId();
+    const admin = objectId();
+    const organization = new Organization({
+        name: "Acme",
+        members: [
+            { user: manager.userId, role: "member" },
+            { user: peer, role: "member" },
+            { user: admin, role: "admin" },
+        ],
+    });
+    const setRole = (caller: typeof manager, id: string, role: "admin" | "member") =>
+        call(usersRouter.setRole, { id, role }, { context: contextFor(caller) });
+
+    beforeEach(() => {
+        vi.mocked(loadAccess).mockResolvedValue(accessWith([...BUILT_IN_ROLES.member, "users:manage"]));
+        vi.spyOn(Organization, "findById").mockReturnValue(query(organization) as never);
+        vi.spyOn(organization, "save").mockResolvedValue(organization);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("refuses to grant or revoke admin without being an admin", async () => {
+        await expect(setRole(manager, peer.toString(), "admin")).rejects.toMatchObject({ code: "FORBIDDEN" });
+        await expect(setRole(manager, admin.toString(), "member")).rejects.toMatchObject({ code: "FORBIDDEN" });
+        expect(organization.save).not.toHaveBeenCalled();
+    });
+
+    it("refuses changes to the caller's own role", async () => {
+        await expect(setRole({ ...manager, role: "admin" }, manager.userId, "admin"))
+            .rejects.toMatchObject({ code: "CONFLICT" });
+        expect(organization.save).not.toHaveBeenCalled();
+    });
+
+    it("lets admins promote members", async () => {
+        await expect(setRole({ ...manager, role: "admin" }, peer.toString(), "admin"))
+            .resolves.toEqual({ id: peer.toString(), role: "admin" });
+    });
+});
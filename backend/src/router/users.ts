@@ -0,0 +1,274 @@
+import { z } from "zod";
+import { Types } from "mongoose";
+import { audit, authorized, deploymentAdminProcedure } from "../orpc.js";
+import { Invitation, Team, User, type IOrganization, type IUser } from "../models/index.js";
+import { conflict, forbidden, notFound } from "../lib/errors.js";
+import { revokeAllSessions } from "../lib/sessions.js";
+import { inviteUser } from "../lib/invitations.js";
+import { activeOrganization, removeMemberWithItems } from "../lib/organizations.js";
+
+const roleSchema = z.enum(["admin", "member"]);
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Admins of the organization that can still sign in; the last one may not be demoted, deactivated or removed
+async function assertNotLastAdmin(organization: IOrganization, userId: string) {
+    const others = await User.countDocuments({
+        _id: { $in: organization.members.filter((m) => m.role === "admin" && !m.user.equals(userId)).map((m) => m.user) },
+        deletedAt: null,
+        deactivatedAt: null,
+    });
+    if (others === 0) {
+        throw conflict("At least one active admin is required");
+    }
+}
+
+// Deactivation locks the account out everywhere, so some other deployment admin has to remain
+async function assertNotLastDeploymentAdmin(user: IUser) {
+    if (user.role !== "admin") return;
+    const others = await User.countDocuments({ _id: { $ne: user._id }, role: "admin", deletedAt: null, deactivatedAt: null });
+    if (others === 0) {
+        throw conflict("At least one active deployment admin is required");
+    }
+}
+
+function membershipOf(organization: IOrganization, userId: string) {
+    const member = organization.members.find((m) => m.user.equals(userId));
+    if (!member) {
+        throw notFound("Member", userId);
+    }
+    return member;
+}
+
+// What setRole and remove change: the user's membership of the active organization
+async function membership(userId: string) {
+    const organization = await activeOrganization();
+    const member = organization.members.find((m) => m.user.equals(userId));
+    return member && { role: member.role, joinedAt: member.joinedAt };
+}
+
+// Everything here works on the members of the caller's active organization
+export const usersRouter = {
+    list: authorized("users:manage")
+        .input(
+            z.object({
+                search: z.string().optional(),
+                role: roleSchema.optional(),
+                status: z.enum(["active", "deactivated"]).optional(),
+                page: z.number().int().min(1).default(1),
+                pageSize: z.number().int().min(1).max(100).default(20),
+            })
+        )
+        .handler(async ({ input }) => {
+            const organization = await activeOrganization();
+            const roles = new Map(organization.members.map((m) => [m.user.toString(), m.role]));
+
+            const query: Record<string, unknown> = {
+                _id: { $in: organization.members.filter((m) => !input.role || m.role === input.role).map((m) => m.user) },
+                deletedAt: null,
+            };
+            if (input.status === "active") query["deactivatedAt"] = null;
+            if (input.status === "deactivated") query["deactivatedAt"] = { $ne: null };
+
+            const search = input.search?.trim();
+            if (search) {
+                const pattern = new RegExp(escapeRegex(search), "i");
+                query["$or"] = [{ name: pattern }, { email: pattern }];
+            }
+
+            const [users, total] = await Promise.all([
+                User.find(query)
+                    .sort({ name: 1 })
+                    .skip((input.page - 1) * input.pageSize)
+                    .limit(input.pageSize),
+                User.countDocuments(query),
+            ]);
+
+            const teams = await Team.find({ members: { $in: users.map((u) => u._id) } }).select("name members");
+
+            return {
+                items: users.map((user) => ({
+                    id: user._id.toString(),
+                    name: user.name,
+                    email: user.email,
+                    role: roles.get(user._id.toString()) ?? "member",
+                    avatar: user.avatar,
+                    emailVerified: user.emailVerified,
+                    twoFactorEnabled: user.twoFactor.enabled,
+                    sso: Boolean(user.sso?.subject),
+                    teams: teams
+                        .filter((t) => t.members.some((m) => m.equals(user._id)))
+                        .map((t) => ({ id: t._id.toString(), name: t.name })),
+                    deactivatedAt: user.deactivatedAt?.toISOString(),
+                    createdAt: user.createdAt.toISOString(),
+                })),
+                total,
+                page: input.page,
+                pageSize: input.pageSize,
+            };
+        }),
+
+    // Holders of "users:manage" through a custom role may not hand out or take away admin
+    setRole: authorized("users:manage")
+        .use(audit(membership))
+        .input(z.object({ id: z.string(), role: roleSchema }))
+        .handler(async ({ input, context }) => {
+            if (input.id === context.user.userId) {
+                throw conflict("You cannot change your own role");
+            }
+
+            const organization = await activeOrganization();
+            const member = membershipOf(organization, input.id);
+
+            if ((member.role === "admin" || input.role === "admin") && context.user.role !== "admin") {
+                throw forbidden("Only admins can grant or revoke the admin role");
+            }
+
+            if (member.role === "admin" && input.role !== "admin") {
+                await assertNotLastAdmin(organization, input.id);
+            }
+
+            member.role = input.role;
+            await organization.save();
+            return { id: input.id, role: member.role };
+        }),
+
+    // Blocks sign-in, session refresh and API tokens in every organization; access tokens already issued
+    // expire within minutes. Organization admins can only `remove` users from their organization.
+    deactivate: deploymentAdminProcedure
+        .use(audit(User))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input, context }) => {
+            if (input.id === context.user.userId) {
+                throw conflict("You cannot deactivate your own account");
+            }
+
+            const organization = await activeOrganization();
+            const member = membershipOf(organization, input.id);
+
+            const user = await User.findOne({ _id: input.id, deletedAt: null });
+            if (!user) {
+                throw notFound("User", input.id);
+            }
+            if (user.deactivatedAt) {
+                throw conflict("User is already deactivated");
+            }
+            if (member.role === "admin") {
+                await assertNotLastAdmin(organization, input.id);
+            }
+            await assertNotLastDeploymentAdmin(user);
+
+            user.deactivatedAt = new Date();
+            user.deactivatedBy = new Types.ObjectId(context.user.userId);
+            await user.save();
+            await revokeAllSessions(input.id);
+
+            return { success: true };
+        }),
+
+    reactivate: deploymentAdminProcedure
+        .use(audit(User))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            membershipOf(await activeOrganization(), input.id);
+
+            const user = await User.findOneAndUpdate(
+                { _id: input.id, deletedAt: null, deactivatedAt: { $ne: null } },
+                { $unset: { deactivatedAt: 1, deactivatedBy: 1 } },
+                { new: true }
+            );
+            if (!user) {
+                throw notFound("Deactivated user", input.id);
+            }
+            return { success: true };
+        }),
+
+    // Mails an invitation link; people who already have an account join once they accept it, like new ones
+    invite: authorized("users:manage")
+        .use(audit())
+        .input(
+            z.object({
+                email: z.string().email(),
+                name: z.string().optional(),
+                role: roleSchema.default("member"),
+                teams: z.array(z.string()).default([]),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            const inviter = await User.findById(context.user.userId);
+            if (!inviter) {
+                throw notFound("User");
+            }
+
+            const invitation = await inviteUser(input, await activeOrganization(), inviter);
+            return {
+                id: invitation._id.toString(),
+                email: invitation.email,
+                expiresAt: invitation.expiresAt.toISOString(),
+            };
+        }),
+
+    // Takes the user out of the organization (and its teams); the account itself is left alone
+    // Owned teams, open assigned tasks, upcoming bookings and assigned assets block the removal unless
+    // `policy` hands them to the `reassignTo` member ("reassign") or releases them ("cascade"): teams go
+    // to the caller, bookings are cancelled and assignments are cleared
+    remove: authorized("users:manage")
+        .use(audit(membership))
+        .input(
+            z.object({
+                id: z.string(),
+                policy: z.enum(["block", "reassign", "cascade"]).default("block"),
+                reassignTo: z.string().optional(),
+            })
+        )
+        .handler(async ({ input, context }) => {
+            if (input.id === context.user.userId) {
+                throw conflict("You cannot remove yourself from the organization");
+            }
+
+            const organization = await activeOrganization();
+            const member = membershipOf(organization, input.id);
+            if (member.role === "admin") {
+                await assertNotLastAdmin(organization, input.id);
+            }
+
+            await removeMemberWithItems(organization, input.id, input.policy, {
+                reassignTo: input.reassignTo,
+                teamsTo: context.user.userId,
+            });
+
+            return { success: true };
+        }),
+
+    // Invitations that were sent but not accepted yet
+    invitations: authorized("users:manage").handler(async () => {
+        const invitations = await Invitation.find({ acceptedAt: null, expiresAt: { $gt: new Date() } })
+            .populate("teams", "name")
+            .populate("invitedBy", "name email")
+            .sort({ createdAt: -1 });
+
+        return invitations.map((invitation) => ({
+            id: invitation._id.toString(),
+            email: invitation.email,
+            name: invitation.name,
+            role: invitation.role,
+            teams: invitation.teams,
+            invitedBy: invitation.invitedBy,
+            expiresAt: invitation.expiresAt.toISOString(),
+            createdAt: invitation.createdAt.toISOString(),
+        }));
+    }),
+
+    revokeInvitation: authorized("users:manage")
+        .use(audit(Invitation))
+        .input(z.object({ id: z.string() }))
+        .handler(async ({ input }) => {
+            const result = await Invitation.deleteOne({ _id: input.id, acceptedAt: null });
+            if (result.deletedCount === 0) {
+                throw notFound("Invitation", input.id);
+            }
+            return { success: true };
+        }),
+};
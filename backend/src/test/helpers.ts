@@ -0,0 +1,40 @@
+import { Types } from "mongoose";
+import type { Request } from "express";
+import type { JWTPayload } from "../middleware/auth.js";
+import type { Context } from "../orpc.js";
+import { createAccess, type Access, type Permission } from "../lib/permissions.js";
+
+export function objectId(): Types.ObjectId {
+    return new Types.ObjectId();
+}
+
+export function member(userId = objectId().toString()): JWTPayload {
+    return { userId, email: `${userId}@example.com`, role: "member", organizationId: objectId().toString() };
+}
+
+// Access holding `permissions` everywhere and `teams[teamId]` within that team only
+export function accessWith(permissions: Permission[], teams: Record<string, Permission[]> = {}): Access {
+    return createAccess(
+        new Set(permissions),
+        new Map(Object.entries(teams).map(([teamId, scoped]) => [teamId, new Set(scoped)]))
+    );
+}
+
+export function contextFor(user: JWTPayload): Context {
+    return { req: { headers: {} } as Request, user };
+}
+
+// Stands in for a mongoose query resolving to `result`, chainable through select/populate/sort/limit
+export function query<T>(result: T): Promise<T> & {
+    select: () => unknown;
+    populate: () => unknown;
+    sort: () => unknown;
+    limit: () => unknown;
+} {
+    return Object.assign(Promise.resolve(result), {
+        select: () => query(result),
+        populate: () => query(result),
+        sort: () => query(result),
+        limit: () => query(result),
+    });
+}
@@ -0,0 +1,83 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+
+export interface MockIdp {
+    issuer: string;
+    // Claims of the next ID token; `nonce` is taken from the authorization request
+    claims: Record<string, unknown>;
+    authorize(authorizationUrl: string): { code: string; state: string };
+    close(): Promise<void>;
+}
+
+function base64url(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// Minimal OpenID Connect provider on localhost: discovery, JWKS and an authorization code grant
+// that answers with an RS256-signed ID token carrying `claims`
+export async function startMockIdp(clientId: string): Promise<MockIdp> {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: "jwk" }), kid: "mock", alg: "RS256", use: "sig" };
+    const codes = new Map<string, string>();
+
+    const idp: MockIdp = {
+        issuer: "",
+        claims: {},
+        authorize(authorizationUrl) {
+            const params = new URL(authorizationUrl).searchParams;
+            const code = crypto.randomBytes(8).toString("hex");
+            codes.set(code, params.get("nonce") ?? "");
+            return { code, state: params.get("state") ?? "" };
+        },
+        close: () => new Promise((resolve) => server.close(() => resolve())),
+    };
+
+    const idToken = (nonce: string) => {
+        const now = Math.floor(Date.now() / 1000);
+        const payload = { iss: idp.issuer, aud: clientId, iat: now, exp: now + 300, nonce, ...idp.claims };
+        const unsigned = `${base64url({ alg: "RS256", typ: "JWT", kid: "mock" })}.${base64url(payload)}`;
+        return `${unsigned}.${crypto.sign("sha256", Buffer.from(unsigned), privateKey).toString("base64url")}`;
+    };
+
+    const server = http.createServer((req, res) => {
+        const json = (status: number, body: unknown) => {
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(body));
+        };
+
+        if (req.url === "/.well-known/openid-configuration") {
+            return json(200, {
+                issuer: idp.issuer,
+                authorization_endpoint: `${idp.issuer}/authorize`,
+                token_endpoint: `${idp.issuer}/token`,
+                jwks_uri: `${idp.issuer}/jwks`,
+                response_types_supported: ["code"],
+                subject_types_supported: ["public"],
+                id_token_signing_alg_values_supported: ["RS256"],
+            });
+        }
+        if (req.url === "/jwks") {
+            return json(200, { keys: [jwk] });
+        }
+        if (req.url === "/token" && req.method === "POST") {
+            let body = "";
+            req.on("data", (chunk: Buffer) => (body += chunk));
+            req.on("end", () => {
+                const code = new URLSearchParams(body).get("code") ?? "";
+                const nonce = codes.get(code);
+                codes.delete(code);
+                if (nonce === undefined) {
+                    return json(400, { error: "invalid_grant" });
+                }
+                json(200, { access_token: "mock-access-token", token_type: "Bearer", expires_in: 300, id_token: idToken(nonce) });
+            });
+            return;
+        }
+        json(404, { error: "not_found" });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    idp.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return idp;
+}
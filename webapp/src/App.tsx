@@ -11,10 +11,17 @@ import { Toaster } from "sonner";
 
 import { Sidebar } from "@/components/layout/sidebar";
 import { ProtectedRoute } from "@/components/layout/protected-route";
+import { VerifyEmailBanner } from "@/components/layout/verify-email-banner";
 import { useAuthStore } from "@/stores/auth-store";
+import { useAlertStream } from "@/hooks/use-alert-stream";
 
 import { LoginPage } from "@/pages/login";
 import { SignupPage } from "@/pages/signup";
+import { ForgotPasswordPage } from "@/pages/forgot-password";
+import { ResetPasswordPage } from "@/pages/reset-password";
+import { VerifyEmailPage } from "@/pages/verify-email";
+import { SsoCallbackPage } from "@/pages/sso-callback";
+import { AcceptInvitePage } from "@/pages/accept-invite";
 import { DashboardPage } from "@/pages/dashboard";
 import { CalendarPage } from "@/pages/calendar";
 import { TasksPage } from "@/pages/tasks";
@@ -23,6 +30,10 @@ import { AlertsPage } from "@/pages/alerts";
 import { AnalyticsPage } from "@/pages/analytics";
 import { InventoryPage } from "@/pages/inventory";
 import { RoomsPage } from "@/pages/rooms";
+import { SettingsPage } from "@/pages/settings";
+import { UsersPage } from "@/pages/users";
+import { AuditPage } from "@/pages/audit";
+import { TrashPage } from "@/pages/trash";
 
 import "./index.css";
 
@@ -42,11 +53,15 @@ const rootRoute = createRootRoute({
 
 // Main layout (with sidebar)
 function MainLayout() {
+    const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+    useAlertStream(isAuthenticated);
+
     return (
         <ProtectedRoute>
             <div className="flex min-h-screen bg-slate-900">
                 <Sidebar />
                 <main className="flex-1 overflow-auto">
+                    <VerifyEmailBanner />
                     <Outlet />
                 </main>
             </div>
@@ -67,6 +82,39 @@ const signupRoute = createRoute({
     component: SignupPage,
 });
 
+const forgotPasswordRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: "/forgot-password",
+    component: ForgotPasswordPage,
+});
+
+const resetPasswordRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: "/reset-password",
+    component: ResetPasswordPage,
+});
+
+// Opened from the verification mail, so it works whether or not the user is signed in
+const verifyEmailRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: "/verify-email",
+    component: VerifyEmailPage,
+});
+
+// Where the identity provider redirects back to after single sign-on
+const ssoCallbackRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: "/sso/callback",
+    component: SsoCallbackPage,
+});
+
+// Opened from the invitation mail to set up the invited account
+const acceptInviteRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: "/accept-invite",
+    component: AcceptInvitePage,
+});
+
 // Main app layout route
 const mainLayoutRoute = createRoute({
     getParentRoute: () => rootRoute,
@@ -130,10 +178,43 @@ const roomsRoute = createRoute({
     component: RoomsPage,
 });
 
+// Settings
+const settingsRoute = createRoute({
+    getParentRoute: () => mainLayoutRoute,
+    path: "/settings",
+    component: SettingsPage,
+});
+
+// User management (admins)
+const usersRoute = createRoute({
+    getParentRoute: () => mainLayoutRoute,
+    path: "/users",
+    component: UsersPage,
+});
+
+// Audit log (admins)
+const auditRoute = createRoute({
+    getParentRoute: () => mainLayoutRoute,
+    path: "/audit",
+    component: AuditPage,
+});
+
+// Trash
+const trashRoute = createRoute({
+    getParentRoute: () => mainLayoutRoute,
+    path: "/trash",
+    component: TrashPage,
+});
+
 // Build route tree
 const routeTree = rootRoute.addChildren([
     loginRoute,
     signupRoute,
+    forgotPasswordRoute,
+    resetPasswordRoute,
+    verifyEmailRoute,
+    ssoCallbackRoute,
+    acceptInviteRoute,
     mainLayoutRoute.addChildren([
         dashboardRoute,
         calendarRoute,
@@ -143,6 +224,10 @@ const routeTree = rootRoute.addChildren([
         analyticsRoute,
         inventoryRoute,
         roomsRoute,
+        usersRoute,
+        auditRoute,
+        trashRoute,
+        settingsRoute,
     ]),
 ]);
 
@@ -0,0 +1,38 @@
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface RecoveryCodesProps {
+    codes: string[];
+    onDone: () => void;
+}
+
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(codes.join("\n"));
+        toast.success("Recovery codes copied");
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-400">
+                Store these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+                access to your authenticator app. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-xl bg-black/30 border border-white/10 p-4 font-mono text-sm text-gray-200">
+                {codes.map((code) => (
+                    <span key={code}>{code}</span>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={handleCopy} className="border-white/10 text-gray-300">
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                </Button>
+                <Button type="button" onClick={onDone} className="flex-1 bg-violet-600 hover:bg-violet-500">
+                    I've saved them
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import type { User } from "@/stores/auth-store";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export interface EnrollmentResult {
+    recoveryCodes: string[];
+    // Only present when enrolling through a sign-in challenge
+    user?: User;
+    token?: string;
+    refreshToken?: string;
+}
+
+interface TotpEnrollmentProps {
+    // Sign-in challenge, for accounts that must enroll before they get a session
+    challenge?: string;
+    onEnabled: (result: EnrollmentResult) => void;
+    onCancel?: () => void;
+}
+
+export function TotpEnrollment({ challenge, onEnabled, onCancel }: TotpEnrollmentProps) {
+    const [setup, setSetup] = useState<{ secret: string; uri: string } | null>(null);
+    const [code, setCode] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    // Every setup call replaces the pending secret, so StrictMode's double effect must not start two
+    const started = useRef(false);
+
+    useEffect(() => {
+        if (started.current) return;
+        started.current = true;
+
+        client.auth.setupTwoFactor({ challenge })
+            .then((data: { secret: string; uri: string }) => setSetup(data))
+            .catch((error: unknown) => handleApiError(error, "Failed to start two-factor setup"));
+    }, [challenge]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        try {
+            const result: EnrollmentResult = await client.auth.enableTwoFactor({ code, challenge });
+            onEnabled(result);
+        } catch (error) {
+            handleApiError(error, "Failed to enable two-factor authentication");
+            setCode("");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (!setup) {
+        return (
+            <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 text-violet-400 animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-400">
+                Scan the code with an authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center">
+                <div className="rounded-xl bg-white p-3">
+                    <QRCodeSVG value={setup.uri} size={176} />
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 text-center break-all">
+                Can't scan it? Enter this key instead: <span className="font-mono text-gray-300">{setup.secret}</span>
+            </p>
+            <Input
+                value={code}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                className="bg-white/5 border-white/10 text-white text-center tracking-widest"
+            />
+            <div className="flex gap-2">
+                <Button type="submit" disabled={submitting} className="flex-1 bg-violet-600 hover:bg-violet-500">
+                    {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Verify and Enable
+                </Button>
+                {onCancel && (
+                    <Button type="button" variant="ghost" onClick={onCancel} className="text-gray-400">
+                        Cancel
+                    </Button>
+                )}
+            </div>
+        </form>
+    );
+}
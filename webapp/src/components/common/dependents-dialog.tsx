@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Dependent } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+export interface DeletePolicyOption {
+    value: string;
+    label: string;
+    description: string;
+    // Whether the policy hands the dependents to the item picked from `targets`
+    needsTarget?: boolean;
+}
+
+interface DependentsDialogProps {
+    // What is being deleted, e.g. "Room A"
+    title: string;
+    dependents: Dependent[];
+    policies: DeletePolicyOption[];
+    targets?: { value: string; label: string }[];
+    targetPlaceholder?: string;
+    onConfirm: (policy: string, target?: string) => void;
+    onCancel: () => void;
+}
+
+const KIND_LABELS: Record<string, string> = {
+    booking: "Booking",
+    task: "Task",
+    team: "Team",
+    asset: "Asset",
+};
+
+const SHOWN = 8;
+
+// Shown when a delete was refused because other items still refer to what is being deleted;
+// lets the user pick what happens to them instead. Render it only while there is something to show.
+export function DependentsDialog({
+    title,
+    dependents,
+    policies,
+    targets = [],
+    targetPlaceholder = "Choose where they go",
+    onConfirm,
+    onCancel,
+}: DependentsDialogProps) {
+    const [policy, setPolicy] = useState(policies[0]?.value ?? "");
+    const [target, setTarget] = useState("");
+
+    const selected = policies.find((p) => p.value === policy);
+    const ready = selected && (!selected.needsTarget || target);
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onCancel()}>
+            <DialogContent className="bg-slate-900 border-white/10 text-white max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <AlertTriangle className="w-5 h-5 text-amber-400" />
+                        Delete {title}?
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 mt-2">
+                    <p className="text-sm text-gray-400">
+                        {dependents.length} item{dependents.length === 1 ? " still depends" : "s still depend"} on it:
+                    </p>
+                    <ul className="rounded-xl border border-white/10 divide-y divide-white/10 text-sm">
+                        {dependents.slice(0, SHOWN).map((dependent) => (
+                            <li key={`${dependent.kind}-${dependent.id}`} className="flex items-center gap-3 px-3 py-2">
+                                <span className="text-xs text-gray-500 w-16">{KIND_LABELS[dependent.kind] ?? dependent.kind}</span>
+                                <span className="flex-1 truncate text-gray-200">{dependent.title}</span>
+                                {dependent.startTime && (
+                                    <span className="text-xs text-gray-400">{new Date(dependent.startTime).toLocaleString()}</span>
+                                )}
+                            </li>
+                        ))}
+                        {dependents.length > SHOWN && (
+                            <li className="px-3 py-2 text-xs text-gray-500">and {dependents.length - SHOWN} more</li>
+                        )}
+                    </ul>
+
+                    <div className="space-y-2">
+                        {policies.map((option) => (
+                            <button
+                                key={option.value}
+                                type="button"
+                                onClick={() => setPolicy(option.value)}
+                                className={cn(
+                                    "w-full text-left rounded-xl border px-3 py-2 transition-colors",
+                                    policy === option.value
+                                        ? "border-violet-500/60 bg-violet-500/10"
+                                        : "border-white/10 hover:bg-white/5"
+                                )}
+                            >
+                                <div className="text-sm font-medium text-white">{option.label}</div>
+                                <div className="text-xs text-gray-400">{option.description}</div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {selected?.needsTarget && (
+                        <Select
+                            options={targets}
+                            value={target}
+                            onValueChange={setTarget}
+                            placeholder={targetPlaceholder}
+                        />
+                    )}
+
+                    <div className="flex justify-end gap-2 pt-2">
+                        <Button type="button" variant="ghost" onClick={onCancel} className="text-gray-400">
+                            Cancel
+                        </Button>
+                        <Button
+                            type="button"
+                            disabled={!ready}
+                            onClick={() => onConfirm(policy, selected?.needsTarget ? target : undefined)}
+                            className="bg-red-600 hover:bg-red-500"
+                        >
+                            Delete
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,30 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import { cn } from "@/lib/utils";
+
+// Raw HTML in the source is not rendered, so user-written markdown is safe to show
+const components: Components = {
+    p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+    a: ({ children, href }) => (
+        <a href={href} target="_blank" rel="noreferrer" className="text-violet-400 hover:underline">
+            {children}
+        </a>
+    ),
+    ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-0.5">{children}</ul>,
+    ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-0.5">{children}</ol>,
+    blockquote: ({ children }) => (
+        <blockquote className="border-l-2 border-white/20 pl-3 text-gray-400 mb-2">{children}</blockquote>
+    ),
+    code: ({ children }) => <code className="rounded bg-black/30 px-1 py-0.5 text-[0.85em]">{children}</code>,
+    pre: ({ children }) => <pre className="rounded-lg bg-black/30 p-3 mb-2 overflow-x-auto">{children}</pre>,
+    h1: ({ children }) => <p className="font-semibold text-white mb-2">{children}</p>,
+    h2: ({ children }) => <p className="font-semibold text-white mb-2">{children}</p>,
+    h3: ({ children }) => <p className="font-semibold text-white mb-2">{children}</p>,
+};
+
+export function Markdown({ children, className }: { children: string; className?: string }) {
+    return (
+        <div className={cn("text-sm text-gray-200 break-words", className)}>
+            <ReactMarkdown components={components}>{children}</ReactMarkdown>
+        </div>
+    );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Building2, Check, ChevronsUpDown, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+import { useAuthStore, type User } from "@/stores/auth-store";
+
+interface Organization {
+    id: string;
+    name: string;
+    role: "admin" | "member";
+    memberCount: number;
+    current: boolean;
+}
+
+export function OrganizationSwitcher({ collapsed }: { collapsed: boolean }) {
+    const { refreshToken, login } = useAuthStore();
+    const [organizations, setOrganizations] = useState<Organization[]>([]);
+    const [showCreateDialog, setShowCreateDialog] = useState(false);
+    const [newName, setNewName] = useState("");
+    const [creating, setCreating] = useState(false);
+
+    useEffect(() => {
+        client.organizations.mine()
+            .then((result: Organization[]) => setOrganizations(result))
+            .catch((error: unknown) => console.error("Failed to fetch organizations:", error));
+    }, []);
+
+    const current = organizations.find((o) => o.current);
+
+    const switchTo = async (organizationId: string) => {
+        if (!refreshToken) return;
+        try {
+            const result: { user: User; token: string; refreshToken: string } =
+                await client.auth.switchOrganization({ organizationId, refreshToken });
+            login(result.user, result.token, result.refreshToken);
+            // Everything loaded so far belongs to the previous organization
+            window.location.assign("/");
+        } catch (error) {
+            handleApiError(error, "Failed to switch organization");
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setCreating(true);
+        try {
+            const organization: { id: string; name: string } = await client.organizations.create({ name: newName });
+            toast.success("Organization created", { description: organization.name });
+            await switchTo(organization.id);
+        } catch (error) {
+            handleApiError(error, "Failed to create organization");
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <button
+                        className={cn(
+                            "w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-gray-300 hover:text-white hover:bg-white/5 transition-colors",
+                            collapsed && "justify-center px-0"
+                        )}
+                        title={current?.name ?? "Organization"}
+                    >
+                        <Building2 className="w-5 h-5 flex-shrink-0 text-violet-400" />
+                        {!collapsed && (
+                            <>
+                                <span className="flex-1 truncate text-sm font-medium">
+                                    {current?.name ?? "No organization"}
+                                </span>
+                                <ChevronsUpDown className="w-4 h-4 text-gray-500" />
+                            </>
+                        )}
+                    </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-60 bg-slate-900 border-white/10 text-white">
+                    <DropdownMenuLabel className="text-xs text-gray-500">Organizations</DropdownMenuLabel>
+                    {organizations.map((organization) => (
+                        <DropdownMenuItem
+                            key={organization.id}
+                            onClick={() => !organization.current && switchTo(organization.id)}
+                            className="gap-2"
+                        >
+                            <Check className={cn("w-4 h-4", organization.current ? "text-violet-400" : "invisible")} />
+                            <span className="flex-1 truncate">{organization.name}</span>
+                            <span className="text-xs text-gray-500">
+                                {organization.role === "admin" ? "Admin" : `${organization.memberCount} members`}
+                            </span>
+                        </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator className="bg-white/10" />
+                    <DropdownMenuItem onClick={() => setShowCreateDialog(true)} className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        New organization
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+                <DialogContent className="bg-slate-900 border-white/10 text-white max-w-md">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <Building2 className="w-5 h-5 text-violet-400" />
+                            New Organization
+                        </DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleCreate} className="space-y-4 mt-4">
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Name</label>
+                            <Input
+                                value={newName}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+                                placeholder="e.g. Facilities"
+                                minLength={2}
+                                required
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            You become the organization's admin. Its teams, tasks, events, rooms and assets are separate from every other organization.
+                        </p>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Button type="button" variant="ghost" onClick={() => setShowCreateDialog(false)} className="text-gray-400">
+                                Cancel
+                            </Button>
+                            <Button
+                                type="submit"
+                                disabled={creating}
+                                className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500"
+                            >
+                                Create
+                            </Button>
+                        </div>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
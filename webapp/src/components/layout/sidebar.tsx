@@ -1,5 +1,6 @@
 import { Link, useLocation } from "@tanstack/react-router";
 import { useAuthStore } from "@/stores/auth-store";
+import { useAlertsStore } from "@/stores/alerts-store";
 import {
     LayoutDashboard,
     Calendar,
@@ -13,10 +14,18 @@ import {
     Settings,
     Package,
     MapPin,
+    MonitorOff,
+    UserCog,
+    ScrollText,
+    Trash2,
 } from "lucide-react";
 import { useState } from "react";
+import { toast } from "sonner";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { OrganizationSwitcher } from "@/components/layout/organization-switcher";
 
 const navItems = [
     { path: "/", label: "Dashboard", icon: LayoutDashboard },
@@ -27,13 +36,37 @@ const navItems = [
     { path: "/rooms", label: "Rooms", icon: MapPin },
     { path: "/alerts", label: "Alerts", icon: Bell },
     { path: "/analytics", label: "Analytics", icon: BarChart3 },
+    { path: "/trash", label: "Trash", icon: Trash2 },
+    { path: "/users", label: "Users", icon: UserCog, adminOnly: true },
+    { path: "/audit", label: "Audit Log", icon: ScrollText, adminOnly: true },
 ];
 
 export function Sidebar() {
     const location = useLocation();
-    const { user, logout } = useAuthStore();
+    const { user, refreshToken, logout } = useAuthStore();
+    const unreadAlerts = useAlertsStore((state) => state.unreadCount);
     const [collapsed, setCollapsed] = useState(false);
 
+    const handleLogout = async () => {
+        try {
+            if (refreshToken) await client.auth.logout({ refreshToken });
+        } catch (error) {
+            console.error("Failed to end session:", error);
+        }
+        logout();
+    };
+
+    const handleLogoutAll = async () => {
+        if (!confirm("Sign out on all devices?")) return;
+        try {
+            await client.auth.logoutAll();
+            logout();
+            toast.success("Signed out on all devices");
+        } catch (error) {
+            handleApiError(error, "Failed to sign out other devices");
+        }
+    };
+
     return (
         <aside
             className={cn(
@@ -61,11 +94,17 @@ export function Sidebar() {
                 )}
             </div>
 
+            {/* Organization */}
+            <div className="p-3 border-b border-white/5">
+                <OrganizationSwitcher collapsed={collapsed} />
+            </div>
+
             {/* Navigation */}
             <nav className="flex-1 p-3 space-y-1">
-                {navItems.map((item) => {
+                {navItems.filter((item) => !item.adminOnly || user?.role === "admin").map((item) => {
                     const isActive = location.pathname === item.path;
                     const Icon = item.icon;
+                    const badge = item.path === "/alerts" ? unreadAlerts : 0;
                     return (
                         <Link
                             key={item.path}
@@ -77,13 +116,23 @@ export function Sidebar() {
                                     : "text-gray-400 hover:text-white hover:bg-white/5"
                             )}
                         >
-                            <Icon
-                                className={cn(
-                                    "w-5 h-5 flex-shrink-0 transition-colors",
-                                    isActive ? "text-violet-400" : "group-hover:text-violet-400"
+                            <div className="relative">
+                                <Icon
+                                    className={cn(
+                                        "w-5 h-5 flex-shrink-0 transition-colors",
+                                        isActive ? "text-violet-400" : "group-hover:text-violet-400"
+                                    )}
+                                />
+                                {collapsed && badge > 0 && (
+                                    <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-orange-500" />
                                 )}
-                            />
+                            </div>
                             {!collapsed && <span className="font-medium">{item.label}</span>}
+                            {!collapsed && badge > 0 && (
+                                <span className="ml-auto px-2 py-0.5 text-xs bg-orange-500/20 text-orange-400 rounded-full">
+                                    {badge > 99 ? "99+" : badge}
+                                </span>
+                            )}
                         </Link>
                     );
                 })}
@@ -110,15 +159,33 @@ export function Sidebar() {
                         <Button
                             variant="ghost"
                             size="icon"
-                            className="text-gray-400 hover:text-white hover:bg-white/5"
+                            asChild
+                            className={cn(
+                                "text-gray-400 hover:text-white hover:bg-white/5",
+                                location.pathname === "/settings" && "text-white bg-white/10"
+                            )}
+                        >
+                            <Link to="/settings" title="Settings">
+                                <Settings className="w-5 h-5" />
+                            </Link>
+                        </Button>
+                    )}
+                    {!collapsed && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleLogoutAll}
+                            title="Sign out all devices"
+                            className="text-gray-400 hover:text-red-400 hover:bg-red-500/10"
                         >
-                            <Settings className="w-5 h-5" />
+                            <MonitorOff className="w-5 h-5" />
                         </Button>
                     )}
                     <Button
                         variant="ghost"
                         size="icon"
-                        onClick={logout}
+                        onClick={handleLogout}
+                        title="Sign out"
                         className="text-gray-400 hover:text-red-400 hover:bg-red-500/10"
                     >
                         <LogOut className="w-5 h-5" />
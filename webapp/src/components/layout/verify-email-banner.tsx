@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { MailWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { useAuthStore } from "@/stores/auth-store";
+
+export function VerifyEmailBanner() {
+    const user = useAuthStore((state) => state.user);
+    const [sending, setSending] = useState(false);
+
+    // Sessions from before verification existed carry no flag - only nag when it is explicitly false
+    if (!user || user.emailVerified !== false) return null;
+
+    const handleResend = async () => {
+        setSending(true);
+        try {
+            await client.auth.resendVerification();
+            toast.success("Verification email sent", { description: user.email });
+        } catch (error) {
+            handleApiError(error, "Failed to send verification email");
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-3 px-6 py-3 bg-amber-500/10 border-b border-amber-500/20 text-amber-300 text-sm">
+            <MailWarning className="w-4 h-4 shrink-0" />
+            <span>Please confirm your email address ({user.email}) using the link we sent you.</span>
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleResend}
+                disabled={sending}
+                className="ml-auto text-amber-300 hover:text-amber-200 hover:bg-amber-500/10"
+            >
+                Resend email
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Circle, CornerDownRight, ListChecks, Lock, Plus, X } from "lucide-react";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface RelatedTask {
+    id: string;
+    title: string;
+    status: string;
+    // In a done status of its workflow
+    done: boolean;
+}
+
+export interface TaskBreakdownData {
+    id: string;
+    parent?: RelatedTask;
+    subtasks: (RelatedTask & { assignee?: { name: string } })[];
+    checklist: { id: string; text: string; done: boolean }[];
+    blockedBy: RelatedTask[];
+    blocking: RelatedTask[];
+    progress: {
+        subtasks: { done: number; total: number };
+        checklist: { done: number; total: number };
+        percent: number;
+    };
+}
+
+interface TaskBreakdownProps {
+    task: TaskBreakdownData;
+    onChanged: () => void;
+    onOpenTask: (id: string) => void;
+}
+
+function TaskLink({ task, onOpen }: { task: RelatedTask; onOpen: (id: string) => void }) {
+    return (
+        <button
+            onClick={() => onOpen(task.id)}
+            className={cn(
+                "flex items-center gap-2 text-sm text-left hover:text-white truncate",
+                task.done ? "text-gray-500 line-through" : "text-gray-300"
+            )}
+        >
+            {task.done
+                ? <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0" />
+                : <Circle className="w-4 h-4 text-gray-500 shrink-0" />}
+            <span className="truncate">{task.title}</span>
+        </button>
+    );
+}
+
+// Subtasks, checklist and "blocked by" dependencies of a task, shown in its detail dialog
+export function TaskBreakdown({ task, onChanged, onOpenTask }: TaskBreakdownProps) {
+    const [newSubtask, setNewSubtask] = useState("");
+    const [newItem, setNewItem] = useState("");
+    const [candidates, setCandidates] = useState<RelatedTask[]>([]);
+
+    useEffect(() => {
+        client.tasks.list()
+            .then((result: (RelatedTask & { completedAt?: string })[]) =>
+                setCandidates(result.map((t) => ({ ...t, done: Boolean(t.completedAt) })))
+            )
+            .catch((error: unknown) => console.error("Failed to fetch tasks:", error));
+    }, []);
+
+    const blockerOptions = candidates
+        .filter((t) => t.id !== task.id && !task.blockedBy.some((b) => b.id === t.id))
+        .map((t) => ({ value: t.id, label: t.title }));
+
+    const run = async (action: () => Promise<unknown>, failure: string) => {
+        try {
+            await action();
+            onChanged();
+            return true;
+        } catch (error) {
+            handleApiError(error, failure);
+            return false;
+        }
+    };
+
+    const addSubtask = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newSubtask.trim()) return;
+        run(() => client.tasks.create({ title: newSubtask, parent: task.id }), "Failed to add subtask")
+            .then((ok) => ok && setNewSubtask(""));
+    };
+
+    const addItem = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newItem.trim()) return;
+        run(() => client.tasks.addChecklistItem({ id: task.id, text: newItem }), "Failed to add checklist item")
+            .then((ok) => ok && setNewItem(""));
+    };
+
+    const setBlockers = (ids: string[]) =>
+        run(() => client.tasks.update({ id: task.id, data: { blockedBy: ids } }), "Failed to update dependencies");
+
+    const { progress } = task;
+    const blockers = task.blockedBy.map((b) => b.id);
+    const openBlockers = task.blockedBy.filter((b) => !b.done);
+
+    return (
+        <div className="space-y-5">
+            {task.parent && (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <CornerDownRight className="w-4 h-4" />
+                    Subtask of
+                    <TaskLink task={task.parent} onOpen={onOpenTask} />
+                </div>
+            )}
+
+            {(progress.subtasks.total > 0 || progress.checklist.total > 0) && (
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Progress</span>
+                        <span>{progress.percent}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                        <div
+                            className="h-full bg-gradient-to-r from-violet-500 to-purple-500"
+                            style={{ width: `${progress.percent}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {!task.parent && (
+                <section>
+                    <h4 className="text-sm font-semibold text-white mb-2">
+                        Subtasks
+                        {progress.subtasks.total > 0 && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">
+                                {progress.subtasks.done}/{progress.subtasks.total}
+                            </span>
+                        )}
+                    </h4>
+                    <div className="space-y-1.5 mb-2">
+                        {task.subtasks.map((subtask) => (
+                            <div key={subtask.id} className="flex items-center justify-between gap-2">
+                                <TaskLink task={subtask} onOpen={onOpenTask} />
+                                {subtask.assignee && (
+                                    <span className="text-xs text-gray-500 shrink-0">{subtask.assignee.name}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <form onSubmit={addSubtask} className="flex gap-2">
+                        <Input
+                            value={newSubtask}
+                            onChange={(e) => setNewSubtask(e.target.value)}
+                            placeholder="Add a subtask"
+                            className="h-8 bg-white/5 border-white/10 text-white"
+                        />
+                        <button type="submit" className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10">
+                            <Plus className="w-4 h-4" />
+                        </button>
+                    </form>
+                </section>
+            )}
+
+            <section>
+                <h4 className="text-sm font-semibold text-white mb-2 flex items-center gap-2">
+                    <ListChecks className="w-4 h-4 text-violet-400" />
+                    Checklist
+                    {progress.checklist.total > 0 && (
+                        <span className="text-xs font-normal text-gray-500">
+                            {progress.checklist.done}/{progress.checklist.total}
+                        </span>
+                    )}
+                </h4>
+                <div className="space-y-1 mb-2">
+                    {task.checklist.map((item) => (
+                        <div key={item.id} className="group flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={item.done}
+                                onChange={() => run(
+                                    () => client.tasks.updateChecklistItem({ id: task.id, itemId: item.id, done: !item.done }),
+                                    "Failed to update checklist item"
+                                )}
+                                className="accent-violet-500"
+                            />
+                            <span className={cn("flex-1 text-sm", item.done ? "text-gray-500 line-through" : "text-gray-300")}>
+                                {item.text}
+                            </span>
+                            <button
+                                onClick={() => run(
+                                    () => client.tasks.removeChecklistItem({ id: task.id, itemId: item.id }),
+                                    "Failed to remove checklist item"
+                                )}
+                                className="opacity-0 group-hover:opacity-100 p-0.5 text-gray-500 hover:text-red-400"
+                            >
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <form onSubmit={addItem} className="flex gap-2">
+                    <Input
+                        value={newItem}
+                        onChange={(e) => setNewItem(e.target.value)}
+                        placeholder="Add an item"
+                        className="h-8 bg-white/5 border-white/10 text-white"
+                    />
+                    <button type="submit" className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </form>
+            </section>
+
+            <section>
+                <h4 className="text-sm font-semibold text-white mb-2 flex items-center gap-2">
+                    <Lock className="w-4 h-4 text-red-400" />
+                    Blocked by
+                </h4>
+                {openBlockers.length > 0 && (
+                    <p className="text-xs text-red-400 mb-2">
+                        Can't be moved to done until {openBlockers.length === 1 ? "this task is" : "these tasks are"} finished.
+                    </p>
+                )}
+                <div className="space-y-1.5 mb-2">
+                    {task.blockedBy.map((blocker) => (
+                        <div key={blocker.id} className="group flex items-center justify-between gap-2">
+                            <TaskLink task={blocker} onOpen={onOpenTask} />
+                            <button
+                                onClick={() => setBlockers(blockers.filter((id) => id !== blocker.id))}
+                                className="opacity-0 group-hover:opacity-100 p-0.5 text-gray-500 hover:text-red-400"
+                            >
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <Select
+                    options={blockerOptions}
+                    value=""
+                    onValueChange={(id) => id && setBlockers([...blockers, id])}
+                    placeholder="Add a blocking task..."
+                />
+
+                {task.blocking.length > 0 && (
+                    <div className="mt-3">
+                        <p className="text-xs text-gray-500 mb-1.5">Blocks</p>
+                        <div className="space-y-1.5">
+                            {task.blocking.map((blocked) => (
+                                <TaskLink key={blocked.id} task={blocked} onOpen={onOpenTask} />
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,386 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowRight, History, MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { useAuthStore } from "@/stores/auth-store";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Markdown } from "@/components/common/markdown";
+import { TaskBreakdown, type TaskBreakdownData } from "@/components/tasks/task-breakdown";
+import type { WorkflowStatus } from "@/components/tasks/workflow-dialog";
+
+interface Person {
+    _id: string;
+    name: string;
+    email: string;
+    avatar?: string;
+}
+
+interface TaskDetails extends TaskBreakdownData {
+    title: string;
+    description?: string;
+    status: string;
+    workflow: WorkflowStatus[];
+    priority: string;
+    assignee?: Person;
+    createdBy?: Person;
+    dueDate?: string;
+    team?: { name: string; color?: string };
+    labels: string[];
+}
+
+interface CommentView {
+    id: string;
+    author?: Person;
+    body: string;
+    edited: boolean;
+    editedAt?: string;
+    deleted: boolean;
+    createdAt: string;
+}
+
+type ActivityItem =
+    | { type: "created"; id: string; at: string; actor?: Person }
+    | { type: "comment"; id: string; at: string; actor?: Person; comment: CommentView }
+    | { type: "change"; id: string; at: string; actor?: Person; field: string; from: unknown; to: unknown };
+
+interface Member {
+    id: string;
+    name: string;
+    email: string;
+}
+
+function describeValue(field: string, value: unknown, workflow: WorkflowStatus[]): string {
+    if (value === null || value === undefined) return field === "assignee" ? "nobody" : "none";
+    if (field === "status" && typeof value === "string") return workflow.find((s) => s.key === value)?.name ?? value;
+    return String(value);
+}
+
+// The handle members are mentioned by: the part of their email before the "@", or the whole
+// address when another member's starts the same way
+function handleOf(member: Member, members: Member[]): string {
+    const local = (m: Member) => m.email.split("@")[0]!;
+    const shared = members.filter((m) => local(m).toLowerCase() === local(member).toLowerCase()).length > 1;
+    return shared ? member.email : local(member);
+}
+
+function Avatar({ person }: { person?: Person }) {
+    return (
+        <div className="w-7 h-7 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center shrink-0">
+            <span className="text-white text-xs font-medium">{person?.name[0] ?? "?"}</span>
+        </div>
+    );
+}
+
+interface TaskDetailDialogProps {
+    taskId: string;
+    // Called after the task's subtasks, checklist or dependencies change
+    onChanged: () => void;
+    onOpenTask: (id: string) => void;
+    onClose: () => void;
+}
+
+export function TaskDetailDialog({ taskId, onChanged, onOpenTask, onClose }: TaskDetailDialogProps) {
+    const currentUser = useAuthStore((state) => state.user);
+    const [task, setTask] = useState<TaskDetails | null>(null);
+    const [activity, setActivity] = useState<ActivityItem[]>([]);
+    const [members, setMembers] = useState<Member[]>([]);
+    const [draft, setDraft] = useState("");
+    const [caret, setCaret] = useState(0);
+    const [editing, setEditing] = useState<{ id: string; body: string } | null>(null);
+    const [history, setHistory] = useState<{ id: string; revisions: { body: string; replacedAt: string }[] } | null>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const fetchTask = useCallback(() => {
+        client.tasks.get({ id: taskId })
+            .then((result: TaskDetails) => setTask(result))
+            .catch((error: unknown) => handleApiError(error, "Failed to fetch task"));
+    }, [taskId]);
+
+    const fetchActivity = useCallback(() => {
+        client.tasks.activity({ id: taskId })
+            .then((result: ActivityItem[]) => setActivity(result))
+            .catch((error: unknown) => handleApiError(error, "Failed to fetch activity"));
+    }, [taskId]);
+
+    useEffect(() => {
+        fetchTask();
+        client.teams.availableUsers()
+            .then((result: Member[]) => setMembers(result))
+            .catch((error: unknown) => console.error("Failed to fetch members:", error));
+        fetchActivity();
+    }, [fetchTask, fetchActivity]);
+
+    // "@ad" right before the caret suggests members whose handle or name starts with "ad"
+    const mentionQuery = /(?:^|\s)@([\w.+-]*)$/.exec(draft.slice(0, caret))?.[1];
+    const suggestions = mentionQuery === undefined
+        ? []
+        : members
+            .filter((m) =>
+                handleOf(m, members).toLowerCase().startsWith(mentionQuery.toLowerCase())
+                || m.name.toLowerCase().startsWith(mentionQuery.toLowerCase())
+            )
+            .slice(0, 5);
+
+    const insertMention = (member: Member) => {
+        const before = draft.slice(0, caret).replace(/@[\w.+-]*$/, `@${handleOf(member, members)} `);
+        setDraft(before + draft.slice(caret));
+        setCaret(before.length);
+        textareaRef.current?.focus();
+    };
+
+    const handleComment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        try {
+            await client.comments.create({ targetType: "task", targetId: taskId, body: draft });
+            setDraft("");
+            setCaret(0);
+            fetchActivity();
+        } catch (error) {
+            handleApiError(error, "Failed to add comment");
+        }
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editing) return;
+        try {
+            await client.comments.update({ id: editing.id, body: editing.body });
+            setEditing(null);
+            fetchActivity();
+        } catch (error) {
+            handleApiError(error, "Failed to edit comment");
+        }
+    };
+
+    const handleDelete = async (comment: CommentView) => {
+        if (!confirm("Delete this comment?")) return;
+        try {
+            await client.comments.delete({ id: comment.id });
+            toast.success("Comment deleted");
+            fetchActivity();
+        } catch (error) {
+            handleApiError(error, "Failed to delete comment");
+        }
+    };
+
+    const toggleHistory = async (comment: CommentView) => {
+        if (history?.id === comment.id) {
+            setHistory(null);
+            return;
+        }
+        try {
+            const revisions: { body: string; replacedAt: string }[] = await client.comments.history({ id: comment.id });
+            setHistory({ id: comment.id, revisions });
+        } catch (error) {
+            handleApiError(error, "Failed to fetch comment history");
+        }
+    };
+
+    const renderItem = (item: ActivityItem) => {
+        const who = item.actor?.name ?? "Someone";
+        const when = (
+            <span className="text-xs text-gray-500" title={format(new Date(item.at), "PPpp")}>
+                {formatDistanceToNow(new Date(item.at), { addSuffix: true })}
+            </span>
+        );
+
+        if (item.type === "created") {
+            return (
+                <div className="flex items-center gap-3 text-sm text-gray-400">
+                    <Plus className="w-4 h-4 text-gray-500 mx-1.5" />
+                    <span><span className="text-gray-200">{who}</span> created the task</span>
+                    {when}
+                </div>
+            );
+        }
+
+        if (item.type === "change") {
+            return (
+                <div className="flex items-center gap-3 text-sm text-gray-400">
+                    <ArrowRight className="w-4 h-4 text-gray-500 mx-1.5" />
+                    <span>
+                        <span className="text-gray-200">{who}</span>
+                        {item.field === "status" ? " moved it from " : " changed the assignee from "}
+                        <span className="text-gray-200">{describeValue(item.field, item.from, task?.workflow ?? [])}</span>
+                        {" to "}
+                        <span className="text-gray-200">{describeValue(item.field, item.to, task?.workflow ?? [])}</span>
+                    </span>
+                    {when}
+                </div>
+            );
+        }
+
+        const { comment } = item;
+        const mine = comment.author?._id === currentUser?.id;
+        return (
+            <div className="flex gap-3">
+                <Avatar person={comment.author} />
+                <div className="flex-1 min-w-0 rounded-xl bg-white/5 border border-white/10 p-3">
+                    <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm font-medium text-white">{who}</span>
+                        {when}
+                        {comment.edited && (
+                            <button
+                                onClick={() => toggleHistory(comment)}
+                                className="text-xs text-gray-500 hover:text-gray-300 flex items-center gap-1"
+                                title="Show earlier versions"
+                            >
+                                <History className="w-3 h-3" />
+                                edited
+                            </button>
+                        )}
+                        {mine && !comment.deleted && (
+                            <div className="ml-auto flex gap-1">
+                                <button
+                                    onClick={() => setEditing({ id: comment.id, body: comment.body })}
+                                    className="p-1 rounded text-gray-500 hover:text-white"
+                                    title="Edit"
+                                >
+                                    <Pencil className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(comment)}
+                                    className="p-1 rounded text-gray-500 hover:text-red-400"
+                                    title="Delete"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {comment.deleted ? (
+                        <p className="text-sm italic text-gray-500">This comment was deleted</p>
+                    ) : editing?.id === comment.id ? (
+                        <div className="space-y-2">
+                            <textarea
+                                value={editing.body}
+                                onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                                rows={3}
+                                className="w-full rounded-lg bg-black/20 border border-white/10 p-2 text-sm text-white"
+                            />
+                            <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="ghost" onClick={() => setEditing(null)} className="text-gray-400">
+                                    Cancel
+                                </Button>
+                                <Button size="sm" onClick={handleSaveEdit} className="bg-violet-600 hover:bg-violet-500">
+                                    Save
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <Markdown>{comment.body}</Markdown>
+                    )}
+
+                    {history?.id === comment.id && (
+                        <div className="mt-3 space-y-2 border-t border-white/10 pt-2">
+                            {history.revisions.map((revision) => (
+                                <div key={revision.replacedAt} className="text-xs text-gray-400">
+                                    <div className="mb-1">Until {format(new Date(revision.replacedAt), "PPp")}</div>
+                                    <Markdown className="text-gray-400">{revision.body}</Markdown>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="bg-slate-900 border-white/10 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{task?.title ?? "Task"}</DialogTitle>
+                </DialogHeader>
+
+                {task && (
+                    <div className="space-y-4 mt-2">
+                        <div className="flex flex-wrap gap-2 text-xs">
+                            <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-300">
+                                {task.workflow.find((s) => s.key === task.status)?.name ?? task.status}
+                            </span>
+                            <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-300">{task.priority}</span>
+                            {task.team && (
+                                <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-300">{task.team.name}</span>
+                            )}
+                            <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-300">
+                                {task.assignee ? `Assigned to ${task.assignee.name}` : "Unassigned"}
+                            </span>
+                            {task.dueDate && (
+                                <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-300">
+                                    Due {new Date(task.dueDate).toLocaleDateString()}
+                                </span>
+                            )}
+                        </div>
+                        {task.description && <Markdown className="text-gray-300">{task.description}</Markdown>}
+                        <TaskBreakdown
+                            task={task}
+                            onOpenTask={onOpenTask}
+                            onChanged={() => {
+                                fetchTask();
+                                onChanged();
+                            }}
+                        />
+                    </div>
+                )}
+
+                <div className="mt-4">
+                    <h3 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+                        <MessageSquare className="w-4 h-4 text-violet-400" />
+                        Activity
+                    </h3>
+                    <div className="space-y-3">
+                        {activity.map((item) => (
+                            <div key={`${item.type}-${item.id}`}>{renderItem(item)}</div>
+                        ))}
+                    </div>
+                </div>
+
+                <form onSubmit={handleComment} className="mt-4 space-y-2">
+                    <div className="relative">
+                        <textarea
+                            ref={textareaRef}
+                            value={draft}
+                            onChange={(e) => {
+                                setDraft(e.target.value);
+                                setCaret(e.target.selectionStart);
+                            }}
+                            onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+                            rows={3}
+                            placeholder="Write a comment… Markdown works, and @name mentions someone"
+                            className="w-full rounded-xl bg-white/5 border border-white/10 p-3 text-sm text-white placeholder:text-gray-500"
+                        />
+                        {suggestions.length > 0 && (
+                            <div className="absolute left-2 bottom-full mb-1 w-64 rounded-xl bg-slate-800 border border-white/10 shadow-xl overflow-hidden z-10">
+                                {suggestions.map((member) => (
+                                    <button
+                                        key={member.id}
+                                        type="button"
+                                        onClick={() => insertMention(member)}
+                                        className="w-full text-left px-3 py-2 text-sm hover:bg-white/10"
+                                    >
+                                        <span className="text-white">{member.name}</span>
+                                        <span className="text-gray-500 ml-2">@{handleOf(member, members)}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex justify-end">
+                        <Button
+                            type="submit"
+                            disabled={!draft.trim()}
+                            className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500"
+                        >
+                            Comment
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
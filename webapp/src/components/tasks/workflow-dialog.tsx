@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+export interface WorkflowStatus {
+    key: string;
+    name: string;
+    color: string;
+    done: boolean;
+    next: string[];
+}
+
+interface WorkflowDialogProps {
+    team: { id: string; name: string };
+    workflow: WorkflowStatus[];
+    onSaved: () => void;
+    onClose: () => void;
+}
+
+function keyFor(name: string, taken: string[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "status";
+    let key = base;
+    for (let i = 2; taken.includes(key); i++) key = `${base}-${i}`;
+    return key;
+}
+
+// Edits the ordered statuses of a team's board; always open, so render it conditionally
+export function WorkflowDialog({ team, workflow, onSaved, onClose }: WorkflowDialogProps) {
+    const [statuses, setStatuses] = useState<WorkflowStatus[]>(workflow);
+    const [newName, setNewName] = useState("");
+    const [saving, setSaving] = useState(false);
+
+    const update = (index: number, changes: Partial<WorkflowStatus>) =>
+        setStatuses(statuses.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+    const move = (index: number, offset: number) => {
+        const next = [...statuses];
+        const [status] = next.splice(index, 1);
+        next.splice(index + offset, 0, status!);
+        setStatuses(next);
+    };
+
+    const remove = (index: number) => {
+        const key = statuses[index]!.key;
+        setStatuses(
+            statuses
+                .filter((_, i) => i !== index)
+                .map((s) => ({ ...s, next: s.next.filter((k) => k !== key) }))
+        );
+    };
+
+    const add = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        const key = keyFor(newName, statuses.map((s) => s.key));
+        setStatuses([...statuses, { key, name: newName.trim(), color: "#6b7280", done: false, next: [] }]);
+        setNewName("");
+    };
+
+    const save = async (next: WorkflowStatus[]) => {
+        setSaving(true);
+        try {
+            const result = await client.teams.updateWorkflow({ id: team.id, statuses: next });
+            toast.success("Workflow saved", {
+                description: result.moved > 0 ? `${result.moved} task(s) moved out of removed statuses` : undefined,
+            });
+            onSaved();
+        } catch (error) {
+            handleApiError(error, "Failed to save workflow");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="bg-slate-900 border-white/10 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{team.name} workflow</DialogTitle>
+                </DialogHeader>
+                <p className="text-sm text-gray-400">
+                    Columns of the team's board, in order. Tasks in a done status count as finished. Leave
+                    "Moves to" empty to allow any move. Tasks in a removed status go to the first open status.
+                </p>
+
+                <div className="space-y-3 mt-2">
+                    {statuses.map((status, index) => (
+                        <div key={status.key} className="rounded-xl bg-white/5 border border-white/10 p-3 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={status.color}
+                                    onChange={(e) => update(index, { color: e.target.value })}
+                                    className="w-8 h-8 rounded bg-transparent border-0 cursor-pointer"
+                                />
+                                <Input
+                                    value={status.name}
+                                    onChange={(e) => update(index, { name: e.target.value })}
+                                    className="h-8 bg-white/5 border-white/10 text-white"
+                                />
+                                <span className="text-xs text-gray-500 font-mono shrink-0">{status.key}</span>
+                                <label className="flex items-center gap-1.5 text-xs text-gray-400 shrink-0">
+                                    <input
+                                        type="checkbox"
+                                        checked={status.done}
+                                        onChange={(e) => update(index, { done: e.target.checked })}
+                                        className="accent-emerald-500"
+                                    />
+                                    Done
+                                </label>
+                                <button
+                                    onClick={() => move(index, -1)}
+                                    disabled={index === 0}
+                                    className="p-1 text-gray-500 hover:text-white disabled:opacity-30"
+                                >
+                                    <ArrowUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => move(index, 1)}
+                                    disabled={index === statuses.length - 1}
+                                    className="p-1 text-gray-500 hover:text-white disabled:opacity-30"
+                                >
+                                    <ArrowDown className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => remove(index)} className="p-1 text-gray-500 hover:text-red-400">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <MultiSelect
+                                options={statuses
+                                    .filter((s) => s.key !== status.key)
+                                    .map((s) => ({ value: s.key, label: s.name }))}
+                                value={status.next}
+                                onValueChange={(next) => update(index, { next })}
+                                placeholder="Moves to: any status"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <form onSubmit={add} className="flex gap-2 mt-3">
+                    <Input
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="New status, e.g. QA"
+                        className="bg-white/5 border-white/10 text-white"
+                    />
+                    <Button type="submit" variant="ghost" className="text-gray-300">
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add
+                    </Button>
+                </form>
+
+                <div className="flex justify-between gap-2 pt-4">
+                    <Button variant="ghost" onClick={() => save([])} disabled={saving} className="text-gray-400">
+                        Reset to default
+                    </Button>
+                    <div className="flex gap-2">
+                        <Button variant="ghost" onClick={onClose} className="text-gray-400">
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() => save(statuses)}
+                            disabled={saving}
+                            className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500"
+                        >
+                            Save
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { client } from "@/lib/api";
+import { useAlertsStore, type LiveAlert } from "@/stores/alerts-store";
+
+const RECONNECT_DELAY_MS = 5000;
+
+function showToast(alert: LiveAlert) {
+    const options = { description: alert.message };
+    if (alert.priority === "critical" || alert.type === "error") {
+        toast.error(alert.title, { ...options, duration: Infinity });
+    } else if (alert.type === "warning") {
+        toast.warning(alert.title, options);
+    } else if (alert.type === "success") {
+        toast.success(alert.title, options);
+    } else {
+        toast.info(alert.title, options);
+    }
+}
+
+// Keeps the unread badge in sync and toasts new alerts as the backend pushes them
+export function useAlertStream(enabled: boolean) {
+    useEffect(() => {
+        if (!enabled) return;
+
+        const controller = new AbortController();
+        const { setUnreadCount, receive } = useAlertsStore.getState();
+
+        const connect = async () => {
+            while (!controller.signal.aborted) {
+                try {
+                    // Re-sync on every (re)connect so alerts missed while offline are counted
+                    const { count } = await client.alerts.unreadCount();
+                    setUnreadCount(count);
+
+                    const stream = await client.alerts.stream(undefined, { signal: controller.signal });
+                    for await (const alert of stream as AsyncIterable<LiveAlert>) {
+                        receive(alert);
+                        showToast(alert);
+                    }
+                } catch (error) {
+                    if (controller.signal.aborted) return;
+                    console.error("Alert stream disconnected:", error);
+                }
+                await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+            }
+        };
+
+        connect();
+        return () => controller.abort();
+    }, [enabled]);
+}
@@ -1,8 +1,48 @@
-import { createORPCClient } from "@orpc/client";
+import { createORPCClient, type Client } from "@orpc/client";
 import { RPCLink } from "@orpc/client/fetch";
+import { useAuthStore, type User } from "@/stores/auth-store";
 
 const API_URL = "http://localhost:3001/api";
 
+// sessionStorage key holding an SSO sign-in between the redirect to the provider and the callback
+export const SSO_TRANSACTION_KEY = "ssoTransaction";
+
+type SessionClient = {
+    auth: {
+        refresh: Client<Record<never, never>, { refreshToken: string }, { user: User; token: string; refreshToken: string }, Error>;
+    };
+};
+
+// Plain client for renewing the session, so a failed refresh cannot trigger another refresh
+const sessionClient = createORPCClient<SessionClient>(new RPCLink({ url: API_URL }));
+
+let refreshing: Promise<boolean> | null = null;
+
+async function renewSession(): Promise<boolean> {
+    const refreshToken = localStorage.getItem("refreshToken");
+    if (!refreshToken) return false;
+
+    try {
+        const result = await sessionClient.auth.refresh({ refreshToken });
+        useAuthStore.getState().login(result.user, result.token, result.refreshToken);
+        return true;
+    } catch {
+        // Another tab may have rotated the refresh token first
+        if (localStorage.getItem("refreshToken") !== refreshToken) return true;
+
+        useAuthStore.getState().logout();
+        return false;
+    }
+}
+
+// Renews the access token once, however many calls got a 401 at the same time
+export function refreshSession(): Promise<boolean> {
+    refreshing ??= renewSession().finally(() => {
+        refreshing = null;
+    });
+    return refreshing;
+}
+
 // Create the RPC link with headers
 const link = new RPCLink({
     url: API_URL,
@@ -10,6 +50,21 @@ const link = new RPCLink({
         const token = localStorage.getItem("token");
         return token ? { Authorization: `Bearer ${token}` } : {};
     },
+    // Retry once with a fresh access token when the current one has expired
+    fetch: async (request, init) => {
+        const retry = request.clone();
+        const response = await fetch(request, init);
+
+        if (response.status !== 401 || !localStorage.getItem("refreshToken")) {
+            return response;
+        }
+        if (!(await refreshSession())) {
+            return response;
+        }
+
+        retry.headers.set("Authorization", `Bearer ${localStorage.getItem("token")}`);
+        return fetch(retry, init);
+    },
 });
 
 // Create ORPC client - using any to avoid cross-project type issues
@@ -0,0 +1,92 @@
+import { isDefinedError, ORPCError } from "@orpc/client";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/auth-store";
+
+// Mirrors the backend's error catalogue (backend/src/lib/errors.ts)
+export type ApiErrorCode = "UNAUTHORIZED" | "FORBIDDEN" | "NOT_FOUND" | "CONFLICT" | "VALIDATION" | "TOO_MANY_REQUESTS";
+
+interface ConflictDetail {
+    id: string;
+    title: string;
+    startTime: string;
+    endTime: string;
+}
+
+// Something that still refers to an item being deleted, e.g. an upcoming booking of a room
+export interface Dependent {
+    kind: string;
+    id: string;
+    title: string;
+    startTime?: string;
+}
+
+function formatWait(seconds: number): string {
+    if (seconds < 60) return `${seconds} seconds`;
+    const minutes = Math.ceil(seconds / 60);
+    return minutes === 1 ? "a minute" : `${minutes} minutes`;
+}
+
+export function isApiError(error: unknown, code?: ApiErrorCode): error is ORPCError<ApiErrorCode, unknown> {
+    return error instanceof ORPCError && isDefinedError(error) && (!code || error.code === code);
+}
+
+export function getErrorMessage(error: unknown, fallback: string): string {
+    return isApiError(error) ? error.message : fallback;
+}
+
+// What kept a delete from going through, when it was refused for that reason
+export function dependentsOf(error: unknown): Dependent[] {
+    if (!isApiError(error, "CONFLICT")) return [];
+    return (error.data as { dependents?: Dependent[] } | undefined)?.dependents ?? [];
+}
+
+// Shows the toast matching an API error; an expired session logs the user out,
+// which sends them back to the login page
+export function handleApiError(error: unknown, fallback: string) {
+    console.error(fallback, error);
+
+    if (!isApiError(error)) {
+        toast.error(fallback);
+        return;
+    }
+
+    switch (error.code) {
+        case "UNAUTHORIZED": {
+            const { isAuthenticated, logout } = useAuthStore.getState();
+            if (isAuthenticated) {
+                logout();
+                toast.error("Session expired", { description: "Please sign in again" });
+            } else {
+                toast.error(fallback, { description: error.message });
+            }
+            break;
+        }
+        case "FORBIDDEN":
+            toast.error("Permission denied", { description: error.message });
+            break;
+        case "CONFLICT": {
+            const conflicts = (error.data as { conflicts?: ConflictDetail[] } | undefined)?.conflicts ?? [];
+            const dependents = dependentsOf(error);
+            toast.error(error.message, {
+                description: conflicts.length > 0
+                    ? conflicts
+                        .slice(0, 3)
+                        .map((c) => `${c.title} (${new Date(c.startTime).toLocaleString()})`)
+                        .join(", ")
+                    : dependents.length > 0
+                        ? dependents.slice(0, 3).map((d) => d.title).join(", ")
+                        : undefined,
+            });
+            break;
+        }
+        case "TOO_MANY_REQUESTS": {
+            const retryAfter = (error.data as { retryAfter?: number } | undefined)?.retryAfter;
+            toast.error(error.message, {
+                description: retryAfter ? `Try again in ${formatWait(retryAfter)}` : undefined,
+            });
+            break;
+        }
+        default:
+            toast.error(fallback, { description: error.message });
+    }
+}
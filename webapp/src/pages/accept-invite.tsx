@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearch } from "@tanstack/react-router";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { client } from "@/lib/api";
+import { getErrorMessage, handleApiError } from "@/lib/errors";
+import { useAuthStore, type User as AuthUser } from "@/stores/auth-store";
+import { UserPlus, User, Lock, Loader2 } from "lucide-react";
+
+export function AcceptInvitePage() {
+    const navigate = useNavigate();
+    const login = useAuthStore((state) => state.login);
+    const { token } = useSearch({ strict: false }) as { token?: string };
+    const [email, setEmail] = useState("");
+    const [organization, setOrganization] = useState("");
+    // The address already has an account, which only needs to accept
+    const [existingAccount, setExistingAccount] = useState(false);
+    const [name, setName] = useState("");
+    const [password, setPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+    const [error, setError] = useState(token ? "" : "This invitation link is missing its token");
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!token) return;
+
+        client.auth.invitation({ token })
+            .then((invitation: { email: string; name?: string; organization?: string; existingAccount: boolean }) => {
+                setEmail(invitation.email);
+                setName((current) => current || invitation.name || "");
+                setOrganization(invitation.organization ?? "");
+                setExistingAccount(invitation.existingAccount);
+            })
+            .catch((err: unknown) => setError(getErrorMessage(err, "This invitation is invalid or has expired")));
+    }, [token]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token) return;
+
+        if (password !== confirmPassword) {
+            setError("Passwords do not match");
+            return;
+        }
+
+        setError("");
+        setIsLoading(true);
+
+        try {
+            const result: { user: AuthUser; token: string; refreshToken: string } =
+                await client.auth.acceptInvitation({ token, name, password });
+            login(result.user, result.token, result.refreshToken);
+            toast.success("Account created!", { description: "Welcome to the platform!" });
+            navigate({ to: "/" });
+        } catch (err) {
+            setError(getErrorMessage(err, "Failed to accept invitation"));
+            handleApiError(err, "Failed to accept invitation");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleJoin = async () => {
+        if (!token) return;
+
+        setError("");
+        setIsLoading(true);
+
+        try {
+            const result: { organization: { name: string } } = await client.auth.joinOrganization({ token });
+            toast.success(`You joined ${result.organization.name}`, {
+                description: "Pick it from the organization switcher after signing in.",
+            });
+            navigate({ to: "/login" });
+        } catch (err) {
+            setError(getErrorMessage(err, "Failed to accept invitation"));
+            handleApiError(err, "Failed to accept invitation");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+            <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(120,119,198,0.1),transparent_50%)]" />
+
+            <div className="relative w-full max-w-md p-8">
+                <div className="backdrop-blur-xl bg-white/10 rounded-3xl shadow-2xl border border-white/20 p-8">
+                    <div className="text-center mb-8">
+                        <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 mb-4 shadow-lg shadow-purple-500/30">
+                            <UserPlus className="w-8 h-8 text-white" />
+                        </div>
+                        <h1 className="text-3xl font-bold text-white mb-2">Accept Invitation</h1>
+                        <p className="text-gray-400">
+                            {existingAccount
+                                ? <>Join {organization || "the organization"} as <span className="text-white">{email}</span></>
+                                : email ? <>Set up the account for <span className="text-white">{email}</span></> : "Set up your account"}
+                        </p>
+                    </div>
+
+                    {existingAccount ? (
+                        <div className="space-y-5">
+                            {error && (
+                                <div className="p-3 rounded-xl bg-red-500/20 border border-red-500/30 text-red-300 text-sm text-center">
+                                    {error}
+                                </div>
+                            )}
+                            <p className="text-sm text-gray-400 text-center">
+                                You already have an account. Accept to add it to {organization || "the organization"}; you
+                                keep access to your other organizations.
+                            </p>
+                            <Button
+                                onClick={handleJoin}
+                                disabled={isLoading}
+                                className="w-full h-12 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white font-semibold rounded-xl shadow-lg shadow-purple-500/30 transition-all duration-200"
+                            >
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                        Joining...
+                                    </>
+                                ) : (
+                                    "Accept Invitation"
+                                )}
+                            </Button>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-5">
+                            {error && (
+                                <div className="p-3 rounded-xl bg-red-500/20 border border-red-500/30 text-red-300 text-sm text-center">
+                                    {error}
+                                </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-300">Name</label>
+                                <div className="relative">
+                                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <Input
+                                        value={name}
+                                        onChange={(e) => setName(e.target.value)}
+                                        placeholder="Your name"
+                                        minLength={2}
+                                        required
+                                        className="pl-11 h-12 bg-white/5 border-white/10 text-white placeholder:text-gray-500 focus:border-purple-500 focus:ring-purple-500/20 rounded-xl"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-300">Password</label>
+                                <div className="relative">
+                                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <Input
+                                        type="password"
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                        placeholder="••••••••"
+                                        minLength={6}
+                                        required
+                                        className="pl-11 h-12 bg-white/5 border-white/10 text-white placeholder:text-gray-500 focus:border-purple-500 focus:ring-purple-500/20 rounded-xl"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-300">Confirm Password</label>
+                                <div className="relative">
+                                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <Input
+                                        type="password"
+                                        value={confirmPassword}
+                                        onChange={(e) => setConfirmPassword(e.target.value)}
+                                        placeholder="••••••••"
+                                        minLength={6}
+                                        required
+                                        className="pl-11 h-12 bg-white/5 border-white/10 text-white placeholder:text-gray-500 focus:border-purple-500 focus:ring-purple-500/20 rounded-xl"
+                                    />
+                                </div>
+                            </div>
+
+                            <Button
+                                type="submit"
+                                disabled={isLoading || !token || !email}
+                                className="w-full h-12 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white font-semibold rounded-xl shadow-lg shadow-purple-500/30 transition-all duration-200"
+                            >
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                        Creating account...
+                                    </>
+                                ) : (
+                                    "Create Account"
+                                )}
+                            </Button>
+                        </form>
+                    )}
+
+                    <div className="mt-6 text-center">
+                        <p className="text-gray-400">
+                            Already have an account?{" "}
+                            <Link
+                                to="/login"
+                                className="text-purple-400 hover:text-purple-300 font-medium transition-colors"
+                            >
+                                Sign in
+                            </Link>
+                        </p>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -4,6 +4,7 @@ import { Bell, Check, CheckCheck, AlertTriangle, Info, AlertCircle, CheckCircle
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
+import { useAlertsStore } from "@/stores/alerts-store";
 
 interface Alert {
     id: string;
@@ -40,13 +41,24 @@ const priorityBadges = {
 export function AlertsPage() {
     const [alerts, setAlerts] = useState<Alert[]>([]);
     const [loading, setLoading] = useState(true);
-    const [unreadCount, setUnreadCount] = useState(0);
+    const unreadCount = useAlertsStore((state) => state.unreadCount);
+    const setUnreadCount = useAlertsStore((state) => state.setUnreadCount);
 
     useEffect(() => {
         fetchAlerts();
         fetchUnreadCount();
     }, []);
 
+    // Prepend alerts pushed by the live stream while the page is open
+    useEffect(() => {
+        return useAlertsStore.subscribe((state, prev) => {
+            const incoming = state.lastAlert;
+            if (incoming && incoming !== prev.lastAlert) {
+                setAlerts((current) => [incoming, ...current.filter((a) => a.id !== incoming.id)]);
+            }
+        });
+    }, []);
+
     const fetchAlerts = async () => {
         try {
             setLoading(true);
@@ -62,7 +74,7 @@ export function AlertsPage() {
     const fetchUnreadCount = async () => {
         try {
             const { count } = await client.alerts.unreadCount();
-            setUnreadCount(count);
+            useAlertsStore.getState().setUnreadCount(count);
         } catch (error) {
             console.error("Failed to fetch unread count:", error);
         }
@@ -12,9 +12,19 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+interface StatusCount {
+    key: string;
+    name: string;
+    color: string;
+    done: boolean;
+    count: number;
+}
+
 interface TaskMetrics {
     total: number;
-    statusCounts: Record<string, number>;
+    statusCounts: StatusCount[];
+    doneCount: number;
+    inProgressCount: number;
     priorityCounts: Record<string, number>;
     overdueCount: number;
     completionRate: number;
@@ -62,7 +72,7 @@ export function AnalyticsPage() {
         {
             label: "Task Completion",
             value: `${taskMetrics?.completionRate ?? 0}%`,
-            subtitle: `${taskMetrics?.statusCounts?.done ?? 0} of ${taskMetrics?.total ?? 0} tasks`,
+            subtitle: `${taskMetrics?.doneCount ?? 0} of ${taskMetrics?.total ?? 0} tasks`,
             icon: CheckCircle,
             color: "from-emerald-500 to-green-500",
             shadowColor: "shadow-emerald-500/20",
@@ -70,7 +80,7 @@ export function AnalyticsPage() {
         {
             label: "In Progress",
             value: `${taskMetrics?.inProgressRate ?? 0}%`,
-            subtitle: `${taskMetrics?.statusCounts?.["in-progress"] ?? 0} active tasks`,
+            subtitle: `${taskMetrics?.inProgressCount ?? 0} active tasks`,
             icon: Clock,
             color: "from-blue-500 to-cyan-500",
             shadowColor: "shadow-blue-500/20",
@@ -148,32 +158,19 @@ export function AnalyticsPage() {
                         Task Distribution
                     </h2>
                     <div className="space-y-4">
-                        {["todo", "in-progress", "review", "done"].map((status) => {
-                            const count = taskMetrics?.statusCounts?.[status] ?? 0;
+                        {(taskMetrics?.statusCounts ?? []).map((status) => {
                             const total = taskMetrics?.total ?? 1;
-                            const percentage = Math.round((count / total) * 100) || 0;
-                            const colors: Record<string, string> = {
-                                todo: "bg-gray-500",
-                                "in-progress": "bg-blue-500",
-                                review: "bg-amber-500",
-                                done: "bg-emerald-500",
-                            };
-                            const labels: Record<string, string> = {
-                                todo: "To Do",
-                                "in-progress": "In Progress",
-                                review: "Review",
-                                done: "Done",
-                            };
+                            const percentage = Math.round((status.count / total) * 100) || 0;
                             return (
-                                <div key={status}>
+                                <div key={status.key}>
                                     <div className="flex items-center justify-between text-sm mb-1">
-                                        <span className="text-gray-400">{labels[status]}</span>
-                                        <span className="text-white font-medium">{count} ({percentage}%)</span>
+                                        <span className="text-gray-400">{status.name}</span>
+                                        <span className="text-white font-medium">{status.count} ({percentage}%)</span>
                                     </div>
                                     <div className="h-2 bg-white/5 rounded-full overflow-hidden">
                                         <div
-                                            className={cn("h-full rounded-full transition-all duration-500", colors[status])}
-                                            style={{ width: `${percentage}%` }}
+                                            className="h-full rounded-full transition-all duration-500"
+                                            style={{ width: `${percentage}%`, backgroundColor: status.color }}
                                         />
                                     </div>
                                 </div>
@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { ScrollText, Search, ChevronLeft, ChevronRight, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { DataTable, type ColumnDef } from "@/components/ui/data-table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface AuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+interface AuditEntry {
+    id: string;
+    actor?: { _id: string; name: string; email: string };
+    viaApiToken: boolean;
+    path: string;
+    targetId?: string;
+    changes: AuditChange[];
+    createdAt: string;
+}
+
+interface AuditPage {
+    items: AuditEntry[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+const PAGE_SIZE = 25;
+
+const RESOURCE_OPTIONS = [
+    { value: "all", label: "All resources" },
+    { value: "tasks", label: "Tasks" },
+    { value: "events", label: "Events" },
+    { value: "teams", label: "Teams" },
+    { value: "rooms", label: "Rooms" },
+    { value: "bookings", label: "Bookings" },
+    { value: "assets", label: "Assets" },
+    { value: "alerts", label: "Alerts" },
+    { value: "iot", label: "IoT" },
+    { value: "roles", label: "Roles" },
+    { value: "users", label: "Users" },
+    { value: "organizations", label: "Organizations" },
+    { value: "apiTokens", label: "API tokens" },
+    { value: "auth", label: "Sign-in" },
+];
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return "—";
+    if (typeof value === "string") return value;
+    return JSON.stringify(value, null, 2);
+}
+
+export function AuditPage() {
+    const [data, setData] = useState<AuditPage>({ items: [], total: 0, page: 1, pageSize: PAGE_SIZE });
+    const [members, setMembers] = useState<{ id: string; name: string }[]>([]);
+    const [resource, setResource] = useState("all");
+    const [actor, setActor] = useState("all");
+    const [targetId, setTargetId] = useState("");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [page, setPage] = useState(1);
+    const [selected, setSelected] = useState<AuditEntry | null>(null);
+
+    const fetchEntries = useCallback(() => {
+        client.audit.list({
+            resource: resource === "all" ? undefined : resource,
+            actor: actor === "all" ? undefined : actor,
+            targetId: targetId.trim() || undefined,
+            // Whole days in local time
+            from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+            to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+            page,
+            pageSize: PAGE_SIZE,
+        })
+            .then((result: AuditPage) => setData(result))
+            .catch((error: unknown) => handleApiError(error, "Failed to fetch audit log"));
+    }, [resource, actor, targetId, from, to, page]);
+
+    useEffect(() => {
+        const timeout = setTimeout(fetchEntries, 250);
+        return () => clearTimeout(timeout);
+    }, [fetchEntries]);
+
+    useEffect(() => {
+        client.users.list({ pageSize: 100 })
+            .then((result: { items: { id: string; name: string }[] }) =>
+                setMembers(result.items.map((u) => ({ id: u.id, name: u.name })))
+            )
+            .catch((error: unknown) => console.error("Failed to fetch users:", error));
+    }, []);
+
+    const actorOptions = useMemo(
+        () => [{ value: "all", label: "Anyone" }, ...members.map((m) => ({ value: m.id, label: m.name }))],
+        [members]
+    );
+
+    const columns = useMemo<ColumnDef<AuditEntry>[]>(() => [
+        {
+            accessorKey: "createdAt",
+            header: "When",
+            cell: ({ row }) => (
+                <span className="text-sm text-gray-300 whitespace-nowrap">
+                    {format(new Date(row.original.createdAt), "MMM d, yyyy HH:mm:ss")}
+                </span>
+            ),
+        },
+        {
+            id: "actor",
+            header: "Actor",
+            accessorFn: (entry) => entry.actor?.name ?? "Deleted user",
+            cell: ({ row }) => (
+                <div className="flex items-center gap-2">
+                    <div>
+                        <div className="font-medium text-white">{row.original.actor?.name ?? "Deleted user"}</div>
+                        <div className="text-xs text-gray-400">{row.original.actor?.email}</div>
+                    </div>
+                    {row.original.viaApiToken && (
+                        <span title="Made with an API token">
+                            <KeyRound className="w-4 h-4 text-amber-400" />
+                        </span>
+                    )}
+                </div>
+            ),
+        },
+        {
+            accessorKey: "path",
+            header: "Action",
+            cell: ({ row }) => <code className="text-sm text-violet-300">{row.original.path}</code>,
+        },
+        {
+            accessorKey: "targetId",
+            header: "Target",
+            cell: ({ row }) =>
+                row.original.targetId ? (
+                    <button
+                        onClick={() => {
+                            setTargetId(row.original.targetId!);
+                            setPage(1);
+                        }}
+                        className="font-mono text-xs text-gray-300 hover:text-white"
+                        title="Show the history of this record"
+                    >
+                        {row.original.targetId}
+                    </button>
+                ) : (
+                    <span className="text-gray-500">—</span>
+                ),
+        },
+        {
+            id: "changes",
+            header: "Changes",
+            enableSorting: false,
+            cell: ({ row }) =>
+                row.original.changes.length > 0 ? (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelected(row.original)}
+                        className="text-violet-400 hover:text-violet-300"
+                    >
+                        {row.original.changes.length} field{row.original.changes.length === 1 ? "" : "s"}
+                    </Button>
+                ) : (
+                    <span className="text-sm text-gray-500">No changes</span>
+                ),
+        },
+    ], []);
+
+    const totalPages = Math.max(1, Math.ceil(data.total / PAGE_SIZE));
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 p-6">
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+                    <ScrollText className="w-7 h-7 text-violet-400" />
+                    Audit Log
+                </h1>
+                <p className="text-gray-400 mt-1">Every change made in the organization, who made it and what it changed</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <div className="w-44">
+                    <Select
+                        options={RESOURCE_OPTIONS}
+                        value={resource}
+                        onValueChange={(value) => {
+                            setResource(value);
+                            setPage(1);
+                        }}
+                    />
+                </div>
+                <div className="w-48">
+                    <Select
+                        options={actorOptions}
+                        value={actor}
+                        onValueChange={(value) => {
+                            setActor(value);
+                            setPage(1);
+                        }}
+                    />
+                </div>
+                <div className="relative w-64">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <Input
+                        value={targetId}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setTargetId(e.target.value);
+                            setPage(1);
+                        }}
+                        placeholder="Target id"
+                        className="pl-9 bg-white/5 border-white/10 text-white"
+                    />
+                </div>
+                <Input
+                    type="date"
+                    value={from}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                        setFrom(e.target.value);
+                        setPage(1);
+                    }}
+                    className="w-40 bg-white/5 border-white/10 text-white"
+                    title="From"
+                />
+                <Input
+                    type="date"
+                    value={to}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                        setTo(e.target.value);
+                        setPage(1);
+                    }}
+                    className="w-40 bg-white/5 border-white/10 text-white"
+                    title="To"
+                />
+            </div>
+
+            <div className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-4">
+                <DataTable columns={columns} data={data.items} showSearch={false} showPagination={false} defaultPageSize={PAGE_SIZE} />
+
+                <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+                    <span>{data.total} entries</span>
+                    <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                            <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <span>Page {page} of {totalPages}</span>
+                        <Button variant="ghost" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                            <ChevronRight className="w-4 h-4" />
+                        </Button>
+                    </div>
+                </div>
+            </div>
+
+            <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+                <DialogContent className="bg-slate-900 border-white/10 text-white max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <ScrollText className="w-5 h-5 text-violet-400" />
+                            <code>{selected?.path}</code>
+                        </DialogTitle>
+                    </DialogHeader>
+                    {selected && (
+                        <div className="mt-2 space-y-3">
+                            <p className="text-sm text-gray-400">
+                                {selected.actor?.name ?? "Deleted user"} · {format(new Date(selected.createdAt), "MMM d, yyyy HH:mm:ss")}
+                                {selected.targetId && ` · ${selected.targetId}`}
+                            </p>
+                            <div className="max-h-[60vh] overflow-y-auto rounded-xl border border-white/10 divide-y divide-white/10">
+                                {selected.changes.map((change) => (
+                                    <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-3 p-3 text-sm">
+                                        <span className="font-medium text-gray-300">{change.field}</span>
+                                        <pre className="whitespace-pre-wrap break-all text-red-300 bg-red-500/10 rounded-lg p-2">
+                                            {formatValue(change.before)}
+                                        </pre>
+                                        <pre className="whitespace-pre-wrap break-all text-emerald-300 bg-emerald-500/10 rounded-lg p-2">
+                                            {formatValue(change.after)}
+                                        </pre>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
 import {
     Calendar as CalendarIcon,
     Plus,
@@ -8,6 +9,7 @@ import {
     ChevronRight,
     Clock,
     MapPin,
+    Repeat,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,8 +25,17 @@ interface Event {
     location?: string;
     status: string;
     color?: string;
+    recurrence?: string;
+    occurrenceStart?: string;
 }
 
+const repeatOptions = [
+    { label: "Never", value: "" },
+    { label: "Daily", value: "FREQ=DAILY" },
+    { label: "Weekly", value: "FREQ=WEEKLY" },
+    { label: "Monthly", value: "FREQ=MONTHLY" },
+] as const;
+
 export function CalendarPage() {
     const [events, setEvents] = useState<Event[]>([]);
     const [currentDate, setCurrentDate] = useState(new Date());
@@ -35,6 +46,7 @@ export function CalendarPage() {
         start: "",
         end: "",
         location: "",
+        recurrence: "",
     });
 
     const monthStart = startOfMonth(currentDate);
@@ -88,14 +100,14 @@ export function CalendarPage() {
                 start: new Date(newEvent.start).toISOString(),
                 end: new Date(newEvent.end).toISOString(),
                 location: newEvent.location || undefined,
+                recurrence: newEvent.recurrence || undefined,
             });
             setShowEventDialog(false);
-            setNewEvent({ title: "", description: "", start: "", end: "", location: "" });
+            setNewEvent({ title: "", description: "", start: "", end: "", location: "", recurrence: "" });
             toast.success("Event created", { description: newEvent.title });
             fetchEvents();
         } catch (error) {
-            console.error("Failed to create event:", error);
-            toast.error("Failed to create event");
+            handleApiError(error, "Failed to create event");
         }
     };
 
@@ -173,9 +185,10 @@ export function CalendarPage() {
                                 <div className="mt-1 space-y-1 overflow-hidden">
                                     {dayEvents.slice(0, 2).map((event) => (
                                         <div
-                                            key={event.id}
-                                            className="text-xs px-1.5 py-0.5 rounded truncate bg-blue-500/30 text-blue-300"
+                                            key={`${event.id}-${event.start}`}
+                                            className="flex items-center gap-1 text-xs px-1.5 py-0.5 rounded truncate bg-blue-500/30 text-blue-300"
                                         >
+                                            {event.recurrence && <Repeat className="w-3 h-3 shrink-0" />}
                                             {event.title}
                                         </div>
                                     ))}
@@ -242,6 +255,25 @@ export function CalendarPage() {
                                 className="bg-white/5 border-white/10 text-white"
                             />
                         </div>
+                        <div>
+                            <label className="text-sm text-gray-400 mb-2 flex items-center gap-1">
+                                <Repeat className="w-3 h-3" /> Repeat
+                            </label>
+                            <div className="flex gap-2">
+                                {repeatOptions.map((option) => (
+                                    <button
+                                        key={option.label}
+                                        onClick={() => setNewEvent({ ...newEvent, recurrence: option.value })}
+                                        className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${newEvent.recurrence === option.value
+                                            ? "bg-blue-500/20 text-blue-400 ring-2 ring-white/20"
+                                            : "bg-white/5 text-gray-400 hover:bg-white/10"
+                                            }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
                         <div>
                             <label className="text-sm text-gray-400 mb-1 block">Description</label>
                             <Input
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Link } from "@tanstack/react-router";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { KeyRound, Mail, Loader2, ArrowLeft } from "lucide-react";
+
+export function ForgotPasswordPage() {
+    const [email, setEmail] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    const [sent, setSent] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+
+        try {
+            await client.auth.requestPasswordReset({ email });
+            setSent(true);
+        } catch (err) {
+            handleApiError(err, "Failed to send reset link");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+            <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(120,119,198,0.1),transparent_50%)]" />
+
+            <div className="relative w-full max-w-md p-8">
+                <div className="backdrop-blur-xl bg-white/10 rounded-3xl shadow-2xl border border-white/20 p-8">
+                    <div className="text-center mb-8">
+                        <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 mb-4 shadow-lg shadow-purple-500/30">
+                            <KeyRound className="w-8 h-8 text-white" />
+                        </div>
+                        <h1 className="text-3xl font-bold text-white mb-2">Forgot Password</h1>
+                        <p className="text-gray-400">We'll email you a link to reset it</p>
+                    </div>
+
+                    {sent ? (
+                        <div className="p-4 rounded-xl bg-green-500/20 border border-green-500/30 text-green-300 text-sm text-center">
+                            If an account exists for {email}, a reset link is on its way. The link is valid for one hour.
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-5">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-300">Email</label>
+                                <div className="relative">
+                                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <Input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        placeholder="you@example.com"
+                                        required
+                                        className="pl-11 h-12 bg-white/5 border-white/10 text-white placeholder:text-gray-500 focus:border-purple-500 focus:ring-purple-500/20 rounded-xl"
+                                    />
+                                </div>
+                            </div>
+
+                            <Button
+                                type="submit"
+                                disabled={isLoading}
+                                className="w-full h-12 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white font-semibold rounded-xl shadow-lg shadow-purple-500/30 transition-all duration-200"
+                            >
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                        Sending...
+                                    </>
+                                ) : (
+                                    "Send Reset Link"
+                                )}
+                            </Button>
+                        </form>
+                    )}
+
+                    <div className="mt-6 text-center">
+                        <Link
+                            to="/login"
+                            className="inline-flex items-center gap-1 text-purple-400 hover:text-purple-300 font-medium transition-colors"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Back to sign in
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
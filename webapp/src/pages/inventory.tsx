@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
 import {
     Package,
     Plus,
@@ -56,8 +57,7 @@ export function InventoryPage() {
                 const data = await client.assets.list({ search: search || undefined });
                 setAssets(data);
             } catch (error) {
-                console.error("Failed to fetch assets:", error);
-                toast.error("Failed to fetch inventory");
+                handleApiError(error, "Failed to fetch inventory");
             } finally {
                 setLoading(false);
             }
@@ -93,8 +93,7 @@ export function InventoryPage() {
             setAssets(data);
             setLoading(false);
         } catch (error) {
-            console.error("Failed to create asset:", error);
-            toast.error("Failed to create asset");
+            handleApiError(error, "Failed to create asset");
         }
     };
 
@@ -107,8 +106,7 @@ export function InventoryPage() {
             const data = await client.assets.list({ search: search || undefined });
             setAssets(data);
         } catch (error) {
-            console.error("Failed to delete asset:", error);
-            toast.error("Failed to delete asset");
+            handleApiError(error, "Failed to delete asset");
         }
     };
 
@@ -1,11 +1,23 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useNavigate } from "@tanstack/react-router";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useAuthStore } from "@/stores/auth-store";
-import { client } from "@/lib/api";
-import { LogIn, Mail, Lock, Loader2 } from "lucide-react";
+import { useAuthStore, type User } from "@/stores/auth-store";
+import { client, SSO_TRANSACTION_KEY } from "@/lib/api";
+import { getErrorMessage, handleApiError } from "@/lib/errors";
+import { TotpEnrollment, type EnrollmentResult } from "@/components/auth/totp-enrollment";
+import { RecoveryCodes } from "@/components/auth/recovery-codes";
+import { LogIn, Mail, Lock, Loader2, ShieldCheck, KeySquare } from "lucide-react";
+
+interface Session {
+    user: User;
+    token: string;
+    refreshToken: string;
+}
+
+// "code" asks for the second factor, "setup" enrolls accounts the 2FA policy applies to
+type Step = "password" | "code" | "setup" | "recovery-codes";
 
 export function LoginPage() {
     const navigate = useNavigate();
@@ -14,6 +26,26 @@ export function LoginPage() {
     const [password, setPassword] = useState("");
     const [error, setError] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    const [step, setStep] = useState<Step>("password");
+    const [challenge, setChallenge] = useState("");
+    const [code, setCode] = useState("");
+    const [enrollment, setEnrollment] = useState<EnrollmentResult | null>(null);
+    const [sso, setSso] = useState<{ enabled: boolean; name: string } | null>(null);
+    const [redirecting, setRedirecting] = useState(false);
+
+    useEffect(() => {
+        client.auth.ssoConfig()
+            .then((config: { enabled: boolean; name: string }) => setSso(config))
+            .catch((err: unknown) => console.error("Failed to fetch SSO config:", err));
+    }, []);
+
+    const completeLogin = (session: Session) => {
+        login(session.user, session.token, session.refreshToken);
+        toast.success("Welcome back!", {
+            description: `Signed in as ${session.user.email}`,
+        });
+        navigate({ to: "/" });
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -22,20 +54,148 @@ export function LoginPage() {
 
         try {
             const result = await client.auth.login({ email, password });
-            login(result.user, result.token);
-            toast.success("Welcome back!", {
-                description: `Signed in as ${result.user.email}`,
-            });
-            navigate({ to: "/" });
+            if (result.twoFactorRequired) {
+                setChallenge(result.challenge);
+                setStep("code");
+            } else if (result.twoFactorSetupRequired) {
+                setChallenge(result.challenge);
+                setStep("setup");
+            } else {
+                completeLogin(result);
+            }
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Login failed";
-            setError(message);
-            toast.error("Login failed", { description: message });
+            setError(getErrorMessage(err, "Login failed"));
+            handleApiError(err, "Login failed");
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleVerifyCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setIsLoading(true);
+
+        try {
+            completeLogin(await client.auth.verifyTwoFactor({ challenge, code }));
+        } catch (err) {
+            setCode("");
+            setError(getErrorMessage(err, "Verification failed"));
+            handleApiError(err, "Verification failed");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSso = async () => {
+        setError("");
+        setRedirecting(true);
+
+        try {
+            const { url, transaction } = await client.auth.ssoStart();
+            sessionStorage.setItem(SSO_TRANSACTION_KEY, transaction);
+            window.location.href = url;
+        } catch (err) {
+            setRedirecting(false);
+            handleApiError(err, "Failed to start single sign-on");
+        }
+    };
+
+    const handleEnrolled = (result: EnrollmentResult) => {
+        setEnrollment(result);
+        setStep("recovery-codes");
+    };
+
+    const restart = () => {
+        setStep("password");
+        setChallenge("");
+        setCode("");
+        setPassword("");
+        setError("");
+    };
+
+    if (step !== "password") {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+                <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(120,119,198,0.1),transparent_50%)]" />
+
+                <div className="relative w-full max-w-md p-8">
+                    <div className="backdrop-blur-xl bg-white/10 rounded-3xl shadow-2xl border border-white/20 p-8">
+                        <div className="text-center mb-6">
+                            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 mb-4 shadow-lg shadow-purple-500/30">
+                                <ShieldCheck className="w-8 h-8 text-white" />
+                            </div>
+                            <h1 className="text-2xl font-bold text-white mb-2">
+                                {step === "code" && "Two-Factor Authentication"}
+                                {step === "setup" && "Set Up Two-Factor Authentication"}
+                                {step === "recovery-codes" && "Save Your Recovery Codes"}
+                            </h1>
+                            {step === "setup" && (
+                                <p className="text-gray-400 text-sm">Your account requires two-factor authentication</p>
+                            )}
+                        </div>
+
+                        {step === "code" && (
+                            <form onSubmit={handleVerifyCode} className="space-y-5">
+                                {error && (
+                                    <div className="p-3 rounded-xl bg-red-500/20 border border-red-500/30 text-red-300 text-sm text-center">
+                                        {error}
+                                    </div>
+                                )}
+                                <p className="text-sm text-gray-400 text-center">
+                                    Enter the code from your authenticator app, or one of your recovery codes.
+                                </p>
+                                <Input
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                    placeholder="123456"
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                    required
+                                    className="h-12 bg-white/5 border-white/10 text-white text-center tracking-widest placeholder:text-gray-500 focus:border-purple-500 focus:ring-purple-500/20 rounded-xl"
+                                />
+                                <Button
+                                    type="submit"
+                                    disabled={isLoading}
+                                    className="w-full h-12 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white font-semibold rounded-xl shadow-lg shadow-purple-500/30 transition-all duration-200"
+                                >
+                                    {isLoading && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+                                    Verify
+                                </Button>
+                            </form>
+                        )}
+
+                        {step === "setup" && (
+                            <TotpEnrollment challenge={challenge} onEnabled={handleEnrolled} onCancel={restart} />
+                        )}
+
+                        {step === "recovery-codes" && enrollment && (
+                            <RecoveryCodes
+                                codes={enrollment.recoveryCodes}
+                                onDone={() => {
+                                    const { user, token, refreshToken } = enrollment;
+                                    if (user && token && refreshToken) completeLogin({ user, token, refreshToken });
+                                }}
+                            />
+                        )}
+
+                        {step === "code" && (
+                            <div className="mt-6 text-center">
+                                <button
+                                    type="button"
+                                    onClick={restart}
+                                    className="text-sm text-purple-400 hover:text-purple-300 transition-colors"
+                                >
+                                    Use a different account
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
             <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(120,119,198,0.1),transparent_50%)]" />
@@ -73,7 +233,15 @@ export function LoginPage() {
                         </div>
 
                         <div className="space-y-2">
-                            <label className="text-sm font-medium text-gray-300">Password</label>
+                            <div className="flex items-center justify-between">
+                                <label className="text-sm font-medium text-gray-300">Password</label>
+                                <Link
+                                    to="/forgot-password"
+                                    className="text-sm text-purple-400 hover:text-purple-300 transition-colors"
+                                >
+                                    Forgot password?
+                                </Link>
+                            </div>
                             <div className="relative">
                                 <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                                 <Input
@@ -103,6 +271,30 @@ export function LoginPage() {
                         </Button>
                     </form>
 
+                    {sso?.enabled && (
+                        <>
+                            <div className="flex items-center gap-3 my-6">
+                                <div className="flex-1 h-px bg-white/10" />
+                                <span className="text-xs uppercase tracking-wider text-gray-500">or</span>
+                                <div className="flex-1 h-px bg-white/10" />
+                            </div>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleSso}
+                                disabled={redirecting}
+                                className="w-full h-12 bg-white/5 border-white/10 text-white hover:bg-white/10 rounded-xl"
+                            >
+                                {redirecting ? (
+                                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                ) : (
+                                    <KeySquare className="w-5 h-5 mr-2" />
+                                )}
+                                Sign in with {sso.name}
+                            </Button>
+                        </>
+                    )}
+
                     <div className="mt-6 text-center">
                         <p className="text-gray-400">
                             Don't have an account?{" "}
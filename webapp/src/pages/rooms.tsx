@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { client } from "@/lib/api";
+import { dependentsOf, handleApiError, type Dependent } from "@/lib/errors";
 // import { Room } from "@/../../backend/src/models/Room";
 // Since we don't have shared package, I'll define interfaces locally or use specific types if ORPC client provides them.
 // For now I'll trust the client types or define a local interface.
@@ -13,10 +14,12 @@ import {
     Monitor,
     Coffee,
     Trash2,
+    ShieldCheck,
     Calendar as CalendarIcon
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { DependentsDialog } from "@/components/common/dependents-dialog";
 import {
     Dialog,
     DialogContent,
@@ -36,13 +39,21 @@ interface IRoom {
     amenities: string[];
     status: "available" | "maintenance" | "occupied";
     images: string[];
+    requiresApproval?: boolean;
+    currentOccupancy?: number;
+    occupancyUpdatedAt?: string;
 }
 
+// How often the room list is refreshed to pick up sensor-driven occupancy changes
+const OCCUPANCY_REFRESH_MS = 30 * 1000;
+
 export function RoomsPage() {
     const [rooms, setRooms] = useState<IRoom[]>([]);
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState("");
     const [showCreateDialog, setShowCreateDialog] = useState(false);
+    // Upcoming bookings that kept a room from being deleted
+    const [blockedDelete, setBlockedDelete] = useState<{ id: string; dependents: Dependent[] } | null>(null);
 
     // New Room Form State
     const [newRoom, setNewRoom] = useState<{
@@ -51,12 +62,14 @@ export function RoomsPage() {
         location: string;
         amenities: string; // comma separated for input
         status: "available" | "maintenance" | "occupied";
+        requiresApproval: boolean;
     }>({
         name: "",
         capacity: 10,
         location: "",
         amenities: "",
         status: "available",
+        requiresApproval: false,
     });
 
     useEffect(() => {
@@ -68,8 +81,7 @@ export function RoomsPage() {
                     const data = await client.rooms.list({ search: search || undefined });
                     setRooms(data as IRoom[]);
                 } catch (error) {
-                    console.error("Failed to fetch rooms:", error);
-                    toast.error("Failed to load rooms");
+                    handleApiError(error, "Failed to load rooms");
                 } finally {
                     setLoading(false);
                 }
@@ -79,6 +91,18 @@ export function RoomsPage() {
         fetchRooms();
     }, [search]);
 
+    useEffect(() => {
+        const interval = setInterval(async () => {
+            try {
+                const data = await client.rooms.list({ search: search || undefined });
+                setRooms(data as IRoom[]);
+            } catch (error) {
+                console.error("Failed to refresh rooms:", error);
+            }
+        }, OCCUPANCY_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [search]);
+
     const handleCreateRoom = async () => {
         if (!newRoom.name || !newRoom.location) {
             toast.error("Please fill in required fields");
@@ -91,25 +115,30 @@ export function RoomsPage() {
                 amenities: newRoom.amenities.split(",").map(s => s.trim()).filter(Boolean),
             });
             setShowCreateDialog(false);
-            setNewRoom({ name: "", capacity: 10, location: "", amenities: "", status: "available" });
+            setNewRoom({ name: "", capacity: 10, location: "", amenities: "", status: "available", requiresApproval: false });
             toast.success("Room created successfully");
             // Refresh
             const data = await client.rooms.list({ search: search || undefined });
             setRooms(data as IRoom[]);
         } catch (error) {
-            console.error(error);
-            toast.error("Failed to create room");
+            handleApiError(error, "Failed to create room");
         }
     };
 
-    const handleDeleteRoom = async (id: string) => {
-        if (!confirm("Delete this room?")) return;
+    const handleDeleteRoom = async (id: string, policy?: string) => {
+        if (!policy && !confirm("Delete this room?")) return;
         try {
-            await client.rooms.delete({ id });
+            await client.rooms.delete({ id, policy });
             setRooms(rooms.filter(r => r.id !== id));
+            setBlockedDelete(null);
             toast.success("Room deleted");
-        } catch {
-            toast.error("Failed to delete room");
+        } catch (error) {
+            const dependents = dependentsOf(error);
+            if (dependents.length > 0) {
+                setBlockedDelete({ id, dependents });
+                return;
+            }
+            handleApiError(error, "Failed to delete room");
         }
     };
 
@@ -192,11 +221,35 @@ export function RoomsPage() {
                                     <MapPin className="w-3.5 h-3.5" /> {room.location}
                                 </p>
 
+                                {room.occupancyUpdatedAt && (
+                                    <div className="mb-4">
+                                        <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                            <span>Live occupancy</span>
+                                            <span>{room.currentOccupancy ?? 0} / {room.capacity}</span>
+                                        </div>
+                                        <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                                            <div
+                                                className={cn(
+                                                    "h-full rounded-full transition-all",
+                                                    (room.currentOccupancy ?? 0) > room.capacity ? "bg-red-500" : "bg-violet-500"
+                                                )}
+                                                style={{ width: `${Math.min(100, ((room.currentOccupancy ?? 0) / Math.max(room.capacity, 1)) * 100)}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
                                 <div className="flex flex-wrap gap-2 mb-4">
                                     <div className="flex items-center gap-1.5 text-xs text-gray-300 bg-white/5 px-2 py-1 rounded-md">
                                         <Users className="w-3 h-3 text-violet-400" />
                                         {room.capacity} Seats
                                     </div>
+                                    {room.requiresApproval && (
+                                        <div className="flex items-center gap-1.5 text-xs text-amber-300 bg-amber-500/10 px-2 py-1 rounded-md">
+                                            <ShieldCheck className="w-3 h-3" />
+                                            Approval required
+                                        </div>
+                                    )}
                                     {room.amenities.map((amenity, idx) => (
                                         <div key={idx} className="flex items-center gap-1.5 text-xs text-gray-300 bg-white/5 px-2 py-1 rounded-md">
                                             {amenity.toLowerCase().includes('wifi') ? <Wifi className="w-3 h-3" /> :
@@ -280,6 +333,15 @@ export function RoomsPage() {
                                 ))}
                             </div>
                         </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={newRoom.requiresApproval}
+                                onChange={(e) => setNewRoom({ ...newRoom, requiresApproval: e.target.checked })}
+                                className="accent-violet-500"
+                            />
+                            Bookings require approval
+                        </label>
                     </div>
                     <DialogFooter>
                         <Button onClick={() => setShowCreateDialog(false)} variant="ghost" className="hover:bg-white/10">Cancel</Button>
@@ -287,6 +349,22 @@ export function RoomsPage() {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {blockedDelete && (
+                <DependentsDialog
+                    title={rooms.find((r) => r.id === blockedDelete.id)?.name ?? "this room"}
+                    dependents={blockedDelete.dependents}
+                    policies={[
+                        {
+                            value: "cascade",
+                            label: "Cancel the bookings",
+                            description: "Upcoming bookings are cancelled and their organizers are notified",
+                        },
+                    ]}
+                    onConfirm={(policy) => handleDeleteRoom(blockedDelete.id, policy)}
+                    onCancel={() => setBlockedDelete(null)}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,497 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { useAuthStore } from "@/stores/auth-store";
+import { Settings, KeyRound, Trash2, Loader2, ShieldCheck, Code2, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { TotpEnrollment } from "@/components/auth/totp-enrollment";
+import { RecoveryCodes } from "@/components/auth/recovery-codes";
+
+interface UserOption {
+    id: string;
+    name: string;
+    email: string;
+}
+
+interface ApiToken {
+    id: string;
+    name: string;
+    tokenPrefix: string;
+    scopes: string[];
+    organization?: string;
+    expiresAt: string;
+    lastUsedAt?: string;
+    createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+    { value: "7", label: "7 days" },
+    { value: "30", label: "30 days" },
+    { value: "90", label: "90 days" },
+    { value: "365", label: "1 year" },
+];
+
+function ApiTokensSection() {
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [permissions, setPermissions] = useState<string[]>([]);
+    const [form, setForm] = useState({ name: "", scopes: [] as string[], expiresInDays: "30" });
+    const [created, setCreated] = useState<string | null>(null);
+    const [creating, setCreating] = useState(false);
+
+    const fetchTokens = useCallback(() => {
+        client.apiTokens.list()
+            .then((data: ApiToken[]) => setTokens(data))
+            .catch((error: unknown) => console.error("Failed to fetch API tokens:", error));
+    }, []);
+
+    useEffect(() => {
+        fetchTokens();
+        // Tokens can be scoped to anything the user is allowed to do, globally or in one of their teams
+        client.roles.mine()
+            .then((mine: { permissions: string[]; teams: Record<string, string[]> }) => {
+                const all = new Set([...mine.permissions, ...Object.values(mine.teams).flat()]);
+                setPermissions([...all].sort());
+            })
+            .catch((error: unknown) => console.error("Failed to fetch permissions:", error));
+    }, [fetchTokens]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (form.scopes.length === 0) {
+            toast.error("Pick at least one scope");
+            return;
+        }
+
+        setCreating(true);
+        try {
+            const result = await client.apiTokens.create({
+                name: form.name,
+                scopes: form.scopes,
+                expiresInDays: Number(form.expiresInDays),
+            });
+            setCreated(result.token);
+            setForm({ name: "", scopes: [], expiresInDays: "30" });
+            fetchTokens();
+        } catch (error) {
+            handleApiError(error, "Failed to create token");
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleRevoke = async (token: ApiToken) => {
+        if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+
+        try {
+            await client.apiTokens.revoke({ id: token.id });
+            toast.success("Token revoked");
+            fetchTokens();
+        } catch (error) {
+            handleApiError(error, "Failed to revoke token");
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!created) return;
+        await navigator.clipboard.writeText(created);
+        toast.success("Token copied");
+    };
+
+    return (
+        <div className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                <Code2 className="w-5 h-5 text-violet-400" />
+                Personal API Tokens
+            </h2>
+            <p className="text-sm text-gray-400">
+                Tokens let scripts call the API as you, sent as <span className="font-mono">Authorization: Bearer pat_...</span>.
+                They can only use the scopes you pick, and never more than your own permissions.
+            </p>
+
+            {created && (
+                <div className="rounded-xl bg-emerald-500/10 border border-emerald-500/20 p-4 space-y-2">
+                    <p className="text-sm text-emerald-300">Copy your new token now - it will not be shown again.</p>
+                    <div className="flex gap-2">
+                        <Input readOnly value={created} className="bg-black/30 border-white/10 text-white font-mono text-xs" />
+                        <Button type="button" variant="outline" onClick={handleCopy} className="border-white/10 text-gray-300">
+                            <Copy className="w-4 h-4" />
+                        </Button>
+                    </div>
+                    <button type="button" onClick={() => setCreated(null)} className="text-xs text-gray-400 hover:text-gray-300">
+                        Done
+                    </button>
+                </div>
+            )}
+
+            {tokens.length > 0 && (
+                <div className="divide-y divide-white/10 rounded-xl border border-white/10">
+                    {tokens.map((token) => (
+                        <div key={token.id} className="flex items-start gap-4 p-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-white font-medium">{token.name}</span>
+                                    <span className="font-mono text-xs text-gray-500">{token.tokenPrefix}...</span>
+                                </div>
+                                <p className="text-xs text-gray-400 mt-1 truncate">
+                                    {token.organization && <span className="text-gray-300">{token.organization} · </span>}
+                                    {token.scopes.join(", ")}
+                                </p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Expires {format(new Date(token.expiresAt), "PP")}
+                                    {" · "}
+                                    {token.lastUsedAt
+                                        ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                                        : "never used"}
+                                </p>
+                            </div>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRevoke(token)}
+                                className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                            >
+                                Revoke
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <form onSubmit={handleCreate} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="text-sm text-gray-400 mb-1 block">Name</label>
+                        <Input
+                            value={form.name}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, name: e.target.value })}
+                            placeholder="e.g. Nightly report"
+                            required
+                            className="bg-white/5 border-white/10 text-white"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-sm text-gray-400 mb-1 block">Expires after</label>
+                        <Select
+                            options={EXPIRY_OPTIONS}
+                            value={form.expiresInDays}
+                            onValueChange={(value) => setForm({ ...form, expiresInDays: value })}
+                        />
+                    </div>
+                </div>
+                <div>
+                    <label className="text-sm text-gray-400 mb-1 block">Scopes</label>
+                    <MultiSelect
+                        options={permissions.map((p) => ({ value: p, label: p }))}
+                        value={form.scopes}
+                        onValueChange={(scopes) => setForm({ ...form, scopes })}
+                        placeholder="Select scopes"
+                    />
+                </div>
+                <Button type="submit" disabled={creating} className="bg-violet-600 hover:bg-violet-500">
+                    {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Create Token
+                </Button>
+            </form>
+        </div>
+    );
+}
+
+function TwoFactorSection() {
+    const { user, setUser } = useAuthStore();
+    const [enrolling, setEnrolling] = useState(false);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [confirmation, setConfirmation] = useState({ password: "", code: "" });
+    const [busy, setBusy] = useState(false);
+
+    // The persisted user may predate a change made on another device
+    useEffect(() => {
+        client.auth.me()
+            .then((me: { twoFactorEnabled: boolean }) => {
+                const current = useAuthStore.getState().user;
+                if (current) setUser({ ...current, twoFactorEnabled: me.twoFactorEnabled });
+            })
+            .catch((error: unknown) => console.error("Failed to fetch profile:", error));
+    }, [setUser]);
+
+    if (!user) return null;
+    const enabled = Boolean(user.twoFactorEnabled);
+
+    const handleEnabled = ({ recoveryCodes }: { recoveryCodes: string[] }) => {
+        setEnrolling(false);
+        setRecoveryCodes(recoveryCodes);
+        setUser({ ...user, twoFactorEnabled: true });
+        toast.success("Two-factor authentication enabled");
+    };
+
+    const handleRegenerate = async () => {
+        setBusy(true);
+        try {
+            const result = await client.auth.regenerateRecoveryCodes({ code: confirmation.code });
+            setRecoveryCodes(result.recoveryCodes);
+            setConfirmation({ password: "", code: "" });
+        } catch (error) {
+            handleApiError(error, "Failed to regenerate recovery codes");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDisable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!confirm("Turn off two-factor authentication?")) return;
+
+        setBusy(true);
+        try {
+            await client.auth.disableTwoFactor(confirmation);
+            setConfirmation({ password: "", code: "" });
+            setUser({ ...user, twoFactorEnabled: false });
+            toast.success("Two-factor authentication disabled");
+        } catch (error) {
+            handleApiError(error, "Failed to disable two-factor authentication");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5 text-violet-400" />
+                Two-Factor Authentication
+                <span className={`ml-auto text-xs font-medium px-2 py-0.5 rounded-full ${enabled ? "bg-emerald-500/20 text-emerald-300" : "bg-white/10 text-gray-400"}`}>
+                    {enabled ? "On" : "Off"}
+                </span>
+            </h2>
+
+            {recoveryCodes ? (
+                <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+            ) : enrolling ? (
+                <TotpEnrollment onEnabled={handleEnabled} onCancel={() => setEnrolling(false)} />
+            ) : !enabled ? (
+                <>
+                    <p className="text-sm text-gray-400">
+                        Require a code from an authenticator app in addition to your password when signing in.
+                    </p>
+                    <Button onClick={() => setEnrolling(true)} className="bg-violet-600 hover:bg-violet-500">
+                        Set Up Two-Factor
+                    </Button>
+                </>
+            ) : (
+                <form onSubmit={handleDisable} className="space-y-4">
+                    <p className="text-sm text-gray-400">
+                        Enter a current authenticator code to get new recovery codes, or your password and a code to
+                        turn two-factor off.
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Authenticator Code</label>
+                            <Input
+                                value={confirmation.code}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmation({ ...confirmation, code: e.target.value })}
+                                autoComplete="one-time-code"
+                                required
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Password</label>
+                            <Input
+                                type="password"
+                                value={confirmation.password}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmation({ ...confirmation, password: e.target.value })}
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            disabled={busy || !confirmation.code}
+                            onClick={handleRegenerate}
+                            className="border-white/10 text-gray-300"
+                        >
+                            New Recovery Codes
+                        </Button>
+                        <Button type="submit" disabled={busy || !confirmation.password} className="bg-red-600 hover:bg-red-500">
+                            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Turn Off
+                        </Button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+}
+
+export function SettingsPage() {
+    const { user, login, logout } = useAuthStore();
+    const [users, setUsers] = useState<UserOption[]>([]);
+    const [passwords, setPasswords] = useState({ current: "", next: "", confirm: "" });
+    const [changingPassword, setChangingPassword] = useState(false);
+    const [deletion, setDeletion] = useState({ password: "", transferTo: "" });
+    const [deleting, setDeleting] = useState(false);
+
+    useEffect(() => {
+        client.teams.availableUsers()
+            .then((data: UserOption[]) => setUsers(data))
+            .catch((error: unknown) => console.error("Failed to fetch users:", error));
+    }, []);
+
+    const handleChangePassword = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+
+        if (passwords.next !== passwords.confirm) {
+            toast.error("New passwords do not match");
+            return;
+        }
+
+        setChangingPassword(true);
+        try {
+            const tokens = await client.auth.changePassword({
+                currentPassword: passwords.current,
+                newPassword: passwords.next,
+            });
+            login(user, tokens.token, tokens.refreshToken);
+            setPasswords({ current: "", next: "", confirm: "" });
+            toast.success("Password changed", { description: "Other devices have been signed out" });
+        } catch (error) {
+            handleApiError(error, "Failed to change password");
+        } finally {
+            setChangingPassword(false);
+        }
+    };
+
+    const handleDeleteAccount = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!confirm("Delete your account? This cannot be undone.")) return;
+
+        setDeleting(true);
+        try {
+            await client.auth.deleteAccount({
+                password: deletion.password,
+                transferTo: deletion.transferTo || undefined,
+            });
+            toast.success("Your account has been deleted");
+            logout();
+        } catch (error) {
+            handleApiError(error, "Failed to delete account");
+            setDeleting(false);
+        }
+    };
+
+    const transferOptions = users
+        .filter((u) => u.id !== user?.id)
+        .map((u) => ({ value: u.id, label: `${u.name} (${u.email})` }));
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 p-6">
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+                    <Settings className="w-7 h-7 text-violet-400" />
+                    Settings
+                </h1>
+                <p className="text-gray-400 mt-1">Manage your account</p>
+            </div>
+
+            <div className="max-w-2xl space-y-6">
+                <form
+                    onSubmit={handleChangePassword}
+                    className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-6 space-y-4"
+                >
+                    <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                        <KeyRound className="w-5 h-5 text-violet-400" />
+                        Change Password
+                    </h2>
+                    <div>
+                        <label className="text-sm text-gray-400 mb-1 block">Current Password</label>
+                        <Input
+                            type="password"
+                            value={passwords.current}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPasswords({ ...passwords, current: e.target.value })}
+                            required
+                            className="bg-white/5 border-white/10 text-white"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">New Password</label>
+                            <Input
+                                type="password"
+                                value={passwords.next}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPasswords({ ...passwords, next: e.target.value })}
+                                minLength={6}
+                                required
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Confirm New Password</label>
+                            <Input
+                                type="password"
+                                value={passwords.confirm}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPasswords({ ...passwords, confirm: e.target.value })}
+                                minLength={6}
+                                required
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                    </div>
+                    <Button type="submit" disabled={changingPassword} className="bg-violet-600 hover:bg-violet-500">
+                        {changingPassword && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Change Password
+                    </Button>
+                </form>
+
+                <TwoFactorSection />
+
+                <ApiTokensSection />
+
+                <form
+                    onSubmit={handleDeleteAccount}
+                    className="rounded-2xl bg-red-500/5 border border-red-500/20 p-6 space-y-4"
+                >
+                    <h2 className="text-lg font-semibold text-red-400 flex items-center gap-2">
+                        <Trash2 className="w-5 h-5" />
+                        Delete Account
+                    </h2>
+                    <p className="text-sm text-gray-400">
+                        Your personal details are removed and you are signed out everywhere. Choose someone to take
+                        over your teams, tasks, events and bookings, or leave it empty to keep them under an
+                        anonymous "Deleted user" and cancel your upcoming bookings.
+                    </p>
+                    <div>
+                        <label className="text-sm text-gray-400 mb-1 block">Hand over to</label>
+                        <Select
+                            options={transferOptions}
+                            value={deletion.transferTo}
+                            onValueChange={(value) => setDeletion({ ...deletion, transferTo: value })}
+                            placeholder="Nobody (anonymize)"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-sm text-gray-400 mb-1 block">Confirm with your password</label>
+                        <Input
+                            type="password"
+                            value={deletion.password}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDeletion({ ...deletion, password: e.target.value })}
+                            required
+                            className="bg-white/5 border-white/10 text-white"
+                        />
+                    </div>
+                    <Button type="submit" disabled={deleting} className="bg-red-600 hover:bg-red-500">
+                        {deleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Delete My Account
+                    </Button>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuthStore } from "@/stores/auth-store";
 import { client } from "@/lib/api";
+import { getErrorMessage, handleApiError } from "@/lib/errors";
 import { UserPlus, Mail, Lock, User, Loader2 } from "lucide-react";
 
 export function SignupPage() {
@@ -35,15 +36,14 @@ export function SignupPage() {
 
         try {
             const result = await client.auth.signup({ email, password, name });
-            login(result.user, result.token);
+            login(result.user, result.token, result.refreshToken);
             toast.success("Account created!", {
-                description: "Welcome to the platform!",
+                description: "Confirm your email address with the link we sent you to join your workspace.",
             });
             navigate({ to: "/" });
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Signup failed";
-            setError(message);
-            toast.error("Signup failed", { description: message });
+            setError(getErrorMessage(err, "Signup failed"));
+            handleApiError(err, "Signup failed");
         } finally {
             setIsLoading(false);
         }
@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "@tanstack/react-router";
+import { toast } from "sonner";
+import { client, SSO_TRANSACTION_KEY } from "@/lib/api";
+import { getErrorMessage } from "@/lib/errors";
+import { useAuthStore, type User } from "@/stores/auth-store";
+import { Loader2, XCircle } from "lucide-react";
+
+export function SsoCallbackPage() {
+    const navigate = useNavigate();
+    const [error, setError] = useState("");
+    // Authorization codes are single-use, so StrictMode's double effect must not redeem it twice
+    const submitted = useRef(false);
+
+    useEffect(() => {
+        if (submitted.current) return;
+        submitted.current = true;
+
+        const transaction = sessionStorage.getItem(SSO_TRANSACTION_KEY);
+        sessionStorage.removeItem(SSO_TRANSACTION_KEY);
+        const params = new URLSearchParams(window.location.search);
+
+        if (params.get("error")) {
+            Promise.resolve().then(() => setError(params.get("error_description") ?? "The identity provider refused the sign-in"));
+            return;
+        }
+        if (!transaction) {
+            Promise.resolve().then(() => setError("This sign-in was not started here or has expired"));
+            return;
+        }
+
+        client.auth.ssoCallback({ query: window.location.search, transaction })
+            .then((result: { user: User; token: string; refreshToken: string }) => {
+                useAuthStore.getState().login(result.user, result.token, result.refreshToken);
+                toast.success("Welcome back!", {
+                    description: `Signed in as ${result.user.email}`,
+                });
+                navigate({ to: "/" });
+            })
+            .catch((err: unknown) => setError(getErrorMessage(err, "Single sign-on failed")));
+    }, [navigate]);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+            <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(120,119,198,0.1),transparent_50%)]" />
+
+            <div className="relative w-full max-w-md p-8">
+                <div className="backdrop-blur-xl bg-white/10 rounded-3xl shadow-2xl border border-white/20 p-8 text-center">
+                    <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 mb-4 shadow-lg shadow-purple-500/30">
+                        {error ? <XCircle className="w-8 h-8 text-white" /> : <Loader2 className="w-8 h-8 text-white animate-spin" />}
+                    </div>
+
+                    {error ? (
+                        <>
+                            <h1 className="text-2xl font-bold text-white mb-2">Sign-in failed</h1>
+                            <p className="text-gray-400">{error}</p>
+                            <div className="mt-6">
+                                <Link
+                                    to="/login"
+                                    className="text-purple-400 hover:text-purple-300 font-medium transition-colors"
+                                >
+                                    Back to sign in
+                                </Link>
+                            </div>
+                        </>
+                    ) : (
+                        <h1 className="text-2xl font-bold text-white mb-2">Signing you in...</h1>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
 import {
     CheckSquare,
     Plus,
@@ -8,11 +9,18 @@ import {
     Calendar,
     Flag,
     Trash2,
+    Lock,
+    CornerDownRight,
+    ListChecks,
+    Workflow,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { Select } from "@/components/ui/select";
+import { TaskDetailDialog } from "@/components/tasks/task-detail";
+import { WorkflowDialog, type WorkflowStatus } from "@/components/tasks/workflow-dialog";
 
 interface Task {
     id: string;
@@ -23,21 +31,23 @@ interface Task {
     dueDate?: string;
     labels: string[];
     order: number;
+    parent?: { _id: string; title: string };
+    blockers: { id: string; title: string; status: string }[];
+    progress: {
+        subtasks: { done: number; total: number };
+        checklist: { done: number; total: number };
+        percent: number;
+    };
 }
 
+// Columns follow the workflow of the chosen team's board
 interface KanbanData {
-    todo: Task[];
-    "in-progress": Task[];
-    review: Task[];
-    done: Task[];
+    workflow: WorkflowStatus[];
+    columns: Record<string, Task[]>;
 }
 
-const columns = [
-    { id: "todo", title: "To Do", color: "from-gray-500 to-gray-600" },
-    { id: "in-progress", title: "In Progress", color: "from-blue-500 to-cyan-500" },
-    { id: "review", title: "Review", color: "from-amber-500 to-orange-500" },
-    { id: "done", title: "Done", color: "from-emerald-500 to-green-500" },
-] as const;
+// Select value of the board shared by tasks outside any team and teams without their own workflow
+const DEFAULT_BOARD = "default";
 
 const priorityColors: Record<string, string> = {
     low: "bg-gray-500/20 text-gray-400",
@@ -55,6 +65,9 @@ const priorityDots: Record<string, string> = {
 
 export function TasksPage() {
     const [tasks, setTasks] = useState<KanbanData | null>(null);
+    const [board, setBoard] = useState(DEFAULT_BOARD);
+    const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+    const [editingWorkflow, setEditingWorkflow] = useState(false);
     const [loading, setLoading] = useState(true);
     const [showCreateDialog, setShowCreateDialog] = useState(false);
     const [newTask, setNewTask] = useState({
@@ -63,15 +76,19 @@ export function TasksPage() {
         priority: "medium" as Task["priority"],
     });
     const [draggedTask, setDraggedTask] = useState<{ task: Task; column: string } | null>(null);
+    const [openTaskId, setOpenTaskId] = useState<string | null>(null);
 
     useEffect(() => {
-        fetchTasks();
+        fetchTasks(DEFAULT_BOARD);
+        client.teams.list()
+            .then((result: { id: string; name: string }[]) => setTeams(result))
+            .catch((error: unknown) => console.error("Failed to fetch teams:", error));
     }, []);
 
-    const fetchTasks = async () => {
+    const fetchTasks = async (team: string) => {
         try {
             setLoading(true);
-            const data = await client.tasks.kanban();
+            const data = await client.tasks.kanban(team === DEFAULT_BOARD ? undefined : { team });
             setTasks(data);
         } catch (error) {
             console.error("Failed to fetch tasks:", error);
@@ -88,15 +105,14 @@ export function TasksPage() {
                 title: newTask.title,
                 description: newTask.description || undefined,
                 priority: newTask.priority,
-                status: "todo",
+                team: board === DEFAULT_BOARD ? undefined : board,
             });
             setShowCreateDialog(false);
             setNewTask({ title: "", description: "", priority: "medium" });
             toast.success("Task created", { description: newTask.title });
-            fetchTasks();
+            fetchTasks(board);
         } catch (error) {
-            console.error("Failed to create task:", error);
-            toast.error("Failed to create task");
+            handleApiError(error, "Failed to create task");
         }
     };
 
@@ -117,24 +133,30 @@ export function TasksPage() {
         try {
             await client.tasks.updateStatus({
                 id: draggedTask.task.id,
-                status: targetColumn as "todo" | "in-progress" | "review" | "done",
+                status: targetColumn,
                 order: 0,
             });
-            fetchTasks();
+            fetchTasks(board);
         } catch (error) {
-            console.error("Failed to update task:", error);
+            handleApiError(error, "Failed to move task");
         }
         setDraggedTask(null);
     };
 
+    // Columns the dragged task may not move to, per the workflow's allowed transitions
+    const isClosedTo = (status: string) => {
+        if (!draggedTask || draggedTask.column === status) return false;
+        const from = tasks?.workflow.find((s) => s.key === draggedTask.column);
+        return Boolean(from && from.next.length > 0 && !from.next.includes(status));
+    };
+
     const handleDeleteTask = async (id: string) => {
         try {
             await client.tasks.delete({ id });
             toast.success("Task deleted");
-            fetchTasks();
+            fetchTasks(board);
         } catch (error) {
-            console.error("Failed to delete task:", error);
-            toast.error("Failed to delete task");
+            handleApiError(error, "Failed to delete task");
         }
     };
 
@@ -148,29 +170,52 @@ export function TasksPage() {
                     </h1>
                     <p className="text-gray-400 mt-1">Manage your tasks with Kanban board</p>
                 </div>
-                <Button
-                    onClick={() => setShowCreateDialog(true)}
-                    className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 shadow-lg shadow-violet-500/20"
-                >
-                    <Plus className="w-4 h-4 mr-2" />
-                    New Task
-                </Button>
+                <div className="flex items-center gap-2">
+                    <Select
+                        options={[
+                            { value: DEFAULT_BOARD, label: "Default board" },
+                            ...teams.map((t) => ({ value: t.id, label: t.name })),
+                        ]}
+                        value={board}
+                        onValueChange={(value) => {
+                            setBoard(value);
+                            fetchTasks(value);
+                        }}
+                        className="w-48"
+                    />
+                    {board !== DEFAULT_BOARD && (
+                        <Button variant="ghost" onClick={() => setEditingWorkflow(true)} className="text-gray-300">
+                            <Workflow className="w-4 h-4 mr-2" />
+                            Workflow
+                        </Button>
+                    )}
+                    <Button
+                        onClick={() => setShowCreateDialog(true)}
+                        className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 shadow-lg shadow-violet-500/20"
+                    >
+                        <Plus className="w-4 h-4 mr-2" />
+                        New Task
+                    </Button>
+                </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                {columns.map((column) => {
-                    const columnTasks = tasks?.[column.id] ?? [];
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-none lg:grid-flow-col lg:auto-cols-[minmax(16rem,1fr)] gap-4 overflow-x-auto pb-2">
+                {(tasks?.workflow ?? []).map((column) => {
+                    const columnTasks = tasks?.columns[column.key] ?? [];
                     return (
                         <div
-                            key={column.id}
-                            className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-4"
+                            key={column.key}
+                            className={cn(
+                                "rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-4 transition-opacity",
+                                isClosedTo(column.key) && "opacity-40"
+                            )}
                             onDragOver={handleDragOver}
-                            onDrop={() => handleDrop(column.id)}
+                            onDrop={() => handleDrop(column.key)}
                         >
                             <div className="flex items-center justify-between mb-4">
                                 <div className="flex items-center gap-2">
-                                    <div className={`w-2 h-2 rounded-full bg-gradient-to-r ${column.color}`} />
-                                    <h3 className="font-semibold text-white">{column.title}</h3>
+                                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: column.color }} />
+                                    <h3 className="font-semibold text-white">{column.name}</h3>
                                     <span className="text-xs text-gray-500 px-2 py-0.5 rounded-full bg-white/5">
                                         {columnTasks.length}
                                     </span>
@@ -187,7 +232,8 @@ export function TasksPage() {
                                         <div
                                             key={task.id}
                                             draggable
-                                            onDragStart={() => handleDragStart(task, column.id)}
+                                            onDragStart={() => handleDragStart(task, column.key)}
+                                            onClick={() => setOpenTaskId(task.id)}
                                             className={cn(
                                                 "group p-3 rounded-xl bg-white/5 border border-white/10 cursor-grab active:cursor-grabbing transition-all duration-200 hover:bg-white/10 hover:border-white/20",
                                                 draggedTask?.task.id === task.id && "opacity-50"
@@ -197,6 +243,12 @@ export function TasksPage() {
                                                 <div className="flex items-start gap-2 flex-1 min-w-0">
                                                     <GripVertical className="w-4 h-4 text-gray-500 mt-0.5 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity" />
                                                     <div className="min-w-0">
+                                                        {task.parent && (
+                                                            <p className="flex items-center gap-1 text-xs text-gray-500 truncate mb-0.5">
+                                                                <CornerDownRight className="w-3 h-3 shrink-0" />
+                                                                {task.parent.title}
+                                                            </p>
+                                                        )}
                                                         <p className="text-white font-medium truncate">{task.title}</p>
                                                         {task.description && (
                                                             <p className="text-gray-500 text-sm truncate mt-1">{task.description}</p>
@@ -204,7 +256,10 @@ export function TasksPage() {
                                                     </div>
                                                 </div>
                                                 <button
-                                                    onClick={() => handleDeleteTask(task.id)}
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        handleDeleteTask(task.id);
+                                                    }}
                                                     className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-all"
                                                 >
                                                     <Trash2 className="w-4 h-4" />
@@ -221,7 +276,37 @@ export function TasksPage() {
                                                         {new Date(task.dueDate).toLocaleDateString()}
                                                     </span>
                                                 )}
+                                                {task.blockers.length > 0 && (
+                                                    <span
+                                                        className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-400"
+                                                        title={`Blocked by ${task.blockers.map((b) => b.title).join(", ")}`}
+                                                    >
+                                                        <Lock className="w-3 h-3" />
+                                                        Blocked
+                                                    </span>
+                                                )}
                                             </div>
+                                            {(task.progress.subtasks.total > 0 || task.progress.checklist.total > 0) && (
+                                                <div className="mt-3">
+                                                    <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                                                        <span className="flex items-center gap-1">
+                                                            <ListChecks className="w-3 h-3" />
+                                                            {task.progress.subtasks.total > 0 &&
+                                                                `${task.progress.subtasks.done}/${task.progress.subtasks.total} subtasks`}
+                                                            {task.progress.subtasks.total > 0 && task.progress.checklist.total > 0 && " · "}
+                                                            {task.progress.checklist.total > 0 &&
+                                                                `${task.progress.checklist.done}/${task.progress.checklist.total} items`}
+                                                        </span>
+                                                        <span>{task.progress.percent}%</span>
+                                                    </div>
+                                                    <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                                                        <div
+                                                            className="h-full bg-gradient-to-r from-violet-500 to-purple-500"
+                                                            style={{ width: `${task.progress.percent}%` }}
+                                                        />
+                                                    </div>
+                                                </div>
+                                            )}
                                             {task.assignee && (
                                                 <div className="flex items-center gap-2 mt-2 pt-2 border-t border-white/5">
                                                     <div className="w-5 h-5 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center">
@@ -303,6 +388,28 @@ export function TasksPage() {
                     </div>
                 </DialogContent>
             </Dialog>
+
+            {editingWorkflow && tasks && board !== DEFAULT_BOARD && (
+                <WorkflowDialog
+                    team={{ id: board, name: teams.find((t) => t.id === board)?.name ?? "Team" }}
+                    workflow={tasks.workflow}
+                    onSaved={() => {
+                        setEditingWorkflow(false);
+                        fetchTasks(board);
+                    }}
+                    onClose={() => setEditingWorkflow(false)}
+                />
+            )}
+
+            {openTaskId && (
+                <TaskDetailDialog
+                    key={openTaskId}
+                    taskId={openTaskId}
+                    onOpenTask={setOpenTaskId}
+                    onChanged={() => fetchTasks(board)}
+                    onClose={() => setOpenTaskId(null)}
+                />
+            )}
         </div>
     );
 }
@@ -1,9 +1,11 @@
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { client } from "@/lib/api";
+import { dependentsOf, handleApiError, type Dependent } from "@/lib/errors";
 import { Users, Plus, UserPlus, Trash2, Crown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { DependentsDialog } from "@/components/common/dependents-dialog";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
 
@@ -35,6 +37,8 @@ export function TeamsPage() {
     const [loading, setLoading] = useState(true);
     const [showCreateDialog, setShowCreateDialog] = useState(false);
     const [newTeam, setNewTeam] = useState({ name: "", description: "", color: "#8b5cf6" });
+    // Tasks that kept a team from being deleted
+    const [blockedDelete, setBlockedDelete] = useState<{ id: string; dependents: Dependent[] } | null>(null);
 
     useEffect(() => {
         fetchTeams();
@@ -66,20 +70,24 @@ export function TeamsPage() {
             toast.success("Team created", { description: newTeam.name });
             fetchTeams();
         } catch (error) {
-            console.error("Failed to create team:", error);
-            toast.error("Failed to create team");
+            handleApiError(error, "Failed to create team");
         }
     };
 
-    const handleDeleteTeam = async (id: string) => {
-        if (!confirm("Are you sure you want to delete this team?")) return;
+    const handleDeleteTeam = async (id: string, policy?: string, reassignTo?: string) => {
+        if (!policy && !confirm("Are you sure you want to delete this team?")) return;
         try {
-            await client.teams.delete({ id });
+            await client.teams.delete({ id, policy, reassignTo });
+            setBlockedDelete(null);
             toast.success("Team deleted");
             fetchTeams();
         } catch (error) {
-            console.error("Failed to delete team:", error);
-            toast.error("Failed to delete team");
+            const dependents = dependentsOf(error);
+            if (dependents.length > 0) {
+                setBlockedDelete({ id, dependents });
+                return;
+            }
+            handleApiError(error, "Failed to delete team");
         }
     };
 
@@ -241,6 +249,30 @@ export function TeamsPage() {
                     </div>
                 </DialogContent>
             </Dialog>
+
+            {blockedDelete && (
+                <DependentsDialog
+                    title={teams.find((t) => t.id === blockedDelete.id)?.name ?? "this team"}
+                    dependents={blockedDelete.dependents}
+                    policies={[
+                        {
+                            value: "reassign",
+                            label: "Move the tasks to another team",
+                            description: "The tasks keep their assignees and move to the team you pick",
+                            needsTarget: true,
+                        },
+                        {
+                            value: "cascade",
+                            label: "Remove the tasks from the team",
+                            description: "The tasks stay, without a team",
+                        },
+                    ]}
+                    targets={teams.filter((t) => t.id !== blockedDelete.id).map((t) => ({ value: t.id, label: t.name }))}
+                    targetPlaceholder="Choose a team"
+                    onConfirm={(policy, target) => handleDeleteTeam(blockedDelete.id, policy, target)}
+                    onCancel={() => setBlockedDelete(null)}
+                />
+            )}
         </div>
     );
 }
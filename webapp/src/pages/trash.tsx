@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { client } from "@/lib/api";
+import { handleApiError } from "@/lib/errors";
+import { Trash2, RotateCcw, CheckSquare, Calendar, MapPin, Package, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { DataTable, type ColumnDef } from "@/components/ui/data-table";
+
+type TrashKind = "tasks" | "events" | "rooms" | "assets" | "teams";
+
+interface TrashedItem {
+    kind: TrashKind;
+    id: string;
+    title: string;
+    deletedBy?: { name: string; email: string };
+    deletedAt: string;
+    purgeAt: string;
+    canPurge: boolean;
+}
+
+const KINDS: Record<TrashKind, { label: string; icon: typeof Trash2 }> = {
+    tasks: { label: "Task", icon: CheckSquare },
+    events: { label: "Event", icon: Calendar },
+    rooms: { label: "Room", icon: MapPin },
+    assets: { label: "Asset", icon: Package },
+    teams: { label: "Team", icon: Users },
+};
+
+const KIND_OPTIONS = [
+    { value: "all", label: "Everything" },
+    { value: "tasks", label: "Tasks" },
+    { value: "events", label: "Events" },
+    { value: "rooms", label: "Rooms" },
+    { value: "assets", label: "Assets" },
+    { value: "teams", label: "Teams" },
+];
+
+export function TrashPage() {
+    const [items, setItems] = useState<TrashedItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState(30);
+    const [kind, setKind] = useState("all");
+
+    const fetchTrash = useCallback(() => {
+        client.trash.list({ kind: kind === "all" ? undefined : kind })
+            .then((result: { items: TrashedItem[]; retentionDays: number }) => {
+                setItems(result.items);
+                setRetentionDays(result.retentionDays);
+            })
+            .catch((error: unknown) => handleApiError(error, "Failed to fetch trash"));
+    }, [kind]);
+
+    useEffect(() => {
+        fetchTrash();
+    }, [fetchTrash]);
+
+    const handleRestore = useCallback(async (item: TrashedItem) => {
+        try {
+            await client.trash.restore({ kind: item.kind, id: item.id });
+            toast.success(`${KINDS[item.kind].label} restored`, { description: item.title });
+            fetchTrash();
+        } catch (error) {
+            handleApiError(error, "Failed to restore item");
+        }
+    }, [fetchTrash]);
+
+    const handlePurge = useCallback(async (item: TrashedItem) => {
+        if (!confirm(`Permanently delete "${item.title}"? This cannot be undone.`)) return;
+        try {
+            await client.trash.purge({ kind: item.kind, id: item.id });
+            toast.success("Deleted permanently", { description: item.title });
+            fetchTrash();
+        } catch (error) {
+            handleApiError(error, "Failed to delete item");
+        }
+    }, [fetchTrash]);
+
+    const columns = useMemo<ColumnDef<TrashedItem>[]>(() => [
+        {
+            accessorKey: "title",
+            header: "Item",
+            cell: ({ row }) => {
+                const Icon = KINDS[row.original.kind].icon;
+                return (
+                    <div className="flex items-center gap-3">
+                        <Icon className="w-4 h-4 text-gray-400" />
+                        <div>
+                            <div className="font-medium text-white">{row.original.title}</div>
+                            <div className="text-xs text-gray-400">{KINDS[row.original.kind].label}</div>
+                        </div>
+                    </div>
+                );
+            },
+        },
+        {
+            id: "deletedBy",
+            header: "Deleted by",
+            accessorFn: (item) => item.deletedBy?.name ?? "",
+            cell: ({ row }) => <span className="text-sm text-gray-300">{row.original.deletedBy?.name ?? "—"}</span>,
+        },
+        {
+            accessorKey: "deletedAt",
+            header: "Deleted",
+            cell: ({ row }) => (
+                <span className="text-sm text-gray-300">
+                    {formatDistanceToNow(new Date(row.original.deletedAt), { addSuffix: true })}
+                </span>
+            ),
+        },
+        {
+            accessorKey: "purgeAt",
+            header: "Deleted permanently",
+            cell: ({ row }) => (
+                <span className="text-sm text-gray-400">
+                    {formatDistanceToNow(new Date(row.original.purgeAt), { addSuffix: true })}
+                </span>
+            ),
+        },
+        {
+            id: "actions",
+            header: "",
+            enableSorting: false,
+            cell: ({ row }) => (
+                <div className="flex justify-end gap-1">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore(row.original)}
+                        className="text-emerald-400 hover:text-emerald-300"
+                    >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                    </Button>
+                    {row.original.canPurge && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePurge(row.original)}
+                            className="text-gray-400 hover:text-red-300"
+                        >
+                            Delete forever
+                        </Button>
+                    )}
+                </div>
+            ),
+        },
+    ], [handleRestore, handlePurge]);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 p-6">
+            <div className="flex items-center justify-between mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+                        <Trash2 className="w-7 h-7 text-violet-400" />
+                        Trash
+                    </h1>
+                    <p className="text-gray-400 mt-1">
+                        Deleted items can be restored for {retentionDays} days before they are removed for good
+                    </p>
+                </div>
+                <div className="w-44">
+                    <Select options={KIND_OPTIONS} value={kind} onValueChange={setKind} />
+                </div>
+            </div>
+
+            <div className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-4">
+                <DataTable columns={columns} data={items} defaultPageSize={20} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { client } from "@/lib/api";
+import { dependentsOf, handleApiError, type Dependent } from "@/lib/errors";
+import { useAuthStore } from "@/stores/auth-store";
+import { UserCog, UserPlus, Search, ChevronLeft, ChevronRight, ShieldCheck, Mail, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { DependentsDialog } from "@/components/common/dependents-dialog";
+import { DataTable, type ColumnDef } from "@/components/ui/data-table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+type Role = "admin" | "member";
+
+interface ManagedUser {
+    id: string;
+    name: string;
+    email: string;
+    role: Role;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    sso: boolean;
+    teams: { id: string; name: string }[];
+    deactivatedAt?: string;
+    createdAt: string;
+}
+
+interface UserPage {
+    items: ManagedUser[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+interface PendingInvitation {
+    id: string;
+    email: string;
+    name?: string;
+    role: Role;
+    teams: { _id: string; name: string }[];
+    invitedBy?: { name: string };
+    expiresAt: string;
+}
+
+const PAGE_SIZE = 20;
+
+const ROLE_OPTIONS = [
+    { value: "member", label: "Member" },
+    { value: "admin", label: "Admin" },
+];
+
+const ROLE_FILTER_OPTIONS = [{ value: "all", label: "All roles" }, ...ROLE_OPTIONS];
+
+const STATUS_OPTIONS = [
+    { value: "all", label: "All users" },
+    { value: "active", label: "Active" },
+    { value: "deactivated", label: "Deactivated" },
+];
+
+const emptyInvite = { email: "", name: "", role: "member" as Role, teams: [] as string[] };
+
+export function UsersPage() {
+    const currentUser = useAuthStore((state) => state.user);
+    const [data, setData] = useState<UserPage>({ items: [], total: 0, page: 1, pageSize: PAGE_SIZE });
+    const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+    const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+    const [search, setSearch] = useState("");
+    const [role, setRole] = useState("all");
+    const [status, setStatus] = useState("all");
+    const [page, setPage] = useState(1);
+    const [showInviteDialog, setShowInviteDialog] = useState(false);
+    const [invite, setInvite] = useState(emptyInvite);
+    // What kept a member from being removed: owned teams, open tasks, upcoming bookings, assets
+    const [blockedRemoval, setBlockedRemoval] = useState<{ user: ManagedUser; dependents: Dependent[] } | null>(null);
+
+    const fetchUsers = useCallback(() => {
+        client.users.list({
+            search: search || undefined,
+            role: role === "all" ? undefined : role,
+            status: status === "all" ? undefined : status,
+            page,
+            pageSize: PAGE_SIZE,
+        })
+            .then((result: UserPage) => setData(result))
+            .catch((error: unknown) => handleApiError(error, "Failed to fetch users"));
+    }, [search, role, status, page]);
+
+    const fetchInvitations = useCallback(() => {
+        client.users.invitations()
+            .then((result: PendingInvitation[]) => setInvitations(result))
+            .catch((error: unknown) => console.error("Failed to fetch invitations:", error));
+    }, []);
+
+    // Debounced so typing in the search box does not fire a request per keystroke
+    useEffect(() => {
+        const timeout = setTimeout(fetchUsers, 250);
+        return () => clearTimeout(timeout);
+    }, [fetchUsers]);
+
+    useEffect(() => {
+        fetchInvitations();
+        client.teams.list()
+            .then((result: { id: string; name: string }[]) => setTeams(result.map((t) => ({ id: t.id, name: t.name }))))
+            .catch((error: unknown) => console.error("Failed to fetch teams:", error));
+    }, [fetchInvitations]);
+
+    const handleRoleChange = useCallback(async (user: ManagedUser, newRole: string) => {
+        if (newRole === user.role) return;
+        try {
+            await client.users.setRole({ id: user.id, role: newRole });
+            toast.success(`${user.name} is now ${newRole === "admin" ? "an admin" : "a member"}`);
+            fetchUsers();
+        } catch (error) {
+            handleApiError(error, "Failed to change role");
+        }
+    }, [fetchUsers]);
+
+    const handleToggleActive = useCallback(async (user: ManagedUser) => {
+        const deactivating = !user.deactivatedAt;
+        if (deactivating && !confirm(`Deactivate ${user.name}? They are signed out and cannot sign in until reactivated.`)) {
+            return;
+        }
+
+        try {
+            if (deactivating) {
+                await client.users.deactivate({ id: user.id });
+            } else {
+                await client.users.reactivate({ id: user.id });
+            }
+            toast.success(deactivating ? "User deactivated" : "User reactivated", { description: user.name });
+            fetchUsers();
+        } catch (error) {
+            handleApiError(error, deactivating ? "Failed to deactivate user" : "Failed to reactivate user");
+        }
+    }, [fetchUsers]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await client.users.invite({
+                email: invite.email,
+                name: invite.name || undefined,
+                role: invite.role,
+                teams: invite.teams,
+            });
+            // Existing accounts get an invitation too and join once they accept it
+            toast.success("Invitation sent", { description: invite.email });
+            setShowInviteDialog(false);
+            setInvite(emptyInvite);
+            fetchInvitations();
+        } catch (error) {
+            handleApiError(error, "Failed to send invitation");
+        }
+    };
+
+    const handleRemove = useCallback(async (user: ManagedUser, policy?: string, reassignTo?: string) => {
+        if (!policy && !confirm(`Remove ${user.name} from the organization? Their account stays, but they lose access to its data.`)) {
+            return;
+        }
+
+        try {
+            await client.users.remove({ id: user.id, policy, reassignTo });
+            setBlockedRemoval(null);
+            toast.success("User removed", { description: user.name });
+            fetchUsers();
+        } catch (error) {
+            const dependents = dependentsOf(error);
+            if (dependents.length > 0) {
+                setBlockedRemoval({ user, dependents });
+                return;
+            }
+            handleApiError(error, "Failed to remove user");
+        }
+    }, [fetchUsers]);
+
+    const handleRevokeInvitation = async (invitation: PendingInvitation) => {
+        if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+        try {
+            await client.users.revokeInvitation({ id: invitation.id });
+            toast.success("Invitation revoked");
+            fetchInvitations();
+        } catch (error) {
+            handleApiError(error, "Failed to revoke invitation");
+        }
+    };
+
+    const columns = useMemo<ColumnDef<ManagedUser>[]>(() => [
+        {
+            accessorKey: "name",
+            header: "Name",
+            cell: ({ row }) => (
+                <div>
+                    <div className="font-medium text-white">{row.original.name}</div>
+                    <div className="text-xs text-gray-400">{row.original.email}</div>
+                </div>
+            ),
+        },
+        {
+            accessorKey: "role",
+            header: "Role",
+            cell: ({ row }) => (
+                <div className="w-32">
+                    <Select
+                        options={ROLE_OPTIONS}
+                        value={row.original.role}
+                        onValueChange={(value) => handleRoleChange(row.original, value)}
+                        // Every change grants or revokes admin, which only admins may do
+                        disabled={row.original.id === currentUser?.id || currentUser?.role !== "admin"}
+                    />
+                </div>
+            ),
+        },
+        {
+            id: "teams",
+            header: "Teams",
+            accessorFn: (user) => user.teams.map((t) => t.name).join(", "),
+            cell: ({ row }) => (
+                <span className="text-sm text-gray-300">
+                    {row.original.teams.map((t) => t.name).join(", ") || "—"}
+                </span>
+            ),
+        },
+        {
+            id: "security",
+            header: "Sign-in",
+            accessorFn: (user) => (user.sso ? "SSO" : "Password"),
+            cell: ({ row }) => (
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="text-gray-300">{row.original.sso ? "SSO" : "Password"}</span>
+                    {row.original.twoFactorEnabled && (
+                        <span title="Two-factor enabled">
+                            <ShieldCheck className="w-4 h-4 text-emerald-400" />
+                        </span>
+                    )}
+                    {!row.original.emailVerified && (
+                        <span title="Email not verified">
+                            <Mail className="w-4 h-4 text-amber-400" />
+                        </span>
+                    )}
+                </div>
+            ),
+        },
+        {
+            id: "status",
+            header: "Status",
+            accessorFn: (user) => (user.deactivatedAt ? "Deactivated" : "Active"),
+            cell: ({ row }) => (
+                <span
+                    className={cn(
+                        "px-2 py-0.5 rounded-full text-xs font-medium",
+                        row.original.deactivatedAt ? "bg-red-500/20 text-red-300" : "bg-emerald-500/20 text-emerald-300"
+                    )}
+                >
+                    {row.original.deactivatedAt ? "Deactivated" : "Active"}
+                </span>
+            ),
+        },
+        {
+            id: "actions",
+            header: "",
+            enableSorting: false,
+            cell: ({ row }) =>
+                row.original.id === currentUser?.id ? null : (
+                    <div className="flex justify-end gap-1">
+                        {/* Deactivation locks the account out of every organization */}
+                        {currentUser?.deploymentAdmin && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleToggleActive(row.original)}
+                                className={row.original.deactivatedAt ? "text-emerald-400 hover:text-emerald-300" : "text-red-400 hover:text-red-300"}
+                            >
+                                {row.original.deactivatedAt ? "Reactivate" : "Deactivate"}
+                            </Button>
+                        )}
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(row.original)}
+                            className="text-gray-400 hover:text-red-300"
+                        >
+                            Remove
+                        </Button>
+                    </div>
+                ),
+        },
+    ], [currentUser?.id, currentUser?.role, currentUser?.deploymentAdmin, handleRoleChange, handleToggleActive, handleRemove]);
+
+    const totalPages = Math.max(1, Math.ceil(data.total / PAGE_SIZE));
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-950 p-6">
+            <div className="flex items-center justify-between mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+                        <UserCog className="w-7 h-7 text-violet-400" />
+                        Users
+                    </h1>
+                    <p className="text-gray-400 mt-1">Manage the organization's members, roles and invitations</p>
+                </div>
+                <Button
+                    onClick={() => setShowInviteDialog(true)}
+                    className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 shadow-lg shadow-violet-500/20"
+                >
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Invite User
+                </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <div className="relative w-72">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <Input
+                        value={search}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            setSearch(e.target.value);
+                            setPage(1);
+                        }}
+                        placeholder="Search by name or email"
+                        className="pl-9 bg-white/5 border-white/10 text-white"
+                    />
+                </div>
+                <div className="w-40">
+                    <Select
+                        options={ROLE_FILTER_OPTIONS}
+                        value={role}
+                        onValueChange={(value) => {
+                            setRole(value);
+                            setPage(1);
+                        }}
+                    />
+                </div>
+                <div className="w-40">
+                    <Select
+                        options={STATUS_OPTIONS}
+                        value={status}
+                        onValueChange={(value) => {
+                            setStatus(value);
+                            setPage(1);
+                        }}
+                    />
+                </div>
+            </div>
+
+            <div className="rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-4">
+                {/* Search and paging happen on the server; the table only sorts and filters the current page */}
+                <DataTable columns={columns} data={data.items} showSearch={false} showPagination={false} defaultPageSize={PAGE_SIZE} />
+
+                <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+                    <span>{data.total} users</span>
+                    <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                            <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <span>Page {page} of {totalPages}</span>
+                        <Button variant="ghost" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                            <ChevronRight className="w-4 h-4" />
+                        </Button>
+                    </div>
+                </div>
+            </div>
+
+            {invitations.length > 0 && (
+                <div className="mt-6 rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 p-4">
+                    <h2 className="text-lg font-semibold text-white mb-3">Pending Invitations</h2>
+                    <div className="divide-y divide-white/10">
+                        {invitations.map((invitation) => (
+                            <div key={invitation.id} className="flex items-center gap-4 py-2">
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-white">
+                                        {invitation.name ? `${invitation.name} · ` : ""}{invitation.email}
+                                    </div>
+                                    <div className="text-xs text-gray-400">
+                                        {invitation.role === "admin" ? "Admin" : "Member"}
+                                        {invitation.teams.length > 0 && ` · ${invitation.teams.map((t) => t.name).join(", ")}`}
+                                        {invitation.invitedBy && ` · invited by ${invitation.invitedBy.name}`}
+                                        {` · expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                                    </div>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleRevokeInvitation(invitation)}
+                                    className="text-gray-400 hover:text-red-400"
+                                >
+                                    <X className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+                <DialogContent className="bg-slate-900 border-white/10 text-white max-w-md">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <UserPlus className="w-5 h-5 text-violet-400" />
+                            Invite User
+                        </DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleInvite} className="space-y-4 mt-4">
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Email</label>
+                            <Input
+                                type="email"
+                                value={invite.email}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInvite({ ...invite, email: e.target.value })}
+                                placeholder="name@company.com"
+                                required
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Name</label>
+                            <Input
+                                value={invite.name}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInvite({ ...invite, name: e.target.value })}
+                                placeholder="Optional"
+                                className="bg-white/5 border-white/10 text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Role</label>
+                            <Select
+                                options={ROLE_OPTIONS}
+                                value={invite.role}
+                                onValueChange={(value) => setInvite({ ...invite, role: value as Role })}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-gray-400 mb-1 block">Teams</label>
+                            <MultiSelect
+                                options={teams.map((t) => ({ value: t.id, label: t.name }))}
+                                value={invite.teams}
+                                onValueChange={(value) => setInvite({ ...invite, teams: value })}
+                                placeholder="No teams"
+                            />
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Button type="button" variant="ghost" onClick={() => setShowInviteDialog(false)} className="text-gray-400">
+                                Cancel
+                            </Button>
+                            <Button type="submit" className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500">
+                                Send Invitation
+                            </Button>
+                        </div>
+                    </form>
+                </DialogContent>
+            </Dialog>
+
+            {blockedRemoval && (
+                <DependentsDialog
+                    title={blockedRemoval.user.name}
+                    dependents={blockedRemoval.dependents}
+                    policies={[
+                        {
+                            value: "reassign",
+                            label: "Hand everything to another member",
+                            description: "Teams, tasks, bookings and assets move to the member you pick",
+                            needsTarget: true,
+                        },
+                        {
+                            value: "cascade",
+                            label: "Release everything",
+                            description: "You take over their teams, upcoming bookings are cancelled and assignments are cleared",
+                        },
+                    ]}
+                    targets={data.items
+                        .filter((u) => u.id !== blockedRemoval.user.id && !u.deactivatedAt)
+                        .map((u) => ({ value: u.id, label: u.name }))}
+                    targetPlaceholder="Choose a member"
+                    onConfirm={(policy, target) => handleRemove(blockedRemoval.user, policy, target)}
+                    onCancel={() => setBlockedRemoval(null)}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearch } from "@tanstack/react-router";
+import { client, refreshSession } from "@/lib/api";
+import { getErrorMessage } from "@/lib/errors";
+import { useAuthStore } from "@/stores/auth-store";
+import { MailCheck, Loader2, XCircle } from "lucide-react";
+
+type Status = "verifying" | "verified" | "failed";
+
+export function VerifyEmailPage() {
+    const { token } = useSearch({ strict: false }) as { token?: string };
+    const [status, setStatus] = useState<Status>(token ? "verifying" : "failed");
+    const [message, setMessage] = useState(token ? "" : "This verification link is missing its token");
+    // Tokens are single-use, so make sure StrictMode's double effect does not submit it twice
+    const submitted = useRef(false);
+
+    useEffect(() => {
+        if (!token || submitted.current) return;
+        submitted.current = true;
+
+        client.auth.verifyEmail({ token })
+            .then(async (result: { email: string }) => {
+                const { user, setUser } = useAuthStore.getState();
+                if (user?.email === result.email) {
+                    setUser({ ...user, emailVerified: true });
+                    // A new session picks up the organization joined on verification
+                    await refreshSession();
+                }
+                setStatus("verified");
+            })
+            .catch((err: unknown) => {
+                setMessage(getErrorMessage(err, "Failed to verify email"));
+                setStatus("failed");
+            });
+    }, [token]);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+            <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(120,119,198,0.1),transparent_50%)]" />
+
+            <div className="relative w-full max-w-md p-8">
+                <div className="backdrop-blur-xl bg-white/10 rounded-3xl shadow-2xl border border-white/20 p-8 text-center">
+                    <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 mb-4 shadow-lg shadow-purple-500/30">
+                        {status === "verifying" && <Loader2 className="w-8 h-8 text-white animate-spin" />}
+                        {status === "verified" && <MailCheck className="w-8 h-8 text-white" />}
+                        {status === "failed" && <XCircle className="w-8 h-8 text-white" />}
+                    </div>
+
+                    {status === "verifying" && (
+                        <h1 className="text-2xl font-bold text-white mb-2">Verifying your email...</h1>
+                    )}
+                    {status === "verified" && (
+                        <>
+                            <h1 className="text-2xl font-bold text-white mb-2">Email verified</h1>
+                            <p className="text-gray-400">Thanks for confirming your address.</p>
+                        </>
+                    )}
+                    {status === "failed" && (
+                        <>
+                            <h1 className="text-2xl font-bold text-white mb-2">Verification failed</h1>
+                            <p className="text-gray-400">{message}</p>
+                        </>
+                    )}
+
+                    <div className="mt-6">
+                        <Link
+                            to="/"
+                            className="text-purple-400 hover:text-purple-300 font-medium transition-colors"
+                        >
+                            Continue to Damlee
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+import { create } from "zustand";
+
+export interface LiveAlert {
+    id: string;
+    title: string;
+    message: string;
+    type: "info" | "warning" | "error" | "success";
+    source: "manual" | "iot" | "system";
+    priority: "low" | "medium" | "high" | "critical";
+    isRead: boolean;
+    createdAt: string;
+}
+
+interface AlertsState {
+    unreadCount: number;
+    lastAlert: LiveAlert | null;
+}
+
+interface AlertsActions {
+    setUnreadCount: (count: number) => void;
+    receive: (alert: LiveAlert) => void;
+}
+
+type AlertsStore = AlertsState & AlertsActions;
+
+export const useAlertsStore = create<AlertsStore>()((set) => ({
+    unreadCount: 0,
+    lastAlert: null,
+
+    setUnreadCount: (unreadCount) => set({ unreadCount: Math.max(0, unreadCount) }),
+
+    receive: (alert) => set((state) => ({
+        lastAlert: alert,
+        unreadCount: state.unreadCount + 1,
+    })),
+}));
@@ -7,17 +7,22 @@ export interface User {
     name: string;
     role: "admin" | "member";
     avatar?: string;
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
+    // Admin of the whole deployment; `role` is the role in the active organization
+    deploymentAdmin?: boolean;
 }
 
 interface AuthState {
     user: User | null;
     token: string | null;
+    refreshToken: string | null;
     isAuthenticated: boolean;
     isLoading: boolean;
 }
 
 interface AuthActions {
-    login: (user: User, token: string) => void;
+    login: (user: User, token: string, refreshToken: string) => void;
     logout: () => void;
     setUser: (user: User) => void;
     setLoading: (loading: boolean) => void;
@@ -30,17 +35,20 @@ export const useAuthStore = create<AuthStore>()(
         (set) => ({
             user: null,
             token: null,
+            refreshToken: null,
             isAuthenticated: false,
             isLoading: true,
 
-            login: (user, token) => {
+            login: (user, token, refreshToken) => {
                 localStorage.setItem("token", token);
-                set({ user, token, isAuthenticated: true, isLoading: false });
+                localStorage.setItem("refreshToken", refreshToken);
+                set({ user, token, refreshToken, isAuthenticated: true, isLoading: false });
             },
 
             logout: () => {
                 localStorage.removeItem("token");
-                set({ user: null, token: null, isAuthenticated: false, isLoading: false });
+                localStorage.removeItem("refreshToken");
+                set({ user: null, token: null, refreshToken: null, isAuthenticated: false, isLoading: false });
             },
 
             setUser: (user) => set({ user }),
@@ -52,6 +60,7 @@ export const useAuthStore = create<AuthStore>()(
             partialize: (state) => ({
                 user: state.user,
                 token: state.token,
+                refreshToken: state.refreshToken,
                 isAuthenticated: state.isAuthenticated,
             }),
         }